@@ -9,12 +9,14 @@ import {
 } from '@nestjs/common';
 import { AdminService } from './admin.service';
 import { UserSearchDto } from '../user/dto/user-search.dto';
-import { ChangeRoleDto } from '../user/dto/change-role.dto';
+import { ChangeRoleDto, UserRole } from '../user/dto/change-role.dto';
 import { BanUserDto } from '../user/dto/ban-user.dto';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Roles } from '../auth/roles.decorator';
 
 @ApiTags('admin')
 @Controller('admin')
+@Roles(UserRole.ROLE_SUPER_ADMIN)
 export class AdminController {
   constructor(private readonly adminService: AdminService) {}
 
@@ -1,5 +1,7 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AuthModule } from './auth/auth.module';
 import { UserModule } from './user/user.module';
 import { AdminModule } from './admin/admin.module';
@@ -19,6 +21,15 @@ import { ReviewModule } from './review/review.module';
 import { ContactModule } from './contact/contact.module';
 import { RedirectModule } from './redirect/redirect.module';
 import { SiteConfigModule } from './site-config/site-config.module';
+import { CouponModule } from './coupon/coupon.module';
+import { OrderReturnModule } from './order-return/order-return.module';
+import { OrderModule } from './order/order.module';
+import { AdminOrderModule } from './order/admin-order.module';
+import { NotificationModule } from './notification/notification.module';
+import { WebhookSubscriptionModule } from './webhook-subscription/webhook-subscription.module';
+import { PriceBookModule } from './price-book/price-book.module';
+import { SearchModule } from './search/search.module';
+import { RolesGuard } from './auth/roles.guard';
 
 @Module({
   imports: [
@@ -26,6 +37,7 @@ import { SiteConfigModule } from './site-config/site-config.module';
       isGlobal: true,
       envFilePath: '.env',
     }),
+    ScheduleModule.forRoot(),
     PrismaModule,
     AuthModule,
     UserModule,
@@ -45,8 +57,16 @@ import { SiteConfigModule } from './site-config/site-config.module';
     ContactModule,
     RedirectModule,
     SiteConfigModule,
+    CouponModule,
+    OrderReturnModule,
+    OrderModule,
+    AdminOrderModule,
+    NotificationModule,
+    WebhookSubscriptionModule,
+    PriceBookModule,
+    SearchModule,
   ],
   controllers: [],
-  providers: [],
+  providers: [{ provide: APP_GUARD, useClass: RolesGuard }],
 })
 export class AppModule {}
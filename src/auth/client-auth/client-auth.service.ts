@@ -10,8 +10,8 @@ import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ClientUserService } from '../../client_user/client_user.service';
 import { KiotVietService } from '../../kiotviet/kiotviet.service';
+import { NotificationService } from '../../notification/notification.service';
 import * as bcrypt from 'bcrypt';
-import * as nodemailer from 'nodemailer';
 import { randomUUID } from 'crypto';
 import { ClientRegisterDto } from './dto/client-register.dto';
 import { ClientLoginDto } from './dto/client-login.dto';
@@ -36,7 +36,6 @@ interface PendingOAuthUser {
 
 @Injectable()
 export class ClientAuthService {
-  private transporter: nodemailer.Transporter;
   private pendingRegistrations = new Map<string, PendingRegistration>();
   private pendingOAuthUsers = new Map<string, PendingOAuthUser>();
 
@@ -46,17 +45,8 @@ export class ClientAuthService {
     private configService: ConfigService,
     private clientUserService: ClientUserService,
     private kiotVietService: KiotVietService,
+    private notificationService: NotificationService,
   ) {
-    this.transporter = nodemailer.createTransport({
-      host: this.configService.get('MAIL_HOST'),
-      port: this.configService.get('MAIL_PORT'),
-      secure: false,
-      auth: {
-        user: this.configService.get('MAIL_USER'),
-        pass: this.configService.get('MAIL_PASSWORD'),
-      },
-    });
-
     setInterval(() => this.cleanupExpiredRegistrations(), 5 * 60 * 1000);
     setInterval(() => this.cleanupExpiredSessions(), 60 * 60 * 1000); // Clean every hour
   }
@@ -178,7 +168,7 @@ export class ClientAuthService {
       expiresAt,
     });
 
-    await this.transporter.sendMail({
+    await this.notificationService.sendMail({
       from: this.configService.get('MAIL_FROM'),
       to: registerDto.email,
       subject: 'Xác thực tài khoản - Diệp Trà',
@@ -458,7 +448,7 @@ export class ClientAuthService {
       expiresAt,
     });
 
-    await this.transporter.sendMail({
+    await this.notificationService.sendMail({
       from: this.configService.get('MAIL_FROM'),
       to: email,
       subject: 'Password Reset Verification Code - Diệp Trà',
@@ -0,0 +1,11 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+// Checkout: token client hợp lệ thì gắn request.user, không có / sai token
+// thì coi là khách vãng lai thay vì trả 401.
+@Injectable()
+export class OptionalClientJwtAuthGuard extends AuthGuard('client-jwt') {
+  handleRequest(err: any, user: any) {
+    return user || null;
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  ExecutionContext,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { KiotVietWebhookGuard } from './kiotviet-webhook.guard';
+
+describe('KiotVietWebhookGuard', () => {
+  const secret = 'kv_secret';
+  const body = Buffer.from('{"Id":"abc","Notifications":[]}');
+  const digest = createHmac('sha256', secret).update(body).digest();
+
+  const guard = new KiotVietWebhookGuard({
+    get: () => secret,
+  } as unknown as ConfigService);
+
+  const contextFor = (signature: string | undefined, rawBody = body) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          headers: signature ? { 'x-hub-signature': signature } : {},
+          rawBody,
+          ip: '127.0.0.1',
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('accepts hex and base64 signatures, with or without the sha256= prefix', () => {
+    expect(guard.canActivate(contextFor(digest.toString('hex')))).toBe(true);
+    expect(guard.canActivate(contextFor(digest.toString('base64')))).toBe(true);
+    expect(
+      guard.canActivate(contextFor(`sha256=${digest.toString('hex')}`)),
+    ).toBe(true);
+  });
+
+  it('rejects a missing signature', () => {
+    expect(() => guard.canActivate(contextFor(undefined))).toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejects a signature for a different body', () => {
+    expect(() =>
+      guard.canActivate(
+        contextFor(digest.toString('hex'), Buffer.from('{"Id":"other"}')),
+      ),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('rejects non-ASCII signatures of the same string length with 401', () => {
+    const sameLength = 'é'.repeat(digest.toString('hex').length);
+
+    expect(() => guard.canActivate(contextFor(sameLength))).toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejects everything when the secret is not configured', () => {
+    const unconfigured = new KiotVietWebhookGuard({
+      get: () => undefined,
+    } as unknown as ConfigService);
+
+    expect(() =>
+      unconfigured.canActivate(contextFor(digest.toString('hex'))),
+    ).toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// KiotViet ký body webhook bằng HMAC-SHA256 với secret khai báo khi đăng ký
+// webhook, gửi trong header "X-Hub-Signature" (có thể kèm tiền tố "sha256=").
+// Cần rawBody (main.ts) để ký đúng byte đã nhận. ENV: KIOTVIET_WEBHOOK_SECRET
+@Injectable()
+export class KiotVietWebhookGuard implements CanActivate {
+  private readonly logger = new Logger(KiotVietWebhookGuard.name);
+
+  constructor(private configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const header: string = request.headers['x-hub-signature'] || '';
+    const signature = header.replace(/^sha256=/i, '').trim();
+    const secret = this.configService.get<string>('KIOTVIET_WEBHOOK_SECRET');
+    const body: Buffer | undefined = request.rawBody;
+
+    if (!signature || !secret || !body) {
+      this.logger.warn(`Rejected KiotViet webhook from ${request.ip}`);
+      throw new UnauthorizedException('Invalid signature');
+    }
+
+    const digest = createHmac('sha256', secret).update(body).digest();
+    const received = Buffer.from(signature);
+    // Chấp nhận cả dạng hex lẫn base64. So độ dài theo byte: timingSafeEqual
+    // ném lỗi khi hai buffer khác số byte (chữ ký chứa ký tự ngoài ASCII).
+    const valid = [digest.toString('hex'), digest.toString('base64')].some(
+      (format) => {
+        const expected = Buffer.from(format);
+        return (
+          expected.length === received.length &&
+          timingSafeEqual(expected, received)
+        );
+      },
+    );
+
+    if (!valid) {
+      this.logger.warn(`Rejected KiotViet webhook from ${request.ip}`);
+      throw new UnauthorizedException('Invalid signature');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,47 @@
+import { UserRole } from '../user/dto/change-role.dto';
+
+export enum Permission {
+  PRODUCT_EDIT = 'product:edit',
+  PRODUCT_DELETE = 'product:delete',
+  CATEGORY_MANAGE = 'category:manage',
+  CONTENT_MANAGE = 'content:manage',
+  FILE_UPLOAD = 'file:upload',
+  KIOTVIET_SYNC = 'kiotviet:sync',
+  ORDER_MANAGE = 'order:manage',
+  PROMOTION_MANAGE = 'promotion:manage',
+  SITE_CONFIG_MANAGE = 'site-config:manage',
+  USER_MANAGE = 'user:manage',
+}
+
+// Ma trận quyền theo role (authority.role).
+// ROLE_SUPER_ADMIN luôn có toàn quyền nên không cần liệt kê.
+export const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  [UserRole.ROLE_ADMIN]: [
+    Permission.PRODUCT_EDIT,
+    Permission.PRODUCT_DELETE,
+    Permission.CATEGORY_MANAGE,
+    Permission.CONTENT_MANAGE,
+    Permission.FILE_UPLOAD,
+    Permission.KIOTVIET_SYNC,
+    Permission.ORDER_MANAGE,
+    Permission.PROMOTION_MANAGE,
+    Permission.SITE_CONFIG_MANAGE,
+  ],
+  // Đội nội dung: sửa tin tức/trang/sản phẩm, không xoá sản phẩm, không sync KiotViet.
+  [UserRole.ROLE_EDITOR]: [
+    Permission.PRODUCT_EDIT,
+    Permission.CATEGORY_MANAGE,
+    Permission.CONTENT_MANAGE,
+    Permission.FILE_UPLOAD,
+  ],
+  [UserRole.ROLE_SALES]: [Permission.ORDER_MANAGE, Permission.PROMOTION_MANAGE],
+  [UserRole.ROLE_USER]: [],
+};
+
+export const hasPermission = (
+  roles: string[] = [],
+  permission: Permission,
+): boolean => {
+  if (roles.includes(UserRole.ROLE_SUPER_ADMIN)) return true;
+  return roles.some((role) => ROLE_PERMISSIONS[role]?.includes(permission));
+};
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '../user/dto/change-role.dto';
+import { Permission } from './permissions';
+
+export const ROLES_KEY = 'roles';
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
+
+export const PERMISSIONS_KEY = 'permissions';
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,67 @@
+import {
+  Injectable,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from '@nestjs/passport';
+import { IS_PUBLIC_KEY } from './public.decorator';
+import { PERMISSIONS_KEY, ROLES_KEY } from './roles.decorator';
+import { Permission, hasPermission } from './permissions';
+import { UserRole } from '../user/dto/change-role.dto';
+
+/**
+ * Guard toàn cục cho CMS. Chỉ can thiệp vào route có @Roles() hoặc
+ * @RequirePermissions(): xác thực JWT CMS rồi đối chiếu authority.role.
+ * Route @Public() và route không khai báo quyền (storefront, client-jwt)
+ * giữ nguyên hành vi cũ.
+ */
+@Injectable()
+export class RolesGuard extends AuthGuard('jwt') {
+  constructor(private reflector: Reflector) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+
+    const isPublic = this.reflector.getAllAndOverride<boolean>(
+      IS_PUBLIC_KEY,
+      targets,
+    );
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(
+      ROLES_KEY,
+      targets,
+    );
+    const permissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      targets,
+    );
+
+    if (isPublic || (!roles?.length && !permissions?.length)) {
+      return true;
+    }
+
+    await (super.canActivate(context) as Promise<boolean>);
+
+    const user = context.switchToHttp().getRequest().user;
+    const userRoles: string[] = (user?.roles || []).filter(Boolean);
+
+    if (
+      roles?.length &&
+      !userRoles.includes(UserRole.ROLE_SUPER_ADMIN) &&
+      !roles.some((role) => userRoles.includes(role))
+    ) {
+      throw new ForbiddenException('Bạn không có quyền thực hiện thao tác này');
+    }
+
+    if (
+      permissions?.length &&
+      !permissions.every((permission) => hasPermission(userRoles, permission))
+    ) {
+      throw new ForbiddenException('Bạn không có quyền thực hiện thao tác này');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  ExecutionContext,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SepayWebhookGuard } from './sepay-webhook.guard';
+
+describe('SepayWebhookGuard', () => {
+  const apiKey = 'sepay_key_123';
+
+  const guard = new SepayWebhookGuard({
+    get: () => apiKey,
+  } as unknown as ConfigService);
+
+  const contextFor = (authorization: string | undefined) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          headers: authorization ? { authorization } : {},
+          ip: '127.0.0.1',
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('accepts the configured API key', () => {
+    expect(guard.canActivate(contextFor(`Apikey ${apiKey}`))).toBe(true);
+  });
+
+  it('rejects a missing or wrong key', () => {
+    expect(() => guard.canActivate(contextFor(undefined))).toThrow(
+      UnauthorizedException,
+    );
+    expect(() => guard.canActivate(contextFor('Apikey sepay_key_124'))).toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejects non-ASCII keys of the same string length with 401', () => {
+    const sameLength = 'é'.repeat(apiKey.length);
+
+    expect(() => guard.canActivate(contextFor(`Apikey ${sameLength}`))).toThrow(
+      UnauthorizedException,
+    );
+  });
+});
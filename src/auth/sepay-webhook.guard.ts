@@ -0,0 +1,41 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+
+// SePay gửi header "Authorization: Apikey <API_KEY>" khi cấu hình webhook
+// chứng thực bằng API Key. ENV: SEPAY_WEBHOOK_API_KEY
+@Injectable()
+export class SepayWebhookGuard implements CanActivate {
+  private readonly logger = new Logger(SepayWebhookGuard.name);
+
+  constructor(private configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const header: string = request.headers['authorization'] || '';
+    const apiKey = header.replace(/^Apikey\s+/i, '').trim();
+    const validApiKey = this.configService.get<string>('SEPAY_WEBHOOK_API_KEY');
+
+    // So sánh sha256 của hai bên: timingSafeEqual cần cùng số byte, độ dài
+    // chuỗi bằng nhau chưa chắc bằng nhau về byte (ký tự ngoài ASCII).
+    const digest = (value: string) =>
+      createHash('sha256').update(value).digest();
+
+    if (
+      !apiKey ||
+      !validApiKey ||
+      !timingSafeEqual(digest(apiKey), digest(validApiKey))
+    ) {
+      this.logger.warn(`Rejected SePay webhook from ${request.ip}`);
+      throw new UnauthorizedException('Invalid API Key');
+    }
+
+    return true;
+  }
+}
@@ -9,6 +9,8 @@ import {
   UseGuards,
   HttpCode,
   HttpStatus,
+  UsePipes,
+  ValidationPipe,
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { CartService } from './cart.service';
@@ -16,6 +18,8 @@ import { ClientJwtAuthGuard } from '../auth/client-auth/client-jwt-auth.guard';
 import { CurrentClient } from '../auth/client-auth/current-client.decorator';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { UpdateCartDto } from './dto/update-cart.dto';
+import { ApplyCouponDto } from './dto/apply-coupon.dto';
+import { CurrentSiteCode } from '../common/decorators/site-code.decorator';
 
 @ApiTags('cart')
 @Controller('cart')
@@ -26,8 +30,11 @@ export class CartController {
 
   @Get()
   @ApiOperation({ summary: 'Get user cart' })
-  async getCart(@CurrentClient() client: any) {
-    return this.cartService.getCart(client.clientId);
+  async getCart(
+    @CurrentClient() client: any,
+    @CurrentSiteCode() siteCode: string,
+  ) {
+    return this.cartService.getCart(client.clientId, siteCode);
   }
 
   @Post('add')
@@ -61,6 +68,18 @@ export class CartController {
     return this.cartService.clearCart(client.clientId);
   }
 
+  @Post('apply-coupon')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  @ApiOperation({ summary: 'Preview coupon discount on cart' })
+  async applyCoupon(
+    @CurrentClient() client: any,
+    @Body() dto: ApplyCouponDto,
+    @CurrentSiteCode() siteCode: string,
+  ) {
+    return this.cartService.applyCoupon(client.clientId, dto, siteCode);
+  }
+
   @Post('sync')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Sync local cart with server' })
@@ -68,7 +87,8 @@ export class CartController {
     @CurrentClient() client: any,
     @Body()
     body: { cart: Array<{ slug: string; id: number; quantity: number }> },
+    @CurrentSiteCode() siteCode: string,
   ) {
-    return this.cartService.syncCart(client.clientId, body.cart);
+    return this.cartService.syncCart(client.clientId, body.cart, siteCode);
   }
 }
@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { CartService } from './cart.service';
 import { CartController } from './cart.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { PricingModule } from '../pricing/pricing.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, InventoryModule, PricingModule],
   controllers: [CartController],
   providers: [CartService],
   exports: [CartService],
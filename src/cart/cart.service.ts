@@ -6,12 +6,22 @@ import {
 import { PrismaService } from '../prisma/prisma.service';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { UpdateCartDto } from './dto/update-cart.dto';
+import { InventoryService } from '../inventory/inventory.service';
+import { PricingService } from '../pricing/pricing.service';
+import { ApplyCouponDto } from './dto/apply-coupon.dto';
+import { PriceBookService } from '../price-book/price-book.service';
 
 @Injectable()
 export class CartService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private inventoryService: InventoryService,
+    private pricingService: PricingService,
+    private priceBookService: PriceBookService,
+  ) {}
 
-  async getCart(clientId: number) {
+  async getCart(clientId: number, siteCode: string = 'dieptra') {
+    const customerType = await this.priceBookService.getCustomerType(clientId);
     const cartItems = await this.prisma.cart.findMany({
       where: { client_id: clientId },
       include: {
@@ -25,6 +35,11 @@ export class CartService {
             kiotviet_images: true,
             images_url: true,
             is_visible: true,
+            stock_quantity: true,
+            site_configs: {
+              where: { site_code: siteCode },
+              select: { price: true, wholesale_price: true },
+            },
           },
         },
       },
@@ -38,15 +53,22 @@ export class CartService {
       quantity: item.quantity,
       product: {
         title: item.product.title || item.product.kiotviet_name,
-        price: item.product.kiotviet_price
-          ? Number(item.product.kiotviet_price)
-          : 0,
+        price:
+          this.priceBookService.unitPrice(
+            item.product,
+            item.product.site_configs[0],
+            customerType,
+          ) ?? 0,
         image: item.product.kiotviet_images
           ? Array.isArray(item.product.kiotviet_images)
             ? item.product.kiotviet_images[0]
             : null
           : item.product.images_url,
         isVisible: item.product.is_visible,
+        stockQuantity: item.product.stock_quantity,
+        inStock:
+          item.product.stock_quantity === null ||
+          item.product.stock_quantity >= item.quantity,
       },
     }));
 
@@ -74,6 +96,13 @@ export class CartService {
       },
     });
 
+    await this.inventoryService.assertInStock([
+      {
+        productId: dto.product_id,
+        quantity: (existingCartItem?.quantity || 0) + dto.quantity,
+      },
+    ]);
+
     if (existingCartItem) {
       const updatedItem = await this.prisma.cart.update({
         where: { id: existingCartItem.id },
@@ -133,6 +162,10 @@ export class CartService {
       throw new NotFoundException('Cart item not found');
     }
 
+    await this.inventoryService.assertInStock([
+      { productId: Number(cartItem.product_id), quantity: dto.quantity },
+    ]);
+
     const updatedItem = await this.prisma.cart.update({
       where: { id: cartItemId },
       data: {
@@ -181,9 +214,48 @@ export class CartService {
     return { message: 'Cart cleared successfully' };
   }
 
+  // Xem trước mã giảm giá trên giỏ hàng (không ghi nhận lượt dùng).
+  async applyCoupon(
+    clientId: number,
+    dto: ApplyCouponDto,
+    siteCode: string = 'dieptra',
+  ) {
+    let cartItems: Array<{ productId: number; quantity: number }> =
+      dto.cartItems ?? [];
+
+    if (cartItems.length === 0) {
+      const saved = await this.prisma.cart.findMany({
+        where: { client_id: clientId },
+        select: { product_id: true, quantity: true },
+      });
+      cartItems = saved.map((item) => ({
+        productId: Number(item.product_id),
+        quantity: item.quantity,
+      }));
+    }
+
+    const client = await this.prisma.client_user.findUnique({
+      where: { client_id: clientId },
+      select: { phone: true },
+    });
+
+    const quote = await this.pricingService.quote(cartItems, siteCode, {
+      couponCode: dto.couponCode,
+      clientUserId: clientId,
+      phone: client?.phone,
+    });
+
+    return {
+      success: true,
+      ...quote,
+      message: `Áp dụng mã "${quote.coupon?.code}" thành công`,
+    };
+  }
+
   async syncCart(
     clientId: number,
     localCart: Array<{ slug: string; id: number; quantity: number }>,
+    siteCode: string = 'dieptra',
   ) {
     const productIds = localCart.map((item) => BigInt(item.id));
 
@@ -226,6 +298,6 @@ export class CartService {
       }
     }
 
-    return this.getCart(clientId);
+    return this.getCart(clientId, siteCode);
   }
 }
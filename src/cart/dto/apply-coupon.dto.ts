@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { QuoteItemDto } from '../../pricing/dto/quote-cart.dto';
+
+export class ApplyCouponDto {
+  @ApiProperty({ description: 'Mã giảm giá', example: 'SALE10' })
+  @IsNotEmpty({ message: 'Vui lòng nhập mã giảm giá' })
+  @IsString()
+  couponCode: string;
+
+  @ApiProperty({
+    description: 'Giỏ hàng cần tính thử; bỏ trống sẽ dùng giỏ hàng đã lưu',
+    type: [QuoteItemDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => QuoteItemDto)
+  cartItems?: QuoteItemDto[];
+}
@@ -19,6 +19,8 @@ import { CreateCategoryDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
 import { ApiTags, ApiOperation } from '@nestjs/swagger';
 import { CurrentSiteCode } from '../common/decorators/site-code.decorator';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
 
 @ApiTags('category')
 @Controller('category')
@@ -39,7 +41,9 @@ export class CategoryController {
 
   // Public: client chỉ lấy danh mục đang hiển thị (is_active=true).
   @Get('client/list')
-  @ApiOperation({ summary: 'Danh mục đang hiển thị cho client (lọc is_active)' })
+  @ApiOperation({
+    summary: 'Danh mục đang hiển thị cho client (lọc is_active)',
+  })
   async getActiveCategoriesForClient(@CurrentSiteCode() siteCode: string) {
     return this.categoryService.getActiveCategoriesForClient(siteCode);
   }
@@ -78,6 +82,7 @@ export class CategoryController {
   }
 
   @Post()
+  @RequirePermissions(Permission.CATEGORY_MANAGE)
   @ApiOperation({ summary: 'Create category' })
   @UsePipes(new ValidationPipe({ transform: true }))
   create(
@@ -88,6 +93,7 @@ export class CategoryController {
   }
 
   @Patch(':id')
+  @RequirePermissions(Permission.CATEGORY_MANAGE)
   @ApiOperation({ summary: 'Update category' })
   @UsePipes(new ValidationPipe({ transform: true }))
   update(
@@ -99,12 +105,14 @@ export class CategoryController {
   }
 
   @Delete(':id')
+  @RequirePermissions(Permission.CATEGORY_MANAGE)
   @ApiOperation({ summary: 'Delete category' })
   remove(@Param('id') id: string, @CurrentSiteCode() siteCode: string) {
     return this.categoryService.remove(+id, siteCode);
   }
 
   @Post('recalculate-hierarchy')
+  @RequirePermissions(Permission.CATEGORY_MANAGE)
   @ApiOperation({ summary: 'Recalculate category hierarchy' })
   async recalculateHierarchy(@CurrentSiteCode() siteCode: string) {
     await this.categoryService.recalculateHierarchy(siteCode);
@@ -112,6 +120,7 @@ export class CategoryController {
   }
 
   @Post('generate-slugs')
+  @RequirePermissions(Permission.CATEGORY_MANAGE)
   @ApiOperation({ summary: 'Generate slugs for existing categories' })
   async generateCategorySlugs(@CurrentSiteCode() siteCode: string) {
     return this.categoryService.generateSlugsForExistingCategories(siteCode);
@@ -151,6 +160,7 @@ export class CategoryController {
   }
 
   @Post('reassign-products')
+  @RequirePermissions(Permission.CATEGORY_MANAGE)
   @ApiOperation({ summary: 'Reassign products from one category to another' })
   async reassignProducts(
     @Body() body: { fromCategoryId: number; toCategoryId?: number | null },
@@ -167,6 +177,7 @@ export class CategoryController {
 
   // Gộp danh mục: reassign sản phẩm + re-parent con + ẩn danh mục cũ + tạo redirect prefix.
   @Post('merge')
+  @RequirePermissions(Permission.CATEGORY_MANAGE)
   @ApiOperation({
     summary: 'Gộp danh mục nguồn vào danh mục đích (1 thao tác)',
   })
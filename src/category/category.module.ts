@@ -2,11 +2,11 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { CategoryService } from './category.service';
 import { CategoryController } from './category.controller';
-import { KiotVietService } from '../product/kiotviet.service';
 import { RevalidateService } from '../common/revalidate.service';
 import { HttpModule } from '@nestjs/axios';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { AuthModule } from 'src/auth/auth.module';
+import { InventoryModule } from '../inventory/inventory.module';
 
 @Module({
   imports: [
@@ -17,9 +17,10 @@ import { AuthModule } from 'src/auth/auth.module';
     ConfigModule,
     PrismaModule,
     AuthModule,
+    InventoryModule,
   ],
   controllers: [CategoryController],
-  providers: [CategoryService, KiotVietService, RevalidateService],
+  providers: [CategoryService, RevalidateService],
   exports: [CategoryService],
 })
 export class CategoryModule {}
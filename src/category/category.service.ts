@@ -8,6 +8,7 @@ import { PrismaService } from '../prisma/prisma.service';
 import { CreateCategoryDto, CategoryTreeDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
 import { RevalidateService } from '../common/revalidate.service';
+import { SuggestService } from '../search/suggest.service';
 
 @Injectable()
 export class CategoryService {
@@ -16,6 +17,7 @@ export class CategoryService {
   constructor(
     private prisma: PrismaService,
     private readonly revalidate: RevalidateService,
+    private readonly suggestService: SuggestService,
   ) {}
 
   async create(
@@ -60,6 +62,7 @@ export class CategoryService {
 
       await this.recalculateHierarchy(siteCode);
       this.revalidate.revalidateSite(siteCode);
+      this.suggestService.markDirty(siteCode);
 
       return {
         success: true,
@@ -299,6 +302,7 @@ export class CategoryService {
 
       await this.recalculateHierarchy(siteCode);
       this.revalidate.revalidateSite(siteCode);
+      this.suggestService.markDirty(siteCode);
 
       return {
         success: true,
@@ -508,6 +512,7 @@ export class CategoryService {
     await this.recalculateHierarchy(siteCode);
 
     this.revalidate.revalidateSite(siteCode);
+    this.suggestService.markDirty(siteCode);
 
     return { success: true, message: 'Category deleted successfully' };
   }
@@ -716,6 +721,7 @@ export class CategoryService {
 
     // Xả cache client ngay (redirect + danh mục + sản phẩm vừa đổi).
     this.revalidate.revalidateSite(siteCode);
+    this.suggestService.markDirty(siteCode);
 
     return {
       success: true,
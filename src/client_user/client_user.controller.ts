@@ -9,7 +9,12 @@ import {
   UseGuards,
   Query,
   Delete,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { memoryStorage } from 'multer';
 import { ClientUserService } from './client_user.service';
 import { ClientJwtAuthGuard } from '../auth/client-auth/client-jwt-auth.guard';
 import { CurrentClient } from '../auth/client-auth/current-client.decorator';
@@ -26,6 +31,9 @@ import { ApiKeyAuthGuard } from '../auth/api-key-auth.guard';
 import { ConfirmOrderReceivedDto } from './dto/confirm-order-received.dto';
 import { Post } from '@nestjs/common';
 import { Public } from '../auth/public.decorator';
+import { OrderReturnService } from '../order-return/order-return.service';
+import { CreateReturnDto } from '../order-return/dto/create-return.dto';
+import { ImageService } from '../file/image.service';
 
 @ApiTags('client-user')
 @Controller('client-user')
@@ -35,6 +43,8 @@ export class ClientUserController {
   constructor(
     private readonly clientUserService: ClientUserService,
     private configService: ConfigService,
+    private readonly orderReturnService: OrderReturnService,
+    private readonly imageService: ImageService,
   ) {}
 
   @ApiOperation({ summary: 'Get orders of current client user' })
@@ -60,6 +70,12 @@ export class ClientUserController {
     );
   }
 
+  @Get('returns')
+  @ApiOperation({ summary: 'Get return requests of current client user' })
+  async getMyReturns(@CurrentClient() client: any) {
+    return this.orderReturnService.getMyReturns(client.clientId);
+  }
+
   @Patch('profile')
   @ApiOperation({ summary: 'Update current client user profile' })
   @ApiResponse({
@@ -111,6 +127,49 @@ export class ClientUserController {
     return this.clientUserService.cancelOrder(client.clientId, orderId);
   }
 
+  @Post('returns/images')
+  @ApiOperation({ summary: 'Upload a photo for a return request' })
+  @UseInterceptors(
+    FileInterceptor('file', {
+      // Không tin tên file / Content-Type của khách: ImageService kiểm tra
+      // magic bytes, tự đặt phần mở rộng và mã hoá lại ảnh.
+      storage: memoryStorage(),
+      limits: {
+        fileSize: 5 * 1024 * 1024, // 5MB
+      },
+    }),
+  )
+  async uploadReturnImage(@UploadedFile() file: Express.Multer.File) {
+    if (!file) {
+      throw new BadRequestException('Vui lòng chọn file ảnh');
+    }
+
+    return {
+      success: true,
+      url: await this.imageService.saveUpload(file.buffer),
+    };
+  }
+
+  @Post('orders/:orderId/returns')
+  @ApiOperation({ summary: 'Request a return for a delivered order' })
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async createReturn(
+    @CurrentClient() client: any,
+    @Param('orderId') orderId: string,
+    @Body() dto: CreateReturnDto,
+  ) {
+    return this.orderReturnService.createReturn(client.clientId, orderId, dto);
+  }
+
+  @Get('orders/:orderId/timeline')
+  @ApiOperation({ summary: 'Get status history of an order' })
+  async getOrderTimeline(
+    @CurrentClient() client: any,
+    @Param('orderId') orderId: string,
+  ) {
+    return this.clientUserService.getOrderTimeline(client.clientId, orderId);
+  }
+
   @Get('orders/:orderId')
   @ApiOperation({ summary: 'Get order details' })
   async getOrderDetail(
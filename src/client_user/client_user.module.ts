@@ -6,11 +6,15 @@ import { ClientUserController } from './client_user.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { ProductModule } from '../product/product.module';
 import { KiotVietService } from '../kiotviet/kiotviet.service';
+import { OrderReturnModule } from '../order-return/order-return.module';
+import { FileModule } from '../file/file.module';
 
 @Module({
   imports: [
     PrismaModule,
     ProductModule,
+    OrderReturnModule,
+    FileModule,
     HttpModule.register({
       timeout: 60000,
       maxRedirects: 10,
@@ -9,12 +9,17 @@ import { PrismaService } from '../prisma/prisma.service';
 import * as bcrypt from 'bcrypt';
 import { ClientUserType } from './dto/create-client-user.dto';
 import { KiotVietService } from '../kiotviet/kiotviet.service';
+import { OrderReturnService } from '../order-return/order-return.service';
+import { OrderStateService } from '../order/order-state.service';
+import { OrderStatus, canTransition } from '../order/order-status';
 
 @Injectable()
 export class ClientUserService {
   constructor(
     private prisma: PrismaService,
     private kiotVietService: KiotVietService,
+    private orderReturnService: OrderReturnService,
+    private orderStateService: OrderStateService,
   ) {}
 
   async findAll() {
@@ -210,6 +215,20 @@ export class ClientUserService {
               },
             },
           },
+          returns: {
+            select: {
+              id: true,
+              status: true,
+              reason: true,
+              refund_amount: true,
+              created_date: true,
+            },
+            orderBy: { id: 'desc' },
+          },
+          refunds: {
+            where: { status: 'COMPLETED' },
+            select: { amount: true },
+          },
         },
         orderBy: { created_date: 'desc' },
         skip,
@@ -239,6 +258,17 @@ export class ClientUserService {
         paymentStatus: order.payment_status,
         paymentMethod: order.payment_method,
         createdDate: order.created_date,
+        refundedAmount: order.refunds.reduce(
+          (sum, refund) => sum + Number(refund.amount),
+          0,
+        ),
+        returns: order.returns.map((r) => ({
+          id: Number(r.id),
+          status: r.status,
+          reason: r.reason,
+          refundAmount: Number(r.refund_amount),
+          createdDate: r.created_date,
+        })),
         items: order.orders.map((item) => {
           return {
             productId: item.product_id?.toString(),
@@ -249,9 +279,7 @@ export class ClientUserService {
               item.product?.kiotviet_name ||
               'Product',
             quantity: item.quantity,
-            price: item.product?.kiotviet_price
-              ? Number(item.product.kiotviet_price)
-              : 0,
+            price: Number(item.unit_price ?? item.product?.kiotviet_price ?? 0),
             image: item.product?.images_url
               ? typeof item.product.images_url === 'string'
                 ? (() => {
@@ -305,10 +333,13 @@ export class ClientUserService {
       throw new NotFoundException('Order not found');
     }
 
+    const timeline = await this.orderStateService.getTimeline(order.id);
+
     return {
       id: order.id.toString(),
       orderCode: order.order_kiot_code || `DH${order.id}`,
       status: order.status,
+      timeline,
       paymentStatus: order.payment_status,
       paymentMethod: order.payment_method,
       total: Number(order.total),
@@ -331,7 +362,7 @@ export class ClientUserService {
         productNameEn:
           item.product?.title_en || item.product?.kiotviet_name || 'Product',
         quantity: item.quantity,
-        price: Number(item.product?.kiotviet_price || 0),
+        price: Number(item.unit_price ?? item.product?.kiotviet_price ?? 0),
         image: item.product?.images_url
           ? typeof item.product.images_url === 'string'
             ? (() => {
@@ -354,6 +385,23 @@ export class ClientUserService {
     };
   }
 
+  async getOrderTimeline(clientId: number, orderId: string) {
+    const order = await this.prisma.product_order.findFirst({
+      where: { id: BigInt(orderId), client_user_id: clientId },
+      select: { id: true, status: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    return {
+      orderId: order.id.toString(),
+      status: order.status,
+      timeline: await this.orderStateService.getTimeline(order.id),
+    };
+  }
+
   async cancelOrder(clientId: number, orderId: string) {
     const order = await this.prisma.product_order.findFirst({
       where: {
@@ -364,6 +412,8 @@ export class ClientUserService {
         id: true,
         order_kiot_id: true,
         status: true,
+        payment_method: true,
+        paid_amount: true,
       },
     });
 
@@ -371,27 +421,47 @@ export class ClientUserService {
       throw new NotFoundException('Order not found');
     }
 
-    if (order.status === 'CANCELLED') {
+    if (order.status === OrderStatus.CANCELLED) {
       throw new BadRequestException('Order already cancelled');
     }
 
+    if (!canTransition(order.status, OrderStatus.CANCELLED)) {
+      throw new BadRequestException(
+        `Order in status ${order.status} cannot be cancelled`,
+      );
+    }
+
     if (!order.order_kiot_id) {
       throw new BadRequestException('No KiotViet order to cancel');
     }
 
-    await this.kiotVietService.deleteOrder(order.order_kiot_id);
-
-    await this.prisma.product_order.update({
-      where: { id: order.id },
-      data: {
-        status: 'CANCELLED',
-        updated_date: new Date(),
-      },
+    // Chuyển trạng thái (có kiểm tra) trước, xoá đơn KiotViet sau: bước
+    // chuyển bị từ chối thì đơn bên KiotViet vẫn còn nguyên. Xoá lỗi không
+    // chặn hoàn tiền, chỉ báo lại để admin xoá tay.
+    await this.orderStateService.transition(order.id, OrderStatus.CANCELLED, {
+      actor: `CLIENT:${clientId}`,
+      source: 'CLIENT',
     });
 
+    const kiotVietDeleted = await this.kiotVietService
+      .deleteOrder(order.order_kiot_id)
+      .then(() => true)
+      .catch(() => false);
+
+    // Đơn chuyển khoản đã nhận tiền: tạo khoản hoàn chờ admin chuyển trả.
+    const refund =
+      order.payment_method === 'sepay_bank' && Number(order.paid_amount) > 0
+        ? await this.orderReturnService.createCancellationRefund(
+            order.id,
+            `CLIENT:${clientId}`,
+          )
+        : null;
+
     return {
       success: true,
       message: 'Order cancelled successfully',
+      refundAmount: refund ? Number(refund.amount) : 0,
+      kiotVietDeleted,
     };
   }
 
@@ -420,21 +490,22 @@ export class ClientUserService {
       );
     }
 
-    if (order.status === 'CUSTOMER_RECEIVED') {
+    if (order.status === OrderStatus.CUSTOMER_RECEIVED) {
       throw new BadRequestException('Order already confirmed as received');
     }
 
-    if (order.status === 'CANCELLED') {
+    if (order.status === OrderStatus.CANCELLED) {
       throw new BadRequestException('Cannot confirm cancelled order');
     }
 
-    await this.prisma.product_order.update({
-      where: { id: order.id },
-      data: {
-        status: 'CUSTOMER_RECEIVED',
-        updated_date: new Date(),
+    await this.orderStateService.transition(
+      order.id,
+      OrderStatus.CUSTOMER_RECEIVED,
+      {
+        actor: `INVOICE:${invoiceCode}`,
+        source: 'EXTERNAL_API',
       },
-    });
+    );
 
     await this.prisma.payment_logs.create({
       data: {
@@ -459,7 +530,7 @@ export class ClientUserService {
       orderCode: order.order_kiot_code,
       invoiceCode,
       invoiceId: invoice.id,
-      status: 'CUSTOMER_RECEIVED',
+      status: OrderStatus.CUSTOMER_RECEIVED,
     };
   }
 }
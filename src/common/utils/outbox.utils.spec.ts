@@ -0,0 +1,105 @@
+import { Logger } from '@nestjs/common';
+import {
+  claimOutboxRow,
+  outboxBackoffMinutes,
+  outboxFailure,
+  OutboxRunner,
+} from './outbox.utils';
+
+describe('outbox utils', () => {
+  describe('outboxBackoffMinutes', () => {
+    it('doubles per attempt and caps at 6 hours', () => {
+      expect([1, 2, 3, 4].map(outboxBackoffMinutes)).toEqual([2, 4, 8, 16]);
+      expect(outboxBackoffMinutes(9)).toBe(360);
+      expect(outboxBackoffMinutes(20)).toBe(360);
+    });
+  });
+
+  describe('outboxFailure', () => {
+    const now = Date.parse('2024-01-01T00:00:00.000Z');
+
+    it('schedules a retry while attempts remain', () => {
+      const { dead, data } = outboxFailure(3, 8, new Error('SMTP down'), now);
+
+      expect(dead).toBe(false);
+      expect(data.status).toBe('PENDING');
+      expect(data.attempts).toBe(3);
+      expect(data.last_error).toBe('SMTP down');
+      expect(data.next_attempt_at.getTime()).toBe(now + 8 * 60 * 1000);
+    });
+
+    it('moves the row to DEAD on the last attempt', () => {
+      const { dead, data } = outboxFailure(8, 8, 'HTTP 500', now);
+
+      expect(dead).toBe(true);
+      expect(data.status).toBe('DEAD');
+      expect(data.last_error).toBe('HTTP 500');
+    });
+
+    it('truncates long errors', () => {
+      const { data } = outboxFailure(1, 8, 'x'.repeat(5000), now);
+      expect(data.last_error).toHaveLength(2000);
+    });
+  });
+
+  describe('claimOutboxRow', () => {
+    it('only claims due PENDING rows', async () => {
+      const delegate = {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      };
+
+      await expect(
+        claimOutboxRow(delegate, BigInt(7), { status: 'SENDING' }),
+      ).resolves.toBe(true);
+
+      const { where, data } = delegate.updateMany.mock.calls[0][0];
+      expect(where.id).toBe(BigInt(7));
+      expect(where.status).toBe('PENDING');
+      expect(where.next_attempt_at.lte).toBeInstanceOf(Date);
+      expect(data.status).toBe('SENDING');
+    });
+
+    it('reports rows already taken by another process', async () => {
+      const delegate = {
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      };
+
+      await expect(
+        claimOutboxRow(delegate, BigInt(7), { status: 'SENDING' }),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('OutboxRunner', () => {
+    beforeAll(() => {
+      jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    });
+
+    it('skips a run while the previous one is still going', async () => {
+      const runner = new OutboxRunner(new Logger('test'));
+      let release: () => void = () => undefined;
+      const task = jest.fn(
+        () => new Promise<void>((resolve) => (release = resolve)),
+      );
+
+      const first = runner.run('job', task);
+      await runner.run('job', task);
+      expect(task).toHaveBeenCalledTimes(1);
+
+      release();
+      await first;
+      await runner.run('job', () => Promise.resolve());
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('logs failures and runs again next time', async () => {
+      const runner = new OutboxRunner(new Logger('test'));
+
+      await runner.run('job', () => Promise.reject(new Error('boom')));
+
+      const task = jest.fn(() => Promise.resolve());
+      await runner.run('job', task);
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { Logger } from '@nestjs/common';
+
+// Dùng chung cho các bảng outbox (email_outbox, kiotviet_order_job,
+// webhook_delivery): cùng cột status / attempts / max_attempts /
+// next_attempt_at / last_error / updated_date.
+
+const MAX_BACKOFF_MINUTES = 360;
+
+// Backoff 2, 4, 8... phút theo số lần đã thử, tối đa 6 tiếng.
+export function outboxBackoffMinutes(attempts: number): number {
+  return Math.min(Math.pow(2, attempts), MAX_BACKOFF_MINUTES);
+}
+
+// Dữ liệu cập nhật sau một lần thử lỗi: hết lượt thì DEAD, không thì hẹn lại.
+export function outboxFailure(
+  attempts: number,
+  maxAttempts: number,
+  error: any,
+  now: number = Date.now(),
+) {
+  const dead = attempts >= maxAttempts;
+
+  return {
+    dead,
+    data: {
+      status: dead ? 'DEAD' : 'PENDING',
+      attempts,
+      last_error: String(error?.message ?? error).slice(0, 2000),
+      next_attempt_at: new Date(
+        now + outboxBackoffMinutes(attempts) * 60 * 1000,
+      ),
+      updated_date: new Date(now),
+    },
+  };
+}
+
+// Giành một dòng PENDING đã đến hạn để chỉ một tiến trình xử lý nó.
+export async function claimOutboxRow(
+  delegate: any,
+  id: bigint,
+  data: Record<string, any>,
+): Promise<boolean> {
+  const { count } = await delegate.updateMany({
+    where: { id, status: 'PENDING', next_attempt_at: { lte: new Date() } },
+    data: { ...data, updated_date: new Date() },
+  });
+  return count > 0;
+}
+
+// Dòng kẹt ở trạng thái đang xử lý quá lâu coi như tiến trình đã chết giữa
+// chừng: trả về PENDING để lượt sau thử lại.
+export async function releaseStaleOutboxRows(
+  delegate: any,
+  status: string,
+  timeoutMinutes: number,
+  data: Record<string, any> = {},
+): Promise<number> {
+  const { count } = await delegate.updateMany({
+    where: {
+      status,
+      updated_date: { lt: new Date(Date.now() - timeoutMinutes * 60 * 1000) },
+    },
+    data: { ...data, status: 'PENDING', updated_date: new Date() },
+  });
+  return count;
+}
+
+// Cờ chạy của job định kỳ: bỏ qua lượt mới khi lượt trước chưa xong.
+export class OutboxRunner {
+  private running = false;
+
+  constructor(private readonly logger: Logger) {}
+
+  async run(label: string, task: () => Promise<unknown>) {
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      await task();
+    } catch (error) {
+      this.logger.error(`${label} failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -1,28 +1,15 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { HttpService } from '@nestjs/axios';
-import { ConfigService } from '@nestjs/config';
+import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateContactDto } from './dto/create-contact.dto';
-import { firstValueFrom } from 'rxjs';
-import * as jwt from 'jsonwebtoken';
+import { WebhookDispatcherService } from '../webhook-subscription/webhook-dispatcher.service';
+import { WebhookEvent } from '../webhook-subscription/webhook-events';
 
 @Injectable()
 export class ContactService {
-  private readonly logger = new Logger(ContactService.name);
-  private readonly webhookUrl: string;
-  private readonly webhookSecret: string;
-
   constructor(
     private prisma: PrismaService,
-    private httpService: HttpService,
-    private configService: ConfigService,
-  ) {
-    this.webhookUrl = this.configService.get<string>('N8N_WEBHOOK_URL', '');
-    this.webhookSecret = this.configService.get<string>(
-      'N8N_WEBHOOK_SECRET',
-      '',
-    );
-  }
+    private webhookDispatcher: WebhookDispatcherService,
+  ) {}
 
   async submit(dto: CreateContactDto, siteCode: string = 'lermao') {
     const record = await this.prisma.contact_inquiry.create({
@@ -36,17 +23,22 @@ export class ContactService {
       },
     });
 
-    const sent = await this.sendWebhook({
-      id: Number(record.id),
-      fullName: dto.receiverFullName,
-      email: dto.email,
-      phoneNumber: dto.phoneNumber,
-      note: dto.note,
-      siteCode: siteCode,
-      createdAt: record.created_date.toISOString(),
-    });
+    // webhook_sent: đã xếp hàng gửi cho ít nhất một webhook đăng ký.
+    const queued = await this.webhookDispatcher.emit(
+      WebhookEvent.CONTACT_CREATED,
+      {
+        id: Number(record.id),
+        fullName: dto.receiverFullName,
+        email: dto.email,
+        phoneNumber: dto.phoneNumber,
+        note: dto.note,
+        siteCode: siteCode,
+        createdAt: record.created_date.toISOString(),
+      },
+      { siteCode },
+    );
 
-    if (sent) {
+    if (queued > 0) {
       await this.prisma.contact_inquiry.update({
         where: { id: record.id },
         data: { webhook_sent: true },
@@ -55,39 +47,4 @@ export class ContactService {
 
     return { success: true, message: 'Gửi thông tin thành công' };
   }
-
-  private async sendWebhook(payload: {
-    id: number;
-    fullName: string;
-    email: string;
-    phoneNumber: string;
-    note: string;
-    siteCode: string;
-    createdAt: string;
-  }): Promise<boolean> {
-    try {
-      const token = jwt.sign(
-        { sub: 'hisweetie-backend', iat: Math.floor(Date.now() / 1000) },
-        this.webhookSecret,
-        { algorithm: 'HS256', expiresIn: '60s' },
-      );
-
-      await firstValueFrom(
-        this.httpService.post(this.webhookUrl, payload, {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      );
-
-      this.logger.log(`Webhook sent for contact #${payload.id}`);
-      return true;
-    } catch (error) {
-      this.logger.error(
-        `Webhook failed for contact #${payload.id}: ${error.message}`,
-      );
-      return false;
-    }
-  }
 }
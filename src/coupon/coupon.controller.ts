@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UsePipes,
+  ValidationPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { CouponService } from './coupon.service';
+import { CreateCouponDto } from './dto/create-coupon.dto';
+import { UpdateCouponDto } from './dto/update-coupon.dto';
+import { CurrentSiteCode } from '../common/decorators/site-code.decorator';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
+
+@ApiTags('coupon')
+@ApiBearerAuth()
+@Controller('coupon')
+@RequirePermissions(Permission.PROMOTION_MANAGE)
+export class CouponController {
+  constructor(private readonly couponService: CouponService) {}
+
+  @Get('paginated')
+  @ApiOperation({ summary: 'Danh sách mã giảm giá (CMS, phân trang)' })
+  getAllPaginated(
+    @Query('pageSize') pageSize: string = '10',
+    @Query('pageNumber') pageNumber: string = '0',
+    @Query('keyword') keyword?: string,
+    @Query('is_active') isActive?: string,
+    @CurrentSiteCode() siteCode?: string,
+  ) {
+    return this.couponService.getAll(
+      {
+        pageSize: parseInt(pageSize),
+        pageNumber: parseInt(pageNumber),
+        keyword,
+        isActive: isActive !== undefined ? isActive === 'true' : undefined,
+      },
+      siteCode,
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Chi tiết mã giảm giá' })
+  findOne(@Param('id') id: string, @CurrentSiteCode() siteCode: string) {
+    const numId = +id;
+    if (isNaN(numId)) {
+      throw new BadRequestException(`ID mã giảm giá không hợp lệ: "${id}"`);
+    }
+    return this.couponService.findOne(numId, siteCode);
+  }
+
+  @Post()
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Tạo mã giảm giá' })
+  create(@Body() dto: CreateCouponDto, @CurrentSiteCode() siteCode: string) {
+    return this.couponService.create(dto, siteCode);
+  }
+
+  @Patch(':id')
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Cập nhật mã giảm giá' })
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateCouponDto,
+    @CurrentSiteCode() siteCode: string,
+  ) {
+    return this.couponService.update(+id, dto, siteCode);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Xóa mã giảm giá' })
+  remove(@Param('id') id: string, @CurrentSiteCode() siteCode: string) {
+    return this.couponService.remove(+id, siteCode);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CouponService } from './coupon.service';
+import { CouponController } from './coupon.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [CouponController],
+  providers: [CouponService],
+  exports: [CouponService],
+})
+export class CouponModule {}
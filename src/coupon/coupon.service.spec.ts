@@ -0,0 +1,160 @@
+import { BadRequestException } from '@nestjs/common';
+import { calculateCouponDiscount, CouponService } from './coupon.service';
+import { CouponType } from './dto/create-coupon.dto';
+
+describe('calculateCouponDiscount', () => {
+  it('applies a percentage and floors the result', () => {
+    expect(
+      calculateCouponDiscount(
+        { type: CouponType.PERCENTAGE, value: 15, max_discount: null },
+        99999,
+        30000,
+      ),
+    ).toBe(14999);
+  });
+
+  it('caps a percentage at max_discount', () => {
+    expect(
+      calculateCouponDiscount(
+        {
+          type: CouponType.PERCENTAGE,
+          value: 50,
+          max_discount: BigInt(100000),
+        },
+        1000000,
+        0,
+      ),
+    ).toBe(100000);
+  });
+
+  it('never discounts more than the subtotal for a fixed amount', () => {
+    expect(
+      calculateCouponDiscount(
+        { type: CouponType.FIXED_AMOUNT, value: 200000, max_discount: null },
+        150000,
+        30000,
+      ),
+    ).toBe(150000);
+  });
+
+  it('returns the waived shipping fee for free shipping', () => {
+    expect(
+      calculateCouponDiscount(
+        { type: CouponType.FREE_SHIPPING, value: 0, max_discount: null },
+        150000,
+        30000,
+      ),
+    ).toBe(30000);
+  });
+});
+
+describe('CouponService.redeem', () => {
+  const applied = {
+    id: 1,
+    code: 'SALE',
+    name: 'Sale',
+    type: CouponType.FIXED_AMOUNT,
+    freeShipping: false,
+    discount: 10000,
+  };
+  let client: any;
+  let service: CouponService;
+
+  beforeEach(() => {
+    client = {
+      coupon: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: BigInt(1),
+          code: 'SALE',
+          usage_limit: 5,
+          used_count: 4,
+          usage_limit_per_customer: null,
+        }),
+        updateMany: jest.fn(),
+        update: jest.fn(),
+      },
+      coupon_redemption: { create: jest.fn(), count: jest.fn() },
+      coupon_customer_usage: {
+        findUnique: jest.fn(),
+        createMany: jest.fn(),
+        updateMany: jest.fn(),
+      },
+    };
+    service = new CouponService(client);
+  });
+
+  it('takes a slot with a conditional increment', async () => {
+    client.coupon.updateMany.mockResolvedValue({ count: 1 });
+
+    await service.redeem(applied, BigInt(9), { phone: '0900' }, client);
+
+    expect(client.coupon.updateMany).toHaveBeenCalledWith({
+      where: { id: BigInt(1), used_count: { lt: 5 } },
+      data: { used_count: { increment: 1 } },
+    });
+    expect(client.coupon_redemption.create).toHaveBeenCalled();
+  });
+
+  it('rejects when a concurrent order took the last slot', async () => {
+    client.coupon.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.redeem(applied, BigInt(9), { phone: '0900' }, client),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(client.coupon_redemption.create).not.toHaveBeenCalled();
+  });
+
+  describe('per-customer limit', () => {
+    beforeEach(() => {
+      client.coupon.findUnique.mockResolvedValue({
+        id: BigInt(1),
+        code: 'SALE',
+        usage_limit: null,
+        used_count: 0,
+        usage_limit_per_customer: 1,
+      });
+    });
+
+    it('counts +84, 84 and 0 phone forms as one customer', async () => {
+      client.coupon_customer_usage.findUnique.mockResolvedValue(null);
+      client.coupon_redemption.count.mockResolvedValue(0);
+      client.coupon_customer_usage.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.redeem(
+        applied,
+        BigInt(9),
+        { phone: '+84 901 234 567' },
+        client,
+      );
+
+      expect(client.coupon_redemption.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          phone: { in: ['0901234567', '84901234567', '+84901234567'] },
+        }),
+      });
+      expect(client.coupon_customer_usage.updateMany).toHaveBeenCalledWith({
+        where: {
+          coupon_id: BigInt(1),
+          customer_key: 'phone:0901234567',
+          used_count: { lt: 1 },
+        },
+        data: expect.objectContaining({ used_count: { increment: 1 } }),
+      });
+      expect(client.coupon_redemption.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ phone: '0901234567' }),
+      });
+    });
+
+    it('rejects when a parallel order used the last slot', async () => {
+      client.coupon_customer_usage.findUnique.mockResolvedValue({
+        id: BigInt(3),
+      });
+      client.coupon_customer_usage.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.redeem(applied, BigInt(9), { phone: '0901234567' }, client),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(client.coupon_redemption.create).not.toHaveBeenCalled();
+    });
+  });
+});
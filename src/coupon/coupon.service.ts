@@ -0,0 +1,524 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateCouponDto, CouponType } from './dto/create-coupon.dto';
+import { UpdateCouponDto } from './dto/update-coupon.dto';
+import { AppliedCoupon } from '../pricing/interfaces/pricing.interface';
+import { normalizePhone, phoneVariants } from '../utils/helper';
+
+interface CouponCustomer {
+  clientUserId?: number | null;
+  phone?: string | null;
+}
+
+// Các định danh của khách dùng cho giới hạn lượt/khách. Số điện thoại được
+// chuẩn hoá (+84 / 84 / 0 là một); lượt cũ có thể còn lưu số chưa chuẩn hoá.
+function customerIdentities(customer: CouponCustomer) {
+  const identities: Array<{ key: string; where: any }> = [];
+
+  if (customer.clientUserId) {
+    identities.push({
+      key: `user:${customer.clientUserId}`,
+      where: { client_user_id: customer.clientUserId },
+    });
+  }
+
+  const phone = customer.phone ? normalizePhone(customer.phone) : '';
+  if (phone) {
+    identities.push({
+      key: `phone:${phone}`,
+      where: { phone: { in: phoneVariants(phone) } },
+    });
+  }
+
+  return identities;
+}
+
+interface CouponRule {
+  type: string;
+  value: number;
+  max_discount: bigint | number | null;
+}
+
+// Số tiền giảm theo loại mã; FREE_SHIPPING trả về phí ship được miễn.
+export function calculateCouponDiscount(
+  coupon: CouponRule,
+  subtotal: number,
+  shipping: number,
+): number {
+  switch (coupon.type) {
+    case CouponType.PERCENTAGE: {
+      const discount = Math.floor((subtotal * coupon.value) / 100);
+      return coupon.max_discount !== null
+        ? Math.min(discount, Number(coupon.max_discount))
+        : discount;
+    }
+    case CouponType.FIXED_AMOUNT:
+      return Math.min(coupon.value, subtotal);
+    case CouponType.FREE_SHIPPING:
+      return shipping;
+    default:
+      return 0;
+  }
+}
+
+interface CouponContext {
+  siteCode: string;
+  subtotal: number;
+  shipping: number;
+  clientUserId?: number | null;
+  phone?: string | null;
+}
+
+@Injectable()
+export class CouponService {
+  private readonly logger = new Logger(CouponService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  private serialize(coupon: any) {
+    return {
+      id: Number(coupon.id),
+      code: coupon.code,
+      name: coupon.name,
+      description: coupon.description,
+      type: coupon.type,
+      value: coupon.value,
+      max_discount:
+        coupon.max_discount !== null ? Number(coupon.max_discount) : null,
+      min_order_value: Number(coupon.min_order_value),
+      usage_limit: coupon.usage_limit,
+      usage_limit_per_customer: coupon.usage_limit_per_customer,
+      used_count: coupon.used_count,
+      starts_at: coupon.starts_at,
+      ends_at: coupon.ends_at,
+      is_active: coupon.is_active,
+      site_code: coupon.site_code,
+      created_date: coupon.created_date,
+      updated_date: coupon.updated_date,
+    };
+  }
+
+  private normalizeCode(code: string): string {
+    return typeof code === 'string' ? code.trim().toUpperCase() : code;
+  }
+
+  private assertValidRule(data: {
+    type: string;
+    value: number;
+    starts_at: Date | null;
+    ends_at: Date | null;
+  }) {
+    if (data.type === CouponType.PERCENTAGE) {
+      if (data.value < 1 || data.value > 100) {
+        throw new BadRequestException('Phần trăm giảm phải từ 1 đến 100');
+      }
+    } else if (data.type === CouponType.FIXED_AMOUNT) {
+      if (data.value <= 0) {
+        throw new BadRequestException('Số tiền giảm phải lớn hơn 0');
+      }
+    }
+
+    if (data.starts_at && data.ends_at && data.starts_at >= data.ends_at) {
+      throw new BadRequestException(
+        'Thời gian kết thúc phải sau thời gian bắt đầu',
+      );
+    }
+  }
+
+  async create(dto: CreateCouponDto, siteCode: string = 'dieptra') {
+    const code = this.normalizeCode(dto.code);
+
+    const existing = await this.prisma.coupon.findFirst({
+      where: { site_code: siteCode, code },
+    });
+    if (existing) {
+      throw new BadRequestException(
+        `Mã "${code}" đã tồn tại cho site "${siteCode}"`,
+      );
+    }
+
+    const data = {
+      code,
+      name: dto.name,
+      description: dto.description ?? null,
+      type: dto.type,
+      value: dto.type === CouponType.FREE_SHIPPING ? 0 : (dto.value ?? 0),
+      max_discount: dto.max_discount ?? null,
+      min_order_value: dto.min_order_value ?? 0,
+      usage_limit: dto.usage_limit ?? null,
+      usage_limit_per_customer: dto.usage_limit_per_customer ?? null,
+      starts_at: dto.starts_at ? new Date(dto.starts_at) : null,
+      ends_at: dto.ends_at ? new Date(dto.ends_at) : null,
+      is_active: dto.is_active ?? true,
+      site_code: siteCode,
+    };
+    this.assertValidRule(data);
+
+    const coupon = await this.prisma.coupon.create({ data });
+
+    return {
+      success: true,
+      data: this.serialize(coupon),
+      message: 'Tạo mã giảm giá thành công',
+    };
+  }
+
+  async getAll(
+    params: {
+      pageSize: number;
+      pageNumber: number;
+      keyword?: string;
+      isActive?: boolean;
+    },
+    siteCode: string = 'dieptra',
+  ) {
+    const { pageSize = 10, pageNumber = 0, keyword, isActive } = params;
+
+    const where: any = { site_code: siteCode };
+    if (keyword) {
+      where.OR = [
+        { code: { contains: keyword } },
+        { name: { contains: keyword } },
+      ];
+    }
+    if (isActive !== undefined) where.is_active = isActive;
+
+    const [total, coupons] = await Promise.all([
+      this.prisma.coupon.count({ where }),
+      this.prisma.coupon.findMany({
+        where,
+        orderBy: [{ id: 'desc' }],
+        skip: pageNumber * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      content: coupons.map((c) => this.serialize(c)),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      size: pageSize,
+      number: pageNumber,
+    };
+  }
+
+  private async findForSite(id: number, siteCode: string) {
+    const coupon = await this.prisma.coupon.findUnique({
+      where: { id: BigInt(id) },
+      include: { _count: { select: { redemptions: true } } },
+    });
+
+    if (!coupon) {
+      throw new NotFoundException(`Mã giảm giá với ID ${id} không tồn tại`);
+    }
+
+    if (coupon.site_code !== siteCode) {
+      throw new BadRequestException('Mã giảm giá không thuộc site này');
+    }
+
+    return coupon;
+  }
+
+  async findOne(id: number, siteCode: string = 'dieptra') {
+    const coupon = await this.findForSite(id, siteCode);
+    return { success: true, data: this.serialize(coupon) };
+  }
+
+  async update(id: number, dto: UpdateCouponDto, siteCode: string = 'dieptra') {
+    const current = await this.findForSite(id, siteCode);
+
+    const code =
+      dto.code !== undefined ? this.normalizeCode(dto.code) : current.code;
+
+    if (code !== current.code) {
+      const dup = await this.prisma.coupon.findFirst({
+        where: { site_code: siteCode, code, NOT: { id: BigInt(id) } },
+      });
+      if (dup) {
+        throw new BadRequestException(
+          `Mã "${code}" đã tồn tại cho site "${siteCode}"`,
+        );
+      }
+    }
+
+    const type = dto.type ?? current.type;
+    const data = {
+      code,
+      name: dto.name ?? current.name,
+      description:
+        dto.description !== undefined ? dto.description : current.description,
+      type,
+      value:
+        type === CouponType.FREE_SHIPPING ? 0 : (dto.value ?? current.value),
+      max_discount:
+        dto.max_discount !== undefined
+          ? dto.max_discount
+          : current.max_discount,
+      min_order_value: dto.min_order_value ?? current.min_order_value,
+      usage_limit:
+        dto.usage_limit !== undefined ? dto.usage_limit : current.usage_limit,
+      usage_limit_per_customer:
+        dto.usage_limit_per_customer !== undefined
+          ? dto.usage_limit_per_customer
+          : current.usage_limit_per_customer,
+      starts_at:
+        dto.starts_at !== undefined
+          ? dto.starts_at
+            ? new Date(dto.starts_at)
+            : null
+          : current.starts_at,
+      ends_at:
+        dto.ends_at !== undefined
+          ? dto.ends_at
+            ? new Date(dto.ends_at)
+            : null
+          : current.ends_at,
+      is_active: dto.is_active ?? current.is_active,
+      updated_date: new Date(),
+    };
+    this.assertValidRule(data);
+
+    const coupon = await this.prisma.coupon.update({
+      where: { id: BigInt(id) },
+      data,
+    });
+
+    return {
+      success: true,
+      data: this.serialize(coupon),
+      message: 'Cập nhật mã giảm giá thành công',
+    };
+  }
+
+  async remove(id: number, siteCode: string = 'dieptra') {
+    const current = await this.findForSite(id, siteCode);
+
+    // Giữ lịch sử đơn đã dùng mã: chỉ cho tắt, không cho xoá.
+    if (current._count.redemptions > 0) {
+      throw new BadRequestException(
+        'Mã giảm giá đã được sử dụng, hãy tắt mã thay vì xoá',
+      );
+    }
+
+    await this.prisma.coupon.delete({ where: { id: BigInt(id) } });
+
+    return { success: true, message: 'Xóa mã giảm giá thành công' };
+  }
+
+  // Tính số tiền giảm cho giỏ hàng; mã không hợp lệ thì báo lỗi rõ lý do.
+  async evaluate(code: string, ctx: CouponContext): Promise<AppliedCoupon> {
+    const normalized = this.normalizeCode(code);
+
+    const coupon = await this.prisma.coupon.findFirst({
+      where: { site_code: ctx.siteCode, code: normalized },
+    });
+
+    if (!coupon || !coupon.is_active) {
+      throw new BadRequestException(
+        `Mã giảm giá "${normalized}" không tồn tại hoặc đã bị tắt`,
+      );
+    }
+
+    const now = new Date();
+    if (coupon.starts_at && coupon.starts_at > now) {
+      throw new BadRequestException(
+        `Mã giảm giá "${normalized}" chưa đến thời gian áp dụng`,
+      );
+    }
+    if (coupon.ends_at && coupon.ends_at < now) {
+      throw new BadRequestException(`Mã giảm giá "${normalized}" đã hết hạn`);
+    }
+
+    const minOrderValue = Number(coupon.min_order_value);
+    if (ctx.subtotal < minOrderValue) {
+      throw new BadRequestException(
+        `Đơn hàng tối thiểu ${minOrderValue} để dùng mã "${normalized}"`,
+      );
+    }
+
+    await this.assertUsageAvailable(coupon, ctx);
+
+    return {
+      id: Number(coupon.id),
+      code: coupon.code,
+      name: coupon.name,
+      type: coupon.type,
+      freeShipping: coupon.type === CouponType.FREE_SHIPPING,
+      discount: calculateCouponDiscount(coupon, ctx.subtotal, ctx.shipping),
+    };
+  }
+
+  // Ghi nhận lượt dùng khi tạo đơn; gọi trong cùng transaction với product_order.
+  async redeem(
+    applied: AppliedCoupon,
+    orderId: bigint,
+    customer: CouponCustomer,
+    client: any = this.prisma,
+  ) {
+    const coupon = await client.coupon.findUnique({
+      where: { id: BigInt(applied.id) },
+    });
+    if (!coupon) {
+      throw new BadRequestException(
+        `Mã giảm giá "${applied.code}" không tồn tại`,
+      );
+    }
+
+    if (coupon.usage_limit_per_customer !== null) {
+      await this.claimCustomerUsage(coupon, customer, client);
+    }
+
+    // Tăng có điều kiện thay vì đếm rồi ghi: hai đơn cùng lúc không thể
+    // cùng lấy lượt cuối.
+    if (coupon.usage_limit !== null) {
+      const { count } = await client.coupon.updateMany({
+        where: { id: coupon.id, used_count: { lt: coupon.usage_limit } },
+        data: { used_count: { increment: 1 } },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          `Mã giảm giá "${coupon.code}" đã hết lượt sử dụng`,
+        );
+      }
+    } else {
+      await client.coupon.update({
+        where: { id: coupon.id },
+        data: { used_count: { increment: 1 } },
+      });
+    }
+
+    await client.coupon_redemption.create({
+      data: {
+        coupon_id: coupon.id,
+        order_id: orderId,
+        client_user_id: customer.clientUserId ?? null,
+        phone: customer.phone ? normalizePhone(customer.phone) : null,
+        discount_amount: BigInt(applied.discount),
+      },
+    });
+
+    this.logger.log(
+      `Coupon ${coupon.code} redeemed for order ${orderId} (-${applied.discount})`,
+    );
+  }
+
+  // Đơn huỷ trả lại lượt dùng mã (CANCELLED là trạng thái cuối nên chỉ chạy một lần).
+  async releaseForOrder(orderId: bigint, client: any = this.prisma) {
+    await client.coupon.updateMany({
+      where: {
+        redemptions: { some: { order_id: orderId } },
+        used_count: { gt: 0 },
+      },
+      data: { used_count: { decrement: 1 } },
+    });
+
+    const redemptions = await client.coupon_redemption.findMany({
+      where: { order_id: orderId },
+      select: { coupon_id: true, client_user_id: true, phone: true },
+    });
+    for (const redemption of redemptions) {
+      const keys = customerIdentities({
+        clientUserId: redemption.client_user_id,
+        phone: redemption.phone,
+      }).map((identity) => identity.key);
+      if (keys.length === 0) continue;
+
+      await client.coupon_customer_usage.updateMany({
+        where: {
+          coupon_id: redemption.coupon_id,
+          customer_key: { in: keys },
+          used_count: { gt: 0 },
+        },
+        data: { used_count: { decrement: 1 }, updated_date: new Date() },
+      });
+    }
+  }
+
+  // Giới hạn lượt/khách: mỗi định danh một dòng đếm, tăng có điều kiện như
+  // used_count nên các đơn song song của cùng khách không cùng lọt qua.
+  private async claimCustomerUsage(
+    coupon: any,
+    customer: CouponCustomer,
+    client: any,
+  ) {
+    for (const identity of customerIdentities(customer)) {
+      const key = { coupon_id: coupon.id, customer_key: identity.key };
+
+      const existing = await client.coupon_customer_usage.findUnique({
+        where: { coupon_id_customer_key: key },
+        select: { id: true },
+      });
+      if (!existing) {
+        // Dòng đếm đầu tiên tính cả các lượt đã dùng trước đó.
+        const used = await this.countActiveRedemptions(
+          coupon.id,
+          identity.where,
+          client,
+        );
+        await client.coupon_customer_usage.createMany({
+          data: [{ ...key, used_count: used }],
+          skipDuplicates: true,
+        });
+      }
+
+      const { count } = await client.coupon_customer_usage.updateMany({
+        where: {
+          ...key,
+          used_count: { lt: coupon.usage_limit_per_customer },
+        },
+        data: { used_count: { increment: 1 }, updated_date: new Date() },
+      });
+      if (count === 0) {
+        throw new BadRequestException(
+          `Bạn đã dùng hết lượt cho mã giảm giá "${coupon.code}"`,
+        );
+      }
+    }
+  }
+
+  // Đơn đã huỷ không tính vào giới hạn lượt dùng.
+  private countActiveRedemptions(couponId: bigint, where: any, client: any) {
+    return client.coupon_redemption.count({
+      where: {
+        ...where,
+        coupon_id: couponId,
+        product_order: { status: { not: 'CANCELLED' } },
+      },
+    });
+  }
+
+  // Kiểm tra trước khi báo giá; lượt dùng thật được giữ trong redeem().
+  private async assertUsageAvailable(
+    coupon: any,
+    customer: CouponCustomer,
+    client: any = this.prisma,
+  ) {
+    if (coupon.usage_limit !== null) {
+      if (coupon.used_count >= coupon.usage_limit) {
+        throw new BadRequestException(
+          `Mã giảm giá "${coupon.code}" đã hết lượt sử dụng`,
+        );
+      }
+    }
+
+    if (coupon.usage_limit_per_customer !== null) {
+      for (const identity of customerIdentities(customer)) {
+        const usedByCustomer = await this.countActiveRedemptions(
+          coupon.id,
+          identity.where,
+          client,
+        );
+        if (usedByCustomer >= coupon.usage_limit_per_customer) {
+          throw new BadRequestException(
+            `Bạn đã dùng hết lượt cho mã giảm giá "${coupon.code}"`,
+          );
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsOptional,
+  IsString,
+  IsInt,
+  IsBoolean,
+  IsIn,
+  IsDateString,
+  IsNotEmpty,
+  Length,
+  Matches,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export enum CouponType {
+  PERCENTAGE = 'PERCENTAGE',
+  FIXED_AMOUNT = 'FIXED_AMOUNT',
+  FREE_SHIPPING = 'FREE_SHIPPING',
+}
+
+export class CreateCouponDto {
+  @ApiProperty({
+    description: 'Mã giảm giá (không dấu, viết liền)',
+    example: 'SALE10',
+  })
+  @IsNotEmpty({ message: 'Mã giảm giá không được để trống' })
+  @IsString()
+  @Length(3, 50, { message: 'Mã giảm giá phải từ 3-50 ký tự' })
+  @Matches(/^[A-Za-z0-9_-]+$/, {
+    message: 'Mã giảm giá chỉ gồm chữ, số, "-" và "_"',
+  })
+  code: string;
+
+  @ApiProperty({
+    description: 'Tên chương trình',
+    example: 'Giảm 10% đơn đầu tiên',
+  })
+  @IsNotEmpty({ message: 'Tên chương trình không được để trống' })
+  @IsString()
+  @Length(1, 255)
+  name: string;
+
+  @ApiProperty({ description: 'Mô tả', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ description: 'Loại giảm giá', enum: CouponType })
+  @IsIn(Object.values(CouponType), {
+    message: 'type chỉ nhận PERCENTAGE, FIXED_AMOUNT hoặc FREE_SHIPPING',
+  })
+  type: CouponType;
+
+  @ApiProperty({
+    description: 'Giá trị: % với PERCENTAGE, số tiền với FIXED_AMOUNT',
+    required: false,
+    example: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  value?: number;
+
+  @ApiProperty({ description: 'Giảm tối đa (cho PERCENTAGE)', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  max_discount?: number;
+
+  @ApiProperty({ description: 'Giá trị đơn tối thiểu', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  min_order_value?: number;
+
+  @ApiProperty({ description: 'Tổng số lượt dùng tối đa', required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  usage_limit?: number;
+
+  @ApiProperty({
+    description: 'Số lượt dùng tối đa mỗi khách',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  usage_limit_per_customer?: number;
+
+  @ApiProperty({ description: 'Bắt đầu hiệu lực', required: false })
+  @IsOptional()
+  @IsDateString()
+  starts_at?: string;
+
+  @ApiProperty({ description: 'Hết hiệu lực', required: false })
+  @IsOptional()
+  @IsDateString()
+  ends_at?: string;
+
+  @ApiProperty({ description: 'Bật/tắt mã', required: false, example: true })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => {
+    if (value === 'true' || value === true || value === 1) return true;
+    if (value === 'false' || value === false || value === 0) return false;
+    return value;
+  })
+  is_active?: boolean;
+}
@@ -6,26 +6,21 @@ import {
   UseInterceptors,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { FileService } from './file.service';
-import { diskStorage } from 'multer';
-import { extname } from 'path';
+import { memoryStorage } from 'multer';
+import { ImageService } from './image.service';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
 
 @Controller('file')
 export class FileController {
-  constructor(private readonly fileService: FileService) {}
+  constructor(private readonly imageService: ImageService) {}
 
   @Post('upload')
+  @RequirePermissions(Permission.FILE_UPLOAD)
   @UseInterceptors(
     FileInterceptor('file', {
-      storage: diskStorage({
-        destination: './public/img',
-        filename: (req, file, callback) => {
-          const uniqueSuffix =
-            Date.now() + '-' + Math.round(Math.random() * 1e9);
-          const ext = extname(file.originalname);
-          callback(null, `${uniqueSuffix}${ext}`);
-        },
-      }),
+      // Giữ trong bộ nhớ để kiểm tra magic bytes và xử lý qua ImageService.
+      storage: memoryStorage(),
       limits: {
         fileSize: 5 * 1024 * 1024, // 5MB
       },
@@ -36,6 +31,6 @@ export class FileController {
       return null;
     }
 
-    return await this.fileService.saveFile(file);
+    return await this.imageService.saveUpload(file.buffer);
   }
 }
@@ -2,10 +2,13 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { FileService } from './file.service';
 import { FileController } from './file.controller';
+import { ImageService } from './image.service';
+import { PrismaModule } from '../prisma/prisma.module';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, PrismaModule],
   controllers: [FileController],
-  providers: [FileService],
+  providers: [FileService, ImageService],
+  exports: [FileService, ImageService],
 })
 export class FileModule {}
@@ -13,6 +13,11 @@ export class FileService {
     return `${cleanBaseUrl}/public/img/${file.filename}`;
   }
 
+  // Đường dẫn tương đối (/public/...) -> URL tuyệt đối.
+  publicUrl(path: string): string {
+    return `${this.getBaseUrl().replace(/\/$/, '')}${path}`;
+  }
+
   private getBaseUrl(): string {
     const explicitBaseUrl = this.configService.get<string>('BASE_URL');
     if (explicitBaseUrl) {
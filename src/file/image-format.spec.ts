@@ -0,0 +1,34 @@
+import { detectImageFormat } from './image-format';
+
+describe('detectImageFormat', () => {
+  const pad = (header: number[] | string) =>
+    Buffer.concat([
+      typeof header === 'string'
+        ? Buffer.from(header, 'ascii')
+        : Buffer.from(header),
+      Buffer.alloc(16),
+    ]);
+
+  it('recognises JPEG, PNG, WebP and GIF headers', () => {
+    expect(detectImageFormat(pad([0xff, 0xd8, 0xff, 0xe0]))).toBe('jpeg');
+    expect(
+      detectImageFormat(pad([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+    ).toBe('png');
+    expect(detectImageFormat(pad('RIFF\x00\x00\x00\x00WEBPVP8 '))).toBe('webp');
+    expect(detectImageFormat(pad('GIF87a'))).toBe('gif');
+    expect(detectImageFormat(pad('GIF89a'))).toBe('gif');
+  });
+
+  it('ignores what the file claims to be', () => {
+    expect(
+      detectImageFormat(pad('<svg xmlns="http://www.w3.org/2000/svg">')),
+    ).toBeNull();
+    expect(detectImageFormat(pad('%PDF-1.7'))).toBeNull();
+    expect(detectImageFormat(pad('RIFF\x00\x00\x00\x00WAVEfmt '))).toBeNull();
+  });
+
+  it('rejects truncated and empty buffers', () => {
+    expect(detectImageFormat(Buffer.from([0xff, 0xd8, 0xff]))).toBeNull();
+    expect(detectImageFormat(Buffer.alloc(0))).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif';
+
+// Magic bytes, không tin phần mở rộng / Content-Type.
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  if (!buffer || buffer.length < 12) return null;
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (
+    buffer
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return 'png';
+  }
+  if (
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return 'webp';
+  }
+  const gif = buffer.toString('ascii', 0, 6);
+  if (gif === 'GIF87a' || gif === 'GIF89a') return 'gif';
+
+  return null;
+}
@@ -0,0 +1,433 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import axios from 'axios';
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import { mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { FileService } from './file.service';
+import { detectImageFormat, ImageFormat } from './image-format';
+
+// Ảnh xử lý lưu tại ./public/img/media, phục vụ qua /public (main.ts).
+const MEDIA_DIR = join(process.cwd(), 'public', 'img', 'media');
+const MEDIA_PATH = '/public/img/media';
+
+const VARIANT_WIDTHS = [320, 640, 1024, 1600];
+const MAX_DOWNLOAD_BYTES = 15 * 1024 * 1024;
+const MAX_ATTEMPTS = 3;
+const MIRROR_BATCH_SIZE = 50;
+const MIRROR_SCAN_PAGE_SIZE = 200;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export enum ImageSourceType {
+  KIOTVIET = 'KIOTVIET',
+  UPLOAD = 'UPLOAD',
+}
+
+export enum ImageAssetStatus {
+  READY = 'READY',
+  FAILED = 'FAILED',
+}
+
+type ImageVariant = {
+  width: number;
+  height: number;
+  fallback: string;
+  webp: string | null;
+};
+
+// Cấu trúc dùng thẳng cho <picture>/<img srcset> ở client.
+export interface ResponsiveImage {
+  src: string;
+  width: number | null;
+  height: number | null;
+  srcset: string | null;
+  sources: Array<{ type: string; srcset: string }>;
+}
+
+/**
+ * Pipeline ảnh: kiểm tra định dạng theo magic bytes, xoay theo EXIF rồi bỏ
+ * toàn bộ metadata, sinh các cỡ 320/640/1024/1600 (không phóng to) ở định
+ * dạng gốc + WebP.
+ *
+ * Ảnh KiotViet được tải về (mirror) sau mỗi lượt sync và theo job định kỳ,
+ * khoá là hash của URL gốc; ảnh upload khoá theo hash nội dung nên upload
+ * trùng không sinh file mới. Bảng image_asset được cache trong bộ nhớ để
+ * describe() chạy đồng bộ khi dựng response sản phẩm.
+ *
+ * ENV:
+ *   IMAGE_MIRROR_ENABLED=false   // tắt job mirror ảnh KiotViet
+ */
+@Injectable()
+export class ImageService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ImageService.name);
+  private assets = new Map<string, ImageVariant[]>();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private mirroring = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private fileService: FileService,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.reloadCache().catch((error) =>
+      this.logger.warn(`Image cache load failed: ${error.message}`),
+    );
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'image-mirror' })
+  async handleScheduledMirror() {
+    if (this.configService.get('IMAGE_MIRROR_ENABLED') === 'false') {
+      return;
+    }
+
+    await this.mirrorKiotVietImages().catch((error) =>
+      this.logger.error(`Image mirror failed: ${error.message}`),
+    );
+  }
+
+  // Upload từ CMS: trả URL bản lớn nhất (định dạng gốc) như API cũ.
+  async saveUpload(buffer: Buffer): Promise<string> {
+    const format = detectImageFormat(buffer);
+    if (!format) {
+      throw new BadRequestException(
+        'File không phải ảnh hợp lệ (chỉ hỗ trợ JPEG, PNG, WebP, GIF)',
+      );
+    }
+
+    const key = this.hash(buffer);
+    let variants = this.assets.get(key);
+
+    if (!variants) {
+      const asset = await this.prisma.image_asset.findUnique({
+        where: { key },
+      });
+      variants =
+        asset?.status === ImageAssetStatus.READY
+          ? (asset.variants as unknown as ImageVariant[])
+          : await this.processAndStore(key, buffer, format, {
+              source: ImageSourceType.UPLOAD,
+            });
+      this.assets.set(key, variants);
+    }
+
+    return this.fileService.publicUrl(variants[variants.length - 1].fallback);
+  }
+
+  // Tải ảnh KiotViet chưa có bản local; mỗi lượt tối đa `limit` ảnh.
+  async mirrorKiotVietImages(limit = MIRROR_BATCH_SIZE) {
+    if (this.mirroring) return { mirrored: 0, failed: 0 };
+    this.mirroring = true;
+
+    try {
+      const pending = await this.findPendingMirrors(limit);
+
+      let mirrored = 0;
+      let failed = 0;
+      for (const [key, url] of pending) {
+        try {
+          const buffer = await this.download(url);
+          const format = detectImageFormat(buffer);
+          if (!format) throw new Error('not an image');
+
+          const variants = await this.processAndStore(key, buffer, format, {
+            source: ImageSourceType.KIOTVIET,
+            sourceUrl: url,
+          });
+          this.assets.set(key, variants);
+          mirrored++;
+        } catch (error) {
+          failed++;
+          await this.prisma.image_asset.upsert({
+            where: { key },
+            update: {
+              attempts: { increment: 1 },
+              last_error: String(error.message).slice(0, 1000),
+              updated_date: new Date(),
+            },
+            create: {
+              key,
+              source: ImageSourceType.KIOTVIET,
+              source_url: url.slice(0, 1000),
+              status: ImageAssetStatus.FAILED,
+              attempts: 1,
+              last_error: String(error.message).slice(0, 1000),
+            },
+          });
+        }
+      }
+
+      if (pending.length > 0) {
+        this.logger.log(
+          `Mirrored ${mirrored} KiotViet images (${failed} failed)`,
+        );
+      }
+
+      return { mirrored, failed };
+    } finally {
+      this.mirroring = false;
+    }
+  }
+
+  // Duyệt sản phẩm theo trang (id tăng dần) tới khi gom đủ `limit` ảnh chưa
+  // mirror, để không phải nạp toàn bộ sản phẩm / một câu IN khổng lồ.
+  private async findPendingMirrors(limit: number) {
+    const pending = new Map<string, string>();
+    let lastId = BigInt(0);
+
+    while (pending.size < limit) {
+      const products = await this.prisma.product.findMany({
+        where: {
+          id: { gt: lastId },
+          is_from_kiotviet: true,
+          archived_at: null,
+        },
+        orderBy: { id: 'asc' },
+        take: MIRROR_SCAN_PAGE_SIZE,
+        select: { id: true, kiotviet_images: true },
+      });
+      if (products.length === 0) break;
+      lastId = products[products.length - 1].id;
+
+      const urls = new Map<string, string>();
+      for (const product of products) {
+        for (const url of this.imageUrls(product.kiotviet_images)) {
+          urls.set(this.hash(url), url);
+        }
+      }
+      if (urls.size === 0) continue;
+
+      const done = await this.prisma.image_asset.findMany({
+        where: {
+          key: { in: [...urls.keys()] },
+          OR: [
+            { status: ImageAssetStatus.READY },
+            { attempts: { gte: MAX_ATTEMPTS } },
+          ],
+        },
+        select: { key: true },
+      });
+      const doneKeys = new Set(done.map((asset) => asset.key));
+
+      for (const [key, url] of urls) {
+        if (pending.size >= limit) break;
+        if (!doneKeys.has(key)) pending.set(key, url);
+      }
+    }
+
+    return [...pending.entries()];
+  }
+
+  /**
+   * Ảnh đã qua pipeline (ảnh KiotViet đã mirror hoặc ảnh upload) trả về đủ
+   * srcset; URL khác trả về nguyên trạng để client vẫn hiển thị được.
+   */
+  describe(url: string): ResponsiveImage {
+    if (Date.now() - this.loadedAt > CACHE_TTL_MS) {
+      this.reloadCache().catch((error) =>
+        this.logger.warn(`Image cache reload failed: ${error.message}`),
+      );
+    }
+
+    const variants = url ? this.assets.get(this.keyOf(url)) : undefined;
+    if (!variants?.length) {
+      return { src: url, width: null, height: null, srcset: null, sources: [] };
+    }
+
+    const largest = variants[variants.length - 1];
+    const srcset = (path: (v: ImageVariant) => string | null) =>
+      variants
+        .filter((v) => path(v))
+        .map((v) => `${this.fileService.publicUrl(path(v)!)} ${v.width}w`)
+        .join(', ');
+    const webp = srcset((v) => v.webp);
+
+    return {
+      src: this.fileService.publicUrl(largest.fallback),
+      width: largest.width,
+      height: largest.height,
+      srcset: srcset((v) => v.fallback),
+      sources: webp ? [{ type: 'image/webp', srcset: webp }] : [],
+    };
+  }
+
+  private async processAndStore(
+    key: string,
+    buffer: Buffer,
+    format: ImageFormat,
+    origin: { source: ImageSourceType; sourceUrl?: string },
+  ): Promise<ImageVariant[]> {
+    await mkdir(MEDIA_DIR, { recursive: true });
+
+    // File đã ghi của lượt này, xoá đi nếu pipeline lỗi giữa chừng.
+    const written: string[] = [];
+    try {
+      return await this.writeVariants(key, buffer, format, origin, written);
+    } catch (error) {
+      await Promise.all(
+        written.map((file) =>
+          rm(join(MEDIA_DIR, file), { force: true }).catch(() => undefined),
+        ),
+      );
+      throw error;
+    }
+  }
+
+  private async writeVariants(
+    key: string,
+    buffer: Buffer,
+    format: ImageFormat,
+    origin: { source: ImageSourceType; sourceUrl?: string },
+    written: string[],
+  ): Promise<ImageVariant[]> {
+    const variants: ImageVariant[] = [];
+    let width: number;
+    let height: number;
+
+    if (format === 'gif') {
+      // GIF (ảnh động) không resize nhưng vẫn mã hoá lại qua sharp để bỏ
+      // comment / extension block và dữ liệu gắn thêm sau ảnh; kèm bản WebP
+      // động như các định dạng khác.
+      const animated = sharp(buffer, { animated: true, failOn: 'error' });
+      const meta = await animated.metadata();
+      width = meta.width ?? 0;
+      height = meta.pageHeight ?? meta.height ?? 0;
+      const fallback = `${key}.gif`;
+      const webp = `${key}.webp`;
+      written.push(fallback, webp);
+      await animated.clone().gif().toFile(join(MEDIA_DIR, fallback));
+      await animated
+        .clone()
+        .webp({ quality: 80 })
+        .toFile(join(MEDIA_DIR, webp));
+      variants.push({
+        width,
+        height,
+        fallback: `${MEDIA_PATH}/${fallback}`,
+        webp: `${MEDIA_PATH}/${webp}`,
+      });
+    } else {
+      // Xoay theo EXIF trước; sharp không ghi metadata ra file trừ khi yêu cầu.
+      const { data: normalized, info } = await sharp(buffer, {
+        failOn: 'error',
+      })
+        .rotate()
+        .toBuffer({ resolveWithObject: true });
+      width = info.width;
+      height = info.height;
+
+      const output = format === 'png' || info.hasAlpha ? 'png' : 'jpg';
+      const widths = [
+        ...VARIANT_WIDTHS.filter((w) => w < width),
+        Math.min(width, VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]),
+      ];
+
+      for (const targetWidth of [...new Set(widths)]) {
+        const resized = sharp(normalized).resize({
+          width: targetWidth,
+          withoutEnlargement: true,
+        });
+        const fallback = `${key}-${targetWidth}.${output}`;
+        const webp = `${key}-${targetWidth}.webp`;
+        written.push(fallback, webp);
+
+        const fallbackInfo =
+          output === 'png'
+            ? await resized
+                .clone()
+                .png({ compressionLevel: 9 })
+                .toFile(join(MEDIA_DIR, fallback))
+            : await resized
+                .clone()
+                .jpeg({ quality: 82, mozjpeg: true })
+                .toFile(join(MEDIA_DIR, fallback));
+        await resized
+          .clone()
+          .webp({ quality: 80 })
+          .toFile(join(MEDIA_DIR, webp));
+
+        variants.push({
+          width: fallbackInfo.width,
+          height: fallbackInfo.height,
+          fallback: `${MEDIA_PATH}/${fallback}`,
+          webp: `${MEDIA_PATH}/${webp}`,
+        });
+      }
+    }
+
+    const data = {
+      source: origin.source,
+      source_url: origin.sourceUrl?.slice(0, 1000) ?? null,
+      status: ImageAssetStatus.READY,
+      width,
+      height,
+      format,
+      variants: variants satisfies Prisma.InputJsonValue,
+      last_error: null,
+      updated_date: new Date(),
+    };
+    await this.prisma.image_asset.upsert({
+      where: { key },
+      update: data,
+      create: { key, ...data },
+    });
+
+    return variants;
+  }
+
+  private async reloadCache(): Promise<void> {
+    if (this.loading) return this.loading;
+
+    this.loading = (async () => {
+      const rows = await this.prisma.image_asset.findMany({
+        where: { status: ImageAssetStatus.READY },
+        select: { key: true, variants: true },
+      });
+      this.assets = new Map(
+        rows.map((row) => [row.key, row.variants as unknown as ImageVariant[]]),
+      );
+      this.loadedAt = Date.now();
+    })().finally(() => {
+      this.loading = null;
+    });
+
+    return this.loading;
+  }
+
+  private async download(url: string): Promise<Buffer> {
+    const response = await axios.get(url, {
+      responseType: 'arraybuffer',
+      timeout: 20000,
+      maxContentLength: MAX_DOWNLOAD_BYTES,
+    });
+    return Buffer.from(response.data);
+  }
+
+  // Ảnh của pipeline: khoá nằm trong tên file; ảnh ngoài: hash của URL.
+  private keyOf(url: string): string {
+    const match = url.match(/\/public\/img\/media\/([a-f0-9]{20})[-.]/);
+    return match ? match[1] : this.hash(url);
+  }
+
+  private hash(input: string | Buffer): string {
+    return createHash('sha1').update(input).digest('hex').slice(0, 20);
+  }
+
+  private imageUrls(value: any): string[] {
+    if (!Array.isArray(value)) return [];
+    return value.filter(
+      (url): url is string => typeof url === 'string' && url.startsWith('http'),
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { InventoryService } from './inventory.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [ConfigModule, PrismaModule],
+  providers: [InventoryService],
+  exports: [InventoryService],
+})
+export class InventoryModule {}
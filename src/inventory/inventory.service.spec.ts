@@ -0,0 +1,136 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { availableStock, InventoryService } from './inventory.service';
+
+describe('availableStock', () => {
+  it('returns null when the branch line is missing', () => {
+    expect(availableStock(undefined)).toBeNull();
+  });
+
+  it('subtracts reserved from on hand and floors the values', () => {
+    expect(availableStock({ branchId: 1, onHand: 10.7, reserved: 3.2 })).toBe(
+      7,
+    );
+  });
+
+  it('never goes below zero', () => {
+    expect(availableStock({ branchId: 1, onHand: 2, reserved: 5 })).toBe(0);
+  });
+});
+
+describe('InventoryService.saveInventories', () => {
+  const websiteBranchId = 635934;
+  let client: any;
+  let service: InventoryService;
+
+  beforeEach(() => {
+    client = {
+      product: { update: jest.fn() },
+      product_inventory: { upsert: jest.fn() },
+    };
+    const config = {
+      get: jest.fn(() => websiteBranchId),
+    } as unknown as ConfigService;
+    service = new InventoryService(client, config);
+  });
+
+  it('stores the website branch availability', async () => {
+    await service.saveInventories(
+      BigInt(1),
+      [
+        { branchId: 1, onHand: 100 },
+        { branchId: websiteBranchId, onHand: 5, reserved: 1 },
+      ],
+      client,
+    );
+
+    expect(client.product_inventory.upsert).toHaveBeenCalledTimes(2);
+    expect(client.product.update).toHaveBeenCalledWith({
+      where: { id: BigInt(1) },
+      data: { stock_quantity: 4 },
+    });
+  });
+
+  it('writes null when the website branch is absent', async () => {
+    await service.saveInventories(
+      BigInt(1),
+      [{ branchId: 1, onHand: 100 }],
+      client,
+    );
+
+    expect(client.product.update).toHaveBeenCalledWith({
+      where: { id: BigInt(1) },
+      data: { stock_quantity: null },
+    });
+  });
+
+  it('writes null for an empty inventory list', async () => {
+    await service.saveInventories(BigInt(1), [], client);
+
+    expect(client.product.update).toHaveBeenCalledWith({
+      where: { id: BigInt(1) },
+      data: { stock_quantity: null },
+    });
+  });
+
+  it('ignores a missing inventory list', async () => {
+    await service.saveInventories(BigInt(1), undefined, client);
+
+    expect(client.product.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('InventoryService.reserveStock', () => {
+  let client: any;
+  let service: InventoryService;
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    client = {
+      product: { updateMany: jest.fn(), findUnique: jest.fn() },
+    };
+    service = new InventoryService(client, {
+      get: jest.fn(),
+    } as unknown as ConfigService);
+  });
+
+  it('decrements only when enough stock is left', async () => {
+    client.product.updateMany.mockResolvedValue({ count: 1 });
+
+    await service.reserveStock([{ productId: 7, quantity: 2 }], client);
+
+    expect(client.product.updateMany).toHaveBeenCalledWith({
+      where: { id: BigInt(7), stock_quantity: { gte: 2 } },
+      data: { stock_quantity: { decrement: 2 } },
+    });
+  });
+
+  it('rejects the order when another checkout took the last unit', async () => {
+    client.product.updateMany.mockResolvedValue({ count: 0 });
+    client.product.findUnique.mockResolvedValue({
+      title: 'Trà sữa',
+      kiotviet_name: null,
+      stock_quantity: 0,
+    });
+
+    await expect(
+      service.reserveStock([{ productId: 7, quantity: 1 }], client),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('does not block products without stock data', async () => {
+    client.product.updateMany.mockResolvedValue({ count: 0 });
+    client.product.findUnique.mockResolvedValue({
+      title: 'Dịch vụ',
+      kiotviet_name: null,
+      stock_quantity: null,
+    });
+
+    await expect(
+      service.reserveStock([{ productId: 7, quantity: 1 }], client),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,217 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+// Transaction client của prisma.$transaction; PrismaService cũng thoả kiểu
+// này nên dùng được khi gọi ngoài transaction.
+type InventoryClient = Prisma.TransactionClient;
+
+export interface KiotVietInventoryLine {
+  branchId: number;
+  branchName?: string;
+  onHand: number;
+  reserved?: number;
+}
+
+// Số có thể bán của một dòng tồn kho; không có dòng => null (chưa có dữ liệu).
+export function availableStock(
+  line: KiotVietInventoryLine | undefined,
+): number | null {
+  if (!line) return null;
+
+  return Math.max(
+    0,
+    Math.floor(Number(line.onHand) || 0) -
+      Math.floor(Number(line.reserved) || 0),
+  );
+}
+
+/**
+ * Tồn kho theo chi nhánh lấy từ KiotViet (includeInventory=true).
+ * Lưu đủ mọi chi nhánh vào product_inventory, còn product.stock_quantity
+ * là số có thể bán (onHand - reserved) của chi nhánh website, dùng để chặn
+ * thêm giỏ hàng / đặt hàng khi hết hàng.
+ *
+ * stock_quantity = null nghĩa là chưa có dữ liệu tồn kho (chưa sync,
+ * hàng dịch vụ...) => không chặn.
+ *
+ * ENV: KIOTVIET_WEBSITE_BRANCH_ID=635934
+ */
+@Injectable()
+export class InventoryService {
+  private readonly logger = new Logger(InventoryService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  get websiteBranchId(): number {
+    return Number(
+      this.configService.get('KIOTVIET_WEBSITE_BRANCH_ID') ?? 635934,
+    );
+  }
+
+  // client: truyền transaction client khi gọi trong prisma.$transaction
+  async saveInventories(
+    productId: bigint,
+    inventories: KiotVietInventoryLine[] | undefined,
+    client: InventoryClient = this.prisma,
+  ) {
+    if (!Array.isArray(inventories)) return;
+
+    await this.upsertLines(productId, inventories, client);
+
+    const websiteLine = inventories.find(
+      (line) => line?.branchId === this.websiteBranchId,
+    );
+
+    await this.setStockQuantity(productId, websiteLine, client);
+  }
+
+  // Webhook stock.update chỉ gửi các chi nhánh thay đổi: chỉ tính lại
+  // stock_quantity khi có chi nhánh website, không coi thiếu là hết hàng.
+  async savePartialInventories(
+    productId: bigint,
+    inventories: KiotVietInventoryLine[],
+    client: InventoryClient = this.prisma,
+  ) {
+    await this.upsertLines(productId, inventories, client);
+
+    const websiteLine = inventories.find(
+      (line) => line?.branchId === this.websiteBranchId,
+    );
+    if (websiteLine) {
+      await this.setStockQuantity(productId, websiteLine, client);
+    }
+  }
+
+  private async setStockQuantity(
+    productId: bigint,
+    websiteLine: KiotVietInventoryLine | undefined,
+    client: InventoryClient,
+  ) {
+    // KiotViet không trả dòng của chi nhánh website (kể cả mảng rỗng) thì
+    // coi như chưa có dữ liệu, không phải hết hàng.
+    await client.product.update({
+      where: { id: productId },
+      data: { stock_quantity: availableStock(websiteLine) },
+    });
+  }
+
+  private async upsertLines(
+    productId: bigint,
+    inventories: KiotVietInventoryLine[],
+    client: InventoryClient,
+  ) {
+    const syncedAt = new Date();
+
+    for (const line of inventories) {
+      if (!line?.branchId) continue;
+
+      const data = {
+        branch_name: line.branchName || null,
+        on_hand: Math.floor(Number(line.onHand) || 0),
+        reserved: Math.floor(Number(line.reserved) || 0),
+        synced_at: syncedAt,
+      };
+
+      await client.product_inventory.upsert({
+        where: {
+          product_id_branch_id: {
+            product_id: productId,
+            branch_id: line.branchId,
+          },
+        },
+        update: data,
+        create: { product_id: productId, branch_id: line.branchId, ...data },
+      });
+    }
+  }
+
+  async getProductInventory(productId: number) {
+    const rows = await this.prisma.product_inventory.findMany({
+      where: { product_id: BigInt(productId) },
+      orderBy: { branch_id: 'asc' },
+    });
+
+    return rows.map((row) => ({
+      branchId: row.branch_id,
+      branchName: row.branch_name,
+      onHand: row.on_hand,
+      reserved: row.reserved,
+      available: Math.max(0, row.on_hand - row.reserved),
+      isWebsiteBranch: row.branch_id === this.websiteBranchId,
+      syncedAt: row.synced_at,
+    }));
+  }
+
+  // Kiểm tra tồn kho chi nhánh website cho danh sách sản phẩm/số lượng.
+  async assertInStock(items: Array<{ productId: number; quantity: number }>) {
+    if (items.length === 0) return;
+
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: items.map((item) => BigInt(item.productId)) } },
+      select: {
+        id: true,
+        title: true,
+        kiotviet_name: true,
+        stock_quantity: true,
+      },
+    });
+
+    for (const item of items) {
+      const product = products.find((p) => Number(p.id) === item.productId);
+      if (!product || product.stock_quantity === null) continue;
+
+      const title = product.title || product.kiotviet_name || 'Sản phẩm';
+
+      if (product.stock_quantity <= 0) {
+        this.logger.warn(`Product ${item.productId} is out of stock`);
+        throw new BadRequestException(`Sản phẩm "${title}" đã hết hàng`);
+      }
+
+      if (item.quantity > product.stock_quantity) {
+        throw new BadRequestException(
+          `Sản phẩm "${title}" chỉ còn ${product.stock_quantity} sản phẩm`,
+        );
+      }
+    }
+  }
+
+  // Trừ tồn kho website trong transaction tạo đơn. Điều kiện
+  // stock_quantity >= quantity nằm trong câu update nên hai đơn đồng thời
+  // không cùng lấy được sản phẩm cuối; lượt sync KiotViet sau ghi đè bằng
+  // số thật.
+  async reserveStock(
+    items: Array<{ productId: number; quantity: number }>,
+    client: InventoryClient,
+  ) {
+    for (const item of items) {
+      const productId = BigInt(item.productId);
+      const { count } = await client.product.updateMany({
+        where: { id: productId, stock_quantity: { gte: item.quantity } },
+        data: { stock_quantity: { decrement: item.quantity } },
+      });
+      if (count > 0) continue;
+
+      const product = await client.product.findUnique({
+        where: { id: productId },
+        select: { title: true, kiotviet_name: true, stock_quantity: true },
+      });
+      // Chưa có dữ liệu tồn kho => không chặn.
+      if (!product || product.stock_quantity === null) continue;
+
+      const title = product.title || product.kiotviet_name || 'Sản phẩm';
+      this.logger.warn(
+        `Product ${item.productId} ran out of stock during checkout`,
+      );
+      throw new BadRequestException(
+        product.stock_quantity <= 0
+          ? `Sản phẩm "${title}" đã hết hàng`
+          : `Sản phẩm "${title}" chỉ còn ${product.stock_quantity} sản phẩm`,
+      );
+    }
+  }
+}
@@ -19,6 +19,8 @@ import { JobSearchDto } from './dto/job-search.dto';
 import { ApplicationSearchDto } from './dto/application-search.dto';
 import { ChangeStatusDto } from './dto/change-status.dto';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
 
 @ApiTags('job')
 @Controller('job')
@@ -40,6 +42,7 @@ export class JobpostController {
   }
 
   @Get('admin/apply/search')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @ApiOperation({ summary: 'Search for job applications' })
   @ApiResponse({
     status: 200,
@@ -51,6 +54,7 @@ export class JobpostController {
   }
 
   @Post('admin')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @ApiOperation({ summary: 'Create a new job posting' })
   @ApiResponse({
     status: 201,
@@ -71,6 +75,7 @@ export class JobpostController {
   }
 
   @Put('admin/:id')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @ApiOperation({ summary: 'Update a job posting' })
   @ApiParam({ name: 'id', description: 'Job posting ID' })
   @ApiResponse({
@@ -84,6 +89,7 @@ export class JobpostController {
   }
 
   @Post('admin/change-status/:id')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @ApiOperation({ summary: 'Change the status of a job application' })
   @ApiParam({ name: 'id', description: 'Applicant ID' })
   @ApiResponse({
@@ -100,6 +106,7 @@ export class JobpostController {
   }
 
   @Delete('recruitment/:id')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @ApiOperation({ summary: 'Delete a job posting' })
   @ApiParam({ name: 'id', description: 'Job posting ID' })
   @ApiResponse({
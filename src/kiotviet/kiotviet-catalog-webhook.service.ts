@@ -0,0 +1,379 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  InventoryService,
+  KiotVietInventoryLine,
+} from '../inventory/inventory.service';
+import { RevalidateService } from '../common/revalidate.service';
+import { convertToSlug } from '../utils/helper';
+import { ArchiveReason } from '../product/product-archive.service';
+import { KiotVietCategoryMappingService } from '../product/kiotviet-category-mapping.service';
+import {
+  KiotVietVariantInfo,
+  ProductVariantService,
+} from '../product/product-variant.service';
+import {
+  KiotVietPriceBookLine,
+  PriceBookService,
+} from '../price-book/price-book.service';
+import { SearchService } from '../search/search.service';
+import { VALID_SITE_CODES } from '../common/interceptors/site-code.interceptor';
+
+/**
+ * Cập nhật catalog theo webhook KiotViet (product.update, product.delete,
+ * category.update, category.delete, stock.update) thay vì chờ lượt sync đầy đủ.
+ * Chỉ đụng tới đúng sản phẩm/danh mục trong payload, sau đó revalidate
+ * các site bị ảnh hưởng. Payload KiotViet dùng key PascalCase.
+ */
+@Injectable()
+export class KiotVietCatalogWebhookService {
+  private readonly logger = new Logger(KiotVietCatalogWebhookService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private inventoryService: InventoryService,
+    private revalidateService: RevalidateService,
+    private categoryMappingService: KiotVietCategoryMappingService,
+    private priceBookService: PriceBookService,
+    private productVariantService: ProductVariantService,
+    private searchService: SearchService,
+  ) {}
+
+  async handleCatalogWebhook(webhookData: any) {
+    const affectedSites = new Set<string>();
+    let handled = 0;
+
+    for (const notification of webhookData?.Notifications || []) {
+      // Action dạng "product.update.<retailerId>".
+      const action = String(notification.Action || '')
+        .split('.')
+        .slice(0, 2)
+        .join('.');
+      const items: any[] = notification.Data || [];
+
+      for (const item of items) {
+        let sites: string[] = [];
+
+        switch (action) {
+          case 'product.update':
+            sites = await this.upsertProduct(item);
+            break;
+          case 'product.delete':
+            for (const id of this.removedIds(item)) {
+              sites.push(...(await this.hideProduct(id)));
+            }
+            break;
+          case 'stock.update':
+            sites = await this.updateStock(item);
+            break;
+          case 'category.update':
+            await this.upsertCategory(item);
+            sites = [...VALID_SITE_CODES];
+            break;
+          case 'category.delete':
+            for (const id of this.removedIds(item)) {
+              await this.deleteCategory(id);
+            }
+            sites = [...VALID_SITE_CODES];
+            break;
+          default:
+            this.logger.log(`ℹ️ Catalog action ${action} not handled`);
+            continue;
+        }
+
+        sites.forEach((site) => affectedSites.add(site));
+        handled++;
+      }
+    }
+
+    for (const site of affectedSites) {
+      this.revalidateService.revalidateSite(site);
+    }
+
+    return { handled, sites: [...affectedSites] };
+  }
+
+  private async upsertProduct(item: any): Promise<string[]> {
+    if (!item?.Id) return [];
+
+    const kiotvietId = BigInt(item.Id);
+    const existing = await this.prisma.product.findUnique({
+      where: { kiotviet_id: kiotvietId },
+      select: { id: true },
+    });
+
+    const categoryId = await this.resolveCategoryId(item.CategoryId);
+    const images = this.extractImages(item.Images);
+
+    const data: any = {
+      kiotviet_code: item.Code,
+      kiotviet_name: item.FullName || item.Name,
+      kiotviet_price:
+        item.BasePrice !== undefined && item.BasePrice !== null
+          ? Number(item.BasePrice)
+          : null,
+      kiotviet_type: item.Type ?? undefined,
+      kiotviet_category_id: categoryId,
+      kiotviet_category_name: item.CategoryName ?? undefined,
+      is_from_kiotviet: true,
+      kiotviet_synced_at: new Date(),
+      title: item.FullName || item.Name,
+    };
+    if (images.length > 0) data.kiotviet_images = images;
+
+    Object.keys(data).forEach((key) => {
+      if (data[key] === undefined) delete data[key];
+    });
+
+    let productId: bigint;
+    if (existing) {
+      await this.prisma.product.update({
+        where: { id: existing.id },
+        data,
+      });
+      productId = existing.id;
+    } else {
+      // Giống syncProducts: sản phẩm mới chỉ hiện trên dieptra.
+      const created = await this.prisma.product.create({
+        data: {
+          ...data,
+          kiotviet_id: kiotvietId,
+          is_visible: item.AllowsSale !== false,
+        },
+      });
+      productId = created.id;
+
+      for (const siteCode of VALID_SITE_CODES) {
+        // Upsert: webhook lặp lại hoặc full sync chạy song song có thể đã tạo.
+        await this.prisma.product_site_config.upsert({
+          where: {
+            product_id_site_code: {
+              product_id: productId,
+              site_code: siteCode,
+            },
+          },
+          update: {
+            updated_date: new Date(),
+          },
+          create: {
+            product_id: productId,
+            site_code: siteCode,
+            title: data.title || null,
+            slug: convertToSlug(data.title || '') || null,
+            is_visible:
+              siteCode === 'dieptra' ? item.AllowsSale !== false : false,
+            is_featured: false,
+            price_on: false,
+          },
+        });
+      }
+    }
+
+    if (Array.isArray(item.Inventories)) {
+      await this.inventoryService.saveInventories(
+        productId,
+        item.Inventories.map((line: any) => this.toInventoryLine(line)),
+      );
+    }
+
+    await this.categoryMappingService.assignProduct(productId, categoryId);
+
+    if (Array.isArray(item.PriceBooks)) {
+      await this.priceBookService.savePriceBooks(
+        productId,
+        item.PriceBooks.map((line: any) => this.toPriceBookLine(line)),
+      );
+    }
+
+    await this.productVariantService.saveVariantInfo(
+      productId,
+      this.toVariantInfo(item),
+    );
+    await this.searchService.reindexProducts([productId]);
+
+    this.logger.log(
+      `✅ Product ${item.Code} ${existing ? 'updated' : 'created'} from webhook`,
+    );
+
+    return this.productSites(productId);
+  }
+
+  // Không xoá bản ghi vì còn đơn hàng tham chiếu; chỉ ẩn trên mọi site.
+  private async hideProduct(kiotvietId: number): Promise<string[]> {
+    const product = await this.prisma.product.findUnique({
+      where: { kiotviet_id: BigInt(kiotvietId) },
+      select: { id: true },
+    });
+    if (!product) return [];
+
+    const sites = await this.productSites(product.id);
+
+    await this.prisma.product.update({
+      where: { id: product.id },
+      data: {
+        is_visible: false,
+        kiotviet_synced_at: new Date(),
+        archived_at: new Date(),
+        archived_reason: ArchiveReason.KIOTVIET_DELETED,
+      },
+    });
+    await this.prisma.product_site_config.updateMany({
+      where: { product_id: product.id },
+      data: { is_visible: false, updated_date: new Date() },
+    });
+    await this.searchService.reindexProducts([product.id]);
+
+    this.logger.log(`🗑️ Product KiotViet ${kiotvietId} hidden (deleted)`);
+    return sites;
+  }
+
+  private async updateStock(item: any): Promise<string[]> {
+    if (!item?.ProductId) return [];
+
+    const product = await this.prisma.product.findUnique({
+      where: { kiotviet_id: BigInt(item.ProductId) },
+      select: { id: true },
+    });
+    if (!product) return [];
+
+    await this.inventoryService.savePartialInventories(product.id, [
+      this.toInventoryLine(item),
+    ]);
+
+    return this.productSites(product.id);
+  }
+
+  // id local của kiotviet_category trùng CategoryId KiotViet (xem syncProducts).
+  private async upsertCategory(item: any) {
+    if (!item?.CategoryId) return;
+
+    const parent = item.ParentId
+      ? await this.prisma.kiotviet_category.findUnique({
+          where: { kiotVietId: item.ParentId },
+          select: { id: true },
+        })
+      : null;
+
+    const data = {
+      name: item.CategoryName || '',
+      parentId: parent?.id ?? null,
+      retailerId: item.RetailerId ?? null,
+      lastSyncedAt: new Date(),
+    };
+
+    await this.prisma.kiotviet_category.upsert({
+      where: { kiotVietId: item.CategoryId },
+      update: data,
+      create: { ...data, id: item.CategoryId, kiotVietId: item.CategoryId },
+    });
+
+    if (parent) {
+      await this.prisma.kiotviet_category.update({
+        where: { id: parent.id },
+        data: { hasChild: true },
+      });
+    }
+  }
+
+  private async deleteCategory(kiotvietId: number) {
+    const category = await this.prisma.kiotviet_category.findUnique({
+      where: { kiotVietId: kiotvietId },
+      select: { id: true },
+    });
+    if (!category) return;
+
+    await this.prisma.kiotviet_category.updateMany({
+      where: { parentId: category.id },
+      data: { parentId: null },
+    });
+    await this.prisma.product.updateMany({
+      where: { kiotviet_category_id: category.id },
+      data: { kiotviet_category_id: null },
+    });
+    await this.prisma.kiotviet_category.delete({ where: { id: category.id } });
+  }
+
+  private async resolveCategoryId(kiotCategoryId: any): Promise<number | null> {
+    if (!kiotCategoryId) return null;
+
+    const category = await this.prisma.kiotviet_category.findUnique({
+      where: { kiotVietId: Number(kiotCategoryId) },
+      select: { id: true },
+    });
+    return category?.id ?? null;
+  }
+
+  private async productSites(productId: bigint): Promise<string[]> {
+    const configs = await this.prisma.product_site_config.findMany({
+      where: { product_id: productId },
+      select: { site_code: true },
+    });
+    return configs.map((c) => c.site_code);
+  }
+
+  // product.delete / category.delete: Data là mảng id hoặc { RemoveId: [...] }.
+  private removedIds(item: any): number[] {
+    if (typeof item === 'number' || typeof item === 'string') {
+      return [Number(item)];
+    }
+    if (Array.isArray(item?.RemoveId)) return item.RemoveId.map(Number);
+    if (item?.Id) return [Number(item.Id)];
+    return [];
+  }
+
+  private extractImages(images: any): string[] {
+    if (!Array.isArray(images)) return [];
+
+    return images
+      .map((img) => (typeof img === 'string' ? img : img?.Image))
+      .filter(
+        (url): url is string =>
+          typeof url === 'string' && url.trim().startsWith('http'),
+      );
+  }
+
+  private toInventoryLine(line: any): KiotVietInventoryLine {
+    return {
+      branchId: line.BranchId,
+      branchName: line.BranchName,
+      onHand: line.OnHand,
+      reserved: line.Reserved,
+    };
+  }
+
+  private toPriceBookLine(line: any): KiotVietPriceBookLine {
+    return {
+      priceBookId: line.PriceBookId,
+      priceBookName: line.PriceBookName,
+      price: line.Price,
+      isActive: line.IsActive,
+      startDate: line.StartDate,
+      endDate: line.EndDate,
+    };
+  }
+
+  private toVariantInfo(item: any): KiotVietVariantInfo {
+    return {
+      type: item.Type ?? undefined,
+      masterProductId: item.MasterProductId,
+      masterUnitId: item.MasterUnitId,
+      unit: item.Unit,
+      conversionValue: item.ConversionValue,
+      attributes: Array.isArray(item.Attributes)
+        ? item.Attributes.map((attr: any) => ({
+            attributeName: attr.AttributeName,
+            attributeValue: attr.AttributeValue,
+          }))
+        : undefined,
+      productFormulas: Array.isArray(item.ProductFormulas)
+        ? item.ProductFormulas.map((line: any) => ({
+            materialId: line.MaterialId,
+            materialCode: line.MaterialCode,
+            materialName: line.MaterialName,
+            materialFullName: line.MaterialFullName,
+            quantity: line.Quantity,
+          }))
+        : undefined,
+    };
+  }
+}
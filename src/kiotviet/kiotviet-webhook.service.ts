@@ -0,0 +1,196 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { KiotVietService } from './kiotviet.service';
+import { KiotVietCatalogWebhookService } from './kiotviet-catalog-webhook.service';
+
+export const ORDER_WEBHOOK_TYPE = 'kiotviet.order';
+// product.update/delete, category.update/delete, stock.update
+export const CATALOG_WEBHOOK_TYPE = 'kiotviet.catalog';
+const WEBHOOK_TYPES = [ORDER_WEBHOOK_TYPE, CATALOG_WEBHOOK_TYPE];
+
+/**
+ * Lưu mọi webhook KiotViet vào webhook_log trước khi xử lý.
+ * Cặp (Id, Attempt) là unique nên cùng một lần gửi chỉ được ghi một lần;
+ * lần gửi lại (Attempt khác) của Id đã xử lý xong thì đánh dấu DUPLICATE.
+ *
+ * status: RECEIVED -> PROCESSED | DUPLICATE | FAILED
+ */
+@Injectable()
+export class KiotVietWebhookService {
+  private readonly logger = new Logger(KiotVietWebhookService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private kiotVietService: KiotVietService,
+    private catalogWebhookService: KiotVietCatalogWebhookService,
+  ) {}
+
+  async receiveWebhook(
+    webhookType: string,
+    webhookData: any,
+    headers: Record<string, any>,
+  ) {
+    const eventId = this.buildEventId(webhookData);
+    const attempt = Number(webhookData?.Attempt) || 1;
+
+    let record: any;
+    try {
+      record = await this.prisma.webhook_log.create({
+        data: {
+          webhook_type: webhookType,
+          event_id: eventId,
+          attempt,
+          payload: webhookData ?? {},
+          headers: {
+            'x-hub-signature': headers['x-hub-signature'] ?? null,
+            'user-agent': headers['user-agent'] ?? null,
+          },
+          status: 'RECEIVED',
+          processed: false,
+        },
+      });
+    } catch (error) {
+      // Cùng Id + Attempt đã được ghi (KiotViet gửi trùng).
+      if (error.code === 'P2002') {
+        this.logger.log(`Duplicate KiotViet webhook ${eventId}#${attempt}`);
+        return { success: true, duplicate: true };
+      }
+      throw error;
+    }
+
+    const alreadyProcessed = await this.prisma.webhook_log.findFirst({
+      where: {
+        webhook_type: webhookType,
+        event_id: eventId,
+        processed: true,
+        id: { not: record.id },
+      },
+      select: { id: true },
+    });
+
+    if (alreadyProcessed) {
+      await this.prisma.webhook_log.update({
+        where: { id: record.id },
+        data: {
+          status: 'DUPLICATE',
+          processed: true,
+          processed_at: new Date(),
+        },
+      });
+      return { success: true, duplicate: true };
+    }
+
+    return this.process(record);
+  }
+
+  async getWebhooks(params: {
+    pageSize: number;
+    pageNumber: number;
+    status?: string;
+    type?: string;
+  }) {
+    const { pageSize = 20, pageNumber = 0, status, type } = params;
+
+    const where: any = {
+      webhook_type:
+        type && WEBHOOK_TYPES.includes(type) ? type : { in: WEBHOOK_TYPES },
+    };
+    if (status) where.status = status;
+
+    const [total, webhooks] = await Promise.all([
+      this.prisma.webhook_log.count({ where }),
+      this.prisma.webhook_log.findMany({
+        where,
+        orderBy: [{ id: 'desc' }],
+        skip: pageNumber * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      content: webhooks.map((w) => this.serialize(w)),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      size: pageSize,
+      number: pageNumber,
+    };
+  }
+
+  async replay(id: number) {
+    const record = await this.prisma.webhook_log.findFirst({
+      where: { id, webhook_type: { in: WEBHOOK_TYPES } },
+    });
+
+    if (!record) {
+      throw new NotFoundException(`Webhook với ID ${id} không tồn tại`);
+    }
+
+    this.logger.log(`Replaying KiotViet webhook ${record.event_id}`);
+    const result = await this.process(record);
+
+    return {
+      success: result.success,
+      data: this.serialize(
+        await this.prisma.webhook_log.findUnique({ where: { id } }),
+      ),
+      message: result.success
+        ? 'Xử lý lại webhook thành công'
+        : `Xử lý lại webhook thất bại: ${result.message}`,
+    };
+  }
+
+  private async process(record: any) {
+    let result: { success: boolean; message?: string };
+    try {
+      if (record.webhook_type === CATALOG_WEBHOOK_TYPE) {
+        await this.catalogWebhookService.handleCatalogWebhook(record.payload);
+      } else {
+        await this.kiotVietService.handleOrderWebhook(record.payload);
+      }
+      result = { success: true };
+    } catch (error) {
+      this.logger.error(
+        `KiotViet webhook ${record.event_id} failed: ${error.message}`,
+      );
+      result = { success: false, message: error.message };
+    }
+
+    await this.prisma.webhook_log.update({
+      where: { id: record.id },
+      data: {
+        processed: result.success,
+        processed_at: result.success ? new Date() : null,
+        status: result.success ? 'PROCESSED' : 'FAILED',
+        error_message: result.success ? null : result.message || null,
+      },
+    });
+
+    return result;
+  }
+
+  private buildEventId(webhookData: any): string {
+    if (webhookData?.Id) return String(webhookData.Id);
+
+    // Không có Id: dùng hash payload để vẫn chống trùng.
+    return `hash_${createHash('sha256')
+      .update(JSON.stringify(webhookData ?? {}))
+      .digest('hex')
+      .slice(0, 64)}`;
+  }
+
+  private serialize(webhook: any) {
+    return {
+      id: webhook.id,
+      webhook_type: webhook.webhook_type,
+      event_id: webhook.event_id,
+      attempt: webhook.attempt,
+      status: webhook.status,
+      processed: webhook.processed,
+      processed_at: webhook.processed_at,
+      error_message: webhook.error_message,
+      payload: webhook.payload,
+      created_at: webhook.created_at,
+    };
+  }
+}
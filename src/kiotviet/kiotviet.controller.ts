@@ -1,34 +1,110 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
+  Param,
+  Query,
+  Headers,
   HttpCode,
   HttpStatus,
   Logger,
+  UseGuards,
 } from '@nestjs/common';
-import { KiotVietService } from './kiotviet.service';
+import {
+  KiotVietWebhookService,
+  ORDER_WEBHOOK_TYPE,
+  CATALOG_WEBHOOK_TYPE,
+} from './kiotviet-webhook.service';
 import { Public } from '../auth/public.decorator';
+import { KiotVietWebhookGuard } from '../auth/kiotviet-webhook.guard';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
 
 @Controller('kiotviet')
 export class KiotVietController {
   private readonly logger = new Logger(KiotVietController.name);
 
-  constructor(private readonly kiotVietService: KiotVietService) {}
+  constructor(
+    private readonly kiotVietWebhookService: KiotVietWebhookService,
+  ) {}
 
   @Public()
+  @UseGuards(KiotVietWebhookGuard)
   @Post('webhook/order-status')
   @HttpCode(HttpStatus.OK)
-  async handleOrderWebhook(@Body() webhookData: any) {
+  async handleOrderWebhook(
+    @Body() webhookData: any,
+    @Headers() headers: Record<string, any>,
+  ) {
     try {
       this.logger.log('📨 Received KiotViet webhook');
       this.logger.log(JSON.stringify(webhookData, null, 2));
 
-      await this.kiotVietService.handleOrderWebhook(webhookData);
+      const result = await this.kiotVietWebhookService.receiveWebhook(
+        ORDER_WEBHOOK_TYPE,
+        webhookData,
+        headers,
+      );
 
-      return { success: true, message: 'Webhook processed successfully' };
+      // Luôn trả 200: lỗi đã được ghi webhook_log để replay, tránh KiotViet gửi lại dồn dập.
+      return result.success
+        ? { success: true, message: 'Webhook processed successfully' }
+        : { success: true, error: 'processed_with_error' };
     } catch (error) {
       this.logger.error('❌ Webhook processing error:', error);
       return { success: true, error: 'processed_with_error' };
     }
   }
+
+  // Đăng ký cho các webhook product.update, product.delete, category.update,
+  // category.delete, stock.update trên KiotViet.
+  @Public()
+  @UseGuards(KiotVietWebhookGuard)
+  @Post('webhook/catalog')
+  @HttpCode(HttpStatus.OK)
+  async handleCatalogWebhook(
+    @Body() webhookData: any,
+    @Headers() headers: Record<string, any>,
+  ) {
+    try {
+      this.logger.log('📨 Received KiotViet catalog webhook');
+
+      const result = await this.kiotVietWebhookService.receiveWebhook(
+        CATALOG_WEBHOOK_TYPE,
+        webhookData,
+        headers,
+      );
+
+      return result.success
+        ? { success: true, message: 'Webhook processed successfully' }
+        : { success: true, error: 'processed_with_error' };
+    } catch (error) {
+      this.logger.error('❌ Catalog webhook processing error:', error);
+      return { success: true, error: 'processed_with_error' };
+    }
+  }
+
+  @Get('webhooks')
+  @RequirePermissions(Permission.ORDER_MANAGE)
+  async getWebhooks(
+    @Query('pageSize') pageSize: string = '20',
+    @Query('pageNumber') pageNumber: string = '0',
+    @Query('status') status?: string,
+    @Query('type') type?: string,
+  ) {
+    return this.kiotVietWebhookService.getWebhooks({
+      pageSize: parseInt(pageSize),
+      pageNumber: parseInt(pageNumber),
+      status,
+      type,
+    });
+  }
+
+  @Post('webhooks/:id/replay')
+  @RequirePermissions(Permission.ORDER_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async replayWebhook(@Param('id') id: string) {
+    return this.kiotVietWebhookService.replay(+id);
+  }
 }
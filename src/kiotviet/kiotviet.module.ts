@@ -3,6 +3,12 @@ import { HttpModule } from '@nestjs/axios';
 import { ConfigModule } from '@nestjs/config';
 import { KiotVietController } from './kiotviet.controller';
 import { KiotVietService } from './kiotviet.service';
+import { KiotVietWebhookService } from './kiotviet-webhook.service';
+import { KiotVietCatalogWebhookService } from './kiotviet-catalog-webhook.service';
+import { InventoryModule } from '../inventory/inventory.module';
+import { RevalidateService } from '../common/revalidate.service';
+import { KiotVietCategoryMappingService } from '../product/kiotviet-category-mapping.service';
+import { ProductVariantService } from '../product/product-variant.service';
 import { PrismaModule } from '../prisma/prisma.module';
 
 @Global()
@@ -14,9 +20,17 @@ import { PrismaModule } from '../prisma/prisma.module';
     }),
     ConfigModule,
     PrismaModule,
+    InventoryModule,
   ],
   controllers: [KiotVietController],
-  providers: [KiotVietService],
+  providers: [
+    KiotVietService,
+    KiotVietWebhookService,
+    KiotVietCatalogWebhookService,
+    KiotVietCategoryMappingService,
+    ProductVariantService,
+    RevalidateService,
+  ],
   exports: [KiotVietService],
 })
 export class KiotVietModule {}
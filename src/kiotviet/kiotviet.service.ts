@@ -2,6 +2,10 @@ import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
+import { OrderStateService } from '../order/order-state.service';
+import { OrderStatus } from '../order/order-status';
+import { WebhookDispatcherService } from '../webhook-subscription/webhook-dispatcher.service';
+import { WebhookEvent } from '../webhook-subscription/webhook-events';
 
 @Injectable()
 export class KiotVietService {
@@ -17,6 +21,8 @@ export class KiotVietService {
   constructor(
     private configService: ConfigService,
     private httpService: HttpService,
+    private orderStateService: OrderStateService,
+    private webhookDispatcher: WebhookDispatcherService,
   ) {
     const baseUrl = this.configService.get('KIOT_BASE_URL');
     if (!baseUrl) {
@@ -134,6 +140,7 @@ export class KiotVietService {
           params: {
             pageSize: 100,
             currentItem: 0,
+            contactNumber: phone,
           },
         }),
       );
@@ -385,6 +392,7 @@ export class KiotVietService {
       price: number;
     }>;
     total: number;
+    discount?: number;
     description?: string;
     deliveryInfo?: {
       receiver: string;
@@ -412,7 +420,7 @@ export class KiotVietService {
     const payload: any = {
       purchaseDate: new Date().toISOString(),
       branchId: 635934,
-      discount: 0,
+      discount: orderData.discount ?? 0,
       description: orderData.description || '',
       method: 'Transfer',
       totalPayment: orderData.total,
@@ -469,6 +477,7 @@ export class KiotVietService {
       price: number;
     }>;
     total: number;
+    discount?: number;
     description?: string;
     deliveryInfo?: {
       receiver: string;
@@ -496,7 +505,7 @@ export class KiotVietService {
     const payload: any = {
       purchaseDate: new Date().toISOString(),
       branchId: 635934,
-      discount: 0,
+      discount: orderData.discount ?? 0,
       description: orderData.description || '',
       method: 'Cash',
       total: orderData.total,
@@ -642,6 +651,97 @@ export class KiotVietService {
     }
   }
 
+  // Tìm đơn đặt hàng gần đây của khách có mô tả chứa marker, dùng để không
+  // tạo trùng khi lần đẩy trước đã tới KiotViet nhưng không nhận được kết quả.
+  async findOrderByMarker(customerId: number, marker: string): Promise<any> {
+    const token = await this.getAccessToken();
+
+    const response = await firstValueFrom(
+      this.httpService.get(`${this.baseUrl}/orders`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Retailer: this.retailerName,
+        },
+        params: {
+          customerIds: customerId,
+          pageSize: 50,
+          orderBy: 'createdDate',
+          orderDirection: 'Desc',
+        },
+      }),
+    );
+
+    const orders = response.data.data || [];
+    return (
+      orders.find((o: any) => (o.description || '').includes(marker)) || null
+    );
+  }
+
+  // Phiếu trả hàng trên KiotViet phải gắn với hoá đơn của đơn đặt hàng.
+  async createReturn(returnData: {
+    orderKiotId: number;
+    customerId?: number | null;
+    items: Array<{
+      productId: number;
+      productCode: string;
+      quantity: number;
+      price: number;
+    }>;
+    totalPayment: number;
+    description?: string;
+  }): Promise<any> {
+    const token = await this.getAccessToken();
+    const headers = {
+      Authorization: `Bearer ${token}`,
+      Retailer: this.retailerName,
+      'Content-Type': 'application/json',
+    };
+
+    const invoices = await firstValueFrom(
+      this.httpService.get(`${this.baseUrl}/invoices`, {
+        headers,
+        params: { orderIds: returnData.orderKiotId, pageSize: 1 },
+      }),
+    );
+
+    const invoice = invoices.data?.data?.[0];
+    if (!invoice) {
+      throw new Error(
+        `No invoice found for KiotViet order ${returnData.orderKiotId}`,
+      );
+    }
+
+    const payload = {
+      branchId: this.websiteBranchId,
+      invoiceId: invoice.id,
+      customerId: returnData.customerId ?? invoice.customerId,
+      returnDate: new Date().toISOString(),
+      totalPayment: returnData.totalPayment,
+      description: returnData.description || '',
+      returnDetails: returnData.items.map((item) => ({
+        productId: item.productId,
+        productCode: item.productCode,
+        quantity: item.quantity,
+        price: item.price,
+      })),
+    };
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(`${this.baseUrl}/returns`, payload, { headers }),
+      );
+
+      this.logger.log(`✅ Created return: ${response.data.code}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(
+        '❌ Create return failed:',
+        JSON.stringify(error.response?.data, null, 2),
+      );
+      throw error;
+    }
+  }
+
   async handleOrderWebhook(webhookData: any): Promise<void> {
     try {
       const { Id, Attempt, Notifications } = webhookData;
@@ -678,16 +778,16 @@ export class KiotVietService {
             `🔄 Processing order ${Code} with status ${Status} (${StatusValue})`,
           );
 
-          let newStatus: string | null = null;
+          let newStatus: OrderStatus | null = null;
 
           if (Status === 5) {
-            newStatus = 'CONFIRMED';
+            newStatus = OrderStatus.CONFIRMED;
             this.logger.log(`✅ Order ${Code} → CONFIRMED (Đã nhận đơn)`);
           } else if (Status === 3) {
-            newStatus = 'SHIPPING';
+            newStatus = OrderStatus.SHIPPING;
             this.logger.log(`🚚 Order ${Code} → SHIPPING (Đang giao hàng)`);
           } else if (Status === 4) {
-            newStatus = 'CANCELLED';
+            newStatus = OrderStatus.CANCELLED;
             this.logger.log(
               `🚚 Order ${Code} → CANCELLED (Đơn hàng đã được hủy)`,
             );
@@ -713,7 +813,11 @@ export class KiotVietService {
         }
       }
 
-      this.forwardRawWebhookData(webhookData);
+      // Chuyển tiếp payload gốc cho các webhook đã đăng ký kiotviet.order.
+      await this.webhookDispatcher.emit(
+        WebhookEvent.KIOTVIET_ORDER,
+        webhookData,
+      );
     } catch (error) {
       this.logger.error('❌ handleOrderWebhook error:', error);
       throw error;
@@ -722,7 +826,7 @@ export class KiotVietService {
 
   private async updateOrderStatusByKiotId(
     kiotOrderId: number,
-    newStatus: string,
+    newStatus: OrderStatus,
     webhookInfo: any,
   ): Promise<void> {
     const { PrismaClient } = await import('@prisma/client');
@@ -738,22 +842,17 @@ export class KiotVietService {
         return;
       }
 
-      await prisma.product_order.update({
-        where: { id: order.id },
-        data: {
-          status: newStatus,
-          updated_date: new Date(),
+      // Bước chuyển không hợp lệ (vd: đơn đã huỷ nhận lại "đang giao") thì bỏ qua.
+      const { changed } = await this.orderStateService.tryTransition(
+        order.id,
+        newStatus,
+        {
+          actor: `KIOTVIET:${webhookInfo.kiotOrderCode}`,
+          source: 'KIOTVIET_WEBHOOK',
+          client: prisma,
         },
-      });
-
-      await prisma.webhook_log.create({
-        data: {
-          webhook_type: 'kiotviet.order.update',
-          payload: webhookInfo,
-          processed: true,
-          created_at: new Date(),
-        },
-      });
+      );
+      if (!changed) return;
 
       await prisma.payment_logs.create({
         data: {
@@ -781,28 +880,6 @@ export class KiotVietService {
     }
   }
 
-  private async forwardRawWebhookData(rawWebhookData: any): Promise<void> {
-    const endpoints = [
-      'https://kiot.hisweetievietnam.com/webhook/order',
-      'https://n8n.hisweetievietnam.com/webhook/take-order-webhook-from-kiotviet',
-      'https://n8n.hisweetievietnam.com/webhook/webhook-kiotviet-website',
-    ];
-
-    await Promise.allSettled(
-      endpoints.map(async (url) => {
-        try {
-          this.logger.log(`🔄 Forwarding to ${url}...`);
-          const response = await firstValueFrom(
-            this.httpService.post(url, rawWebhookData, { timeout: 5000 }),
-          );
-          this.logger.log(`✅ Forwarded to ${url}. Status: ${response.status}`);
-        } catch (error) {
-          this.logger.error(`⚠️ Failed forward to ${url}: ${error.message}`);
-        }
-      }),
-    );
-  }
-
   async getInvoiceByCode(invoiceCode: string): Promise<any> {
     try {
       const accessToken = await this.getAccessToken();
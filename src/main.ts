@@ -7,7 +7,10 @@ import { NestExpressApplication } from '@nestjs/platform-express';
 import { SiteCodeInterceptor } from './common/interceptors/site-code.interceptor';
 
 async function bootstrap() {
-  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+  // rawBody: xác thực chữ ký webhook KiotViet trên đúng byte nhận được.
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    rawBody: true,
+  });
 
   app.use(cookieParser());
 
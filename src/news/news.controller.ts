@@ -24,6 +24,8 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { CurrentSiteCode } from '../common/decorators/site-code.decorator';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
 
 @ApiTags('news')
 @Controller('news')
@@ -115,6 +117,7 @@ export class NewsController {
   }
 
   @Post()
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @ApiOperation({ summary: 'Create news' })
   @UsePipes(new ValidationPipe({ transform: true }))
   create(
@@ -125,6 +128,7 @@ export class NewsController {
   }
 
   @Patch('toggle-visibility/:id')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @ApiOperation({ summary: 'Toggle news visibility' })
   toggleVisibility(
     @Param('id') id: string,
@@ -134,6 +138,7 @@ export class NewsController {
   }
 
   @Patch(':id')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @ApiOperation({ summary: 'Update news' })
   @UsePipes(new ValidationPipe({ transform: true }))
   update(
@@ -145,6 +150,7 @@ export class NewsController {
   }
 
   @Delete(':id')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @ApiOperation({ summary: 'Delete news' })
   remove(@Param('id') id: string, @CurrentSiteCode() siteCode?: string) {
     return this.newsService.remove(+id, siteCode);
@@ -8,30 +8,20 @@ import { CreateNewsDto } from './dto/create-news.dto';
 import { UpdateNewsDto } from './dto/update-news.dto';
 import { ClientNewsSearchDto } from './dto/client-news-search.dto';
 import { PrismaClient } from '@prisma/client';
-
-const convertToSlug = (str: string): string => {
-  if (!str) return '';
-
-  return str
-    .toLowerCase()
-    .replace(/tri ân/g, 'tri-an')
-    .replace(/à|á|ạ|ả|ã|â|ầ|ấ|ậ|ẩ|ẫ|ă|ằ|ắ|ặ|ẳ|ẵ/g, 'a')
-    .replace(/è|é|ẹ|ẻ|ẽ|ê|ề|ế|ệ|ể|ễ/g, 'e')
-    .replace(/ì|í|ị|ỉ|ĩ/g, 'i')
-    .replace(/ò|ó|ọ|ỏ|õ|ô|ồ|ố|ộ|ổ|ỗ|ơ|ờ|ớ|ợ|ở|ỡ/g, 'o')
-    .replace(/ù|ú|ụ|ủ|ũ|ư|ừ|ứ|ự|ử|ữ/g, 'u')
-    .replace(/ỳ|ý|ỵ|ỷ|ỹ/g, 'y')
-    .replace(/đ/g, 'd')
-    .replace(/[^a-z0-9\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-')
-    .replace(/^-|-$/g, '');
-};
+import { SuggestService } from '../search/suggest.service';
+import { SearchAnalyticsService } from '../search/search-analytics.service';
+import { SearchSource } from '../search/dto/search-analytics.dto';
+import { convertToSlug } from './news-slug';
 
 @Injectable()
 export class NewsService {
   prisma = new PrismaClient();
 
+  constructor(
+    private readonly suggestService: SuggestService,
+    private readonly searchAnalyticsService: SearchAnalyticsService,
+  ) {}
+
   async findIdBySlug(slug: string, type: string, siteCode: string = 'dieptra') {
     try {
       const articles = await this.prisma.news.findMany({
@@ -186,6 +176,16 @@ export class NewsService {
 
     const content = news.map(this.formatNewsForResponse);
 
+    const searchId =
+      title && pageNumber === 0
+        ? await this.searchAnalyticsService.logSearch(
+            siteCode,
+            SearchSource.NEWS,
+            title,
+            totalElements,
+          )
+        : null;
+
     return {
       content,
       totalElements,
@@ -193,6 +193,7 @@ export class NewsService {
       number: pageNumber,
       size: pageSize,
       pageable: { pageNumber, pageSize },
+      ...(searchId ? { searchId } : {}),
     };
   }
 
@@ -219,6 +220,7 @@ export class NewsService {
         data: { is_visible: newVisibility },
         select: { id: true, title: true, is_visible: true },
       });
+      this.suggestService.markDirty(siteCode);
 
       return {
         id: Number(updatedNews.id),
@@ -271,6 +273,7 @@ export class NewsService {
       };
 
       const news = await this.prisma.news.create({ data: newsData });
+      this.suggestService.markDirty(siteCode);
 
       return this.formatNewsForResponse(news);
     } catch (error) {
@@ -432,6 +435,7 @@ export class NewsService {
       where: { id: BigInt(id) },
       data: updateData,
     });
+    this.suggestService.markDirty(siteCode);
 
     return this.formatNewsForResponse(updatedNews);
   }
@@ -448,6 +452,7 @@ export class NewsService {
     }
 
     await this.prisma.news.delete({ where: { id: BigInt(id) } });
+    this.suggestService.markDirty(siteCode);
     return { message: 'News deleted successfully' };
   }
 
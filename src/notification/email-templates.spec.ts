@@ -0,0 +1,39 @@
+import { OrderEmailType, renderOrderEmail } from './email-templates';
+
+describe('renderOrderEmail', () => {
+  const data = {
+    siteCode: 'dieptra',
+    orderCode: 'DT123',
+    fullName: '<a href="http://evil">Bấm vào đây</a>',
+    total: 150000,
+    paymentMethod: 'cod',
+    address: '1 Lê Lợi <img src=x onerror=alert(1)>',
+    items: [
+      {
+        title: 'Trà <b>sữa</b>',
+        quantity: 2,
+        price: 50000,
+        imagesUrl: ['http://cdn.example.com/a.jpg" onload="x'],
+      },
+    ],
+  };
+
+  it('escapes customer input and product titles', () => {
+    const { html } = renderOrderEmail(OrderEmailType.ORDER_PLACED, data);
+
+    expect(html).not.toContain('<a href="http://evil">');
+    expect(html).toContain('&lt;a href=&quot;http://evil&quot;&gt;');
+    expect(html).not.toContain('<img src=x');
+    expect(html).toContain('Trà &lt;b&gt;sữa&lt;/b&gt;');
+    expect(html).not.toContain('" onload="x');
+  });
+
+  it('uses the site branding in the subject', () => {
+    const { subject } = renderOrderEmail(OrderEmailType.ORDER_SHIPPED, {
+      ...data,
+      siteCode: 'lermao',
+    });
+
+    expect(subject).toBe('Đơn hàng đang được giao DT123 - Gấu Lermao');
+  });
+});
@@ -0,0 +1,99 @@
+import { escapeHtml, formatCurrency, getInlineHTML } from '../utils/helper';
+
+export enum OrderEmailType {
+  ORDER_PLACED = 'ORDER_PLACED',
+  PAYMENT_RECEIVED = 'PAYMENT_RECEIVED',
+  ORDER_SHIPPED = 'ORDER_SHIPPED',
+  ORDER_DELIVERED = 'ORDER_DELIVERED',
+  ORDER_CANCELLED = 'ORDER_CANCELLED',
+}
+
+interface SiteBranding {
+  name: string;
+  website: string;
+  color: string;
+}
+
+export const SITE_BRANDING: Record<string, SiteBranding> = {
+  dieptra: {
+    name: 'Diệp Trà',
+    website: 'https://www.dieptra.com',
+    color: '#065FD4',
+  },
+  lermao: {
+    name: 'Gấu Lermao',
+    website: 'https://www.lermao.com',
+    color: '#D4600F',
+  },
+};
+
+export interface OrderEmailData {
+  siteCode: string;
+  orderCode: string;
+  fullName: string;
+  total: number;
+  paymentMethod: string | null;
+  address: string;
+  items: Array<{
+    title: string;
+    quantity: number;
+    price: number;
+    imagesUrl: string[];
+  }>;
+}
+
+const SUBJECTS: Record<OrderEmailType, string> = {
+  [OrderEmailType.ORDER_PLACED]: 'Đã nhận đơn hàng',
+  [OrderEmailType.PAYMENT_RECEIVED]: 'Đã nhận thanh toán cho đơn hàng',
+  [OrderEmailType.ORDER_SHIPPED]: 'Đơn hàng đang được giao',
+  [OrderEmailType.ORDER_DELIVERED]: 'Đơn hàng đã giao thành công',
+  [OrderEmailType.ORDER_CANCELLED]: 'Đơn hàng đã bị huỷ',
+};
+
+function introFor(type: OrderEmailType, data: OrderEmailData): string {
+  switch (type) {
+    case OrderEmailType.ORDER_PLACED:
+      return data.paymentMethod === 'sepay_bank'
+        ? 'Cảm ơn bạn đã đặt hàng. Đơn hàng sẽ được xác nhận ngay khi chúng tôi nhận được chuyển khoản.'
+        : 'Cảm ơn bạn đã đặt hàng. Chúng tôi sẽ sớm liên hệ để giao hàng.';
+    case OrderEmailType.PAYMENT_RECEIVED:
+      return 'Chúng tôi đã nhận được thanh toán và đang chuẩn bị đơn hàng của bạn.';
+    case OrderEmailType.ORDER_SHIPPED:
+      return 'Đơn hàng của bạn đã được bàn giao cho đơn vị vận chuyển.';
+    case OrderEmailType.ORDER_DELIVERED:
+      return 'Đơn hàng đã được giao thành công. Chúc bạn ngon miệng!';
+    case OrderEmailType.ORDER_CANCELLED:
+      return 'Đơn hàng của bạn đã bị huỷ. Nếu đã thanh toán, khoản tiền sẽ được hoàn lại trong thời gian sớm nhất.';
+  }
+}
+
+export function renderOrderEmail(
+  type: OrderEmailType,
+  data: OrderEmailData,
+): { subject: string; html: string } {
+  const brand = SITE_BRANDING[data.siteCode] || SITE_BRANDING.dieptra;
+  // Tên, địa chỉ đến từ form checkout của khách vãng lai: luôn escape.
+  const fullName = escapeHtml(data.fullName);
+  const orderCode = escapeHtml(data.orderCode);
+  const address = escapeHtml(data.address);
+
+  return {
+    subject: `${SUBJECTS[type]} ${data.orderCode} - ${brand.name}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: ${brand.color};">${SUBJECTS[type]}</h2>
+        <p>Xin chào <strong>${fullName}</strong>,</p>
+        <p>${introFor(type, data)}</p>
+        <p>Mã đơn hàng: <strong>${orderCode}</strong></p>
+        ${address ? `<p>Giao đến: ${address}</p>` : ''}
+        ${getInlineHTML(data.items)}
+        <p style="clear: both; padding-top: 20px; font-size: 16px;">
+          Tổng cộng: <strong style="color: ${brand.color};">${formatCurrency(data.total)}</strong>
+        </p>
+        <p>Trân trọng,<br>Đội ngũ ${brand.name}<br>
+          <a href="${brand.website}" style="color: ${brand.color};">${brand.website.replace('https://', '')}</a>
+        </p>
+      </div>
+    `,
+  };
+}
@@ -0,0 +1,44 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { NotificationService } from './notification.service';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
+
+@ApiTags('notification')
+@Controller('notification')
+export class NotificationController {
+  constructor(private readonly notificationService: NotificationService) {}
+
+  @Get('emails')
+  @RequirePermissions(Permission.ORDER_MANAGE)
+  @ApiOperation({ summary: 'Danh sách email trong hàng đợi (outbox)' })
+  async getEmails(
+    @Query('pageSize') pageSize: string = '20',
+    @Query('pageNumber') pageNumber: string = '0',
+    @Query('status') status?: string,
+    @Query('orderId') orderId?: string,
+  ) {
+    return this.notificationService.getEmails({
+      pageSize: parseInt(pageSize),
+      pageNumber: parseInt(pageNumber),
+      status,
+      orderId,
+    });
+  }
+
+  @Post('emails/:id/retry')
+  @RequirePermissions(Permission.ORDER_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Gửi lại email lỗi' })
+  async retry(@Param('id') id: string) {
+    return this.notificationService.retry(+id);
+  }
+}
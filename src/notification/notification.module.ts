@@ -0,0 +1,15 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NotificationService } from './notification.service';
+import { NotificationController } from './notification.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+// Global: thanh toán và OrderStateService đều xếp email vào outbox.
+@Global()
+@Module({
+  imports: [PrismaModule, ConfigModule],
+  controllers: [NotificationController],
+  providers: [NotificationService],
+  exports: [NotificationService],
+})
+export class NotificationModule {}
@@ -0,0 +1,299 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import * as nodemailer from 'nodemailer';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  claimOutboxRow,
+  outboxFailure,
+  OutboxRunner,
+  releaseStaleOutboxRows,
+} from '../common/utils/outbox.utils';
+import { OrderEmailType, renderOrderEmail } from './email-templates';
+
+const BATCH_SIZE = 20;
+const SENDING_TIMEOUT_MINUTES = 10;
+
+/**
+ * Email thông báo đơn hàng đi qua bảng email_outbox: nội dung được render
+ * ngay khi ghi (cùng transaction với thay đổi đơn nếu có), job gửi định kỳ
+ * và thử lại với backoff nên SMTP lỗi tạm thời không làm mất email.
+ * Mỗi loại email chỉ gửi một lần cho một đơn (dedupe_key).
+ *
+ * ENV:
+ *   NOTIFICATION_EMAIL_ENABLED=false   // tắt job gửi (email vẫn được xếp hàng)
+ *   NOTIFICATION_EMAIL_MAX_ATTEMPTS=8
+ */
+@Injectable()
+export class NotificationService {
+  private readonly logger = new Logger(NotificationService.name);
+  private transporter: nodemailer.Transporter;
+  private readonly runner = new OutboxRunner(this.logger);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: this.configService.get('MAIL_HOST'),
+      port: this.configService.get('MAIL_PORT'),
+      secure: false,
+      auth: {
+        user: this.configService.get('MAIL_USER'),
+        pass: this.configService.get('MAIL_PASSWORD'),
+      },
+    });
+  }
+
+  // Transporter SMTP dùng chung cho cả email tài khoản (ClientAuthService).
+  sendMail(options: nodemailer.SendMailOptions) {
+    return this.transporter.sendMail(options);
+  }
+
+  // Không bao giờ throw: email lỗi không được làm hỏng luồng đơn hàng.
+  async enqueueOrderEmail(
+    orderId: bigint,
+    type: OrderEmailType,
+    client: any = this.prisma,
+  ) {
+    try {
+      const dedupeKey = `${type}:${orderId}`;
+      const existing = await client.email_outbox.findUnique({
+        where: { dedupe_key: dedupeKey },
+        select: { id: true },
+      });
+      if (existing) return null;
+
+      const order = await client.product_order.findUnique({
+        where: { id: orderId },
+        include: {
+          orders: {
+            include: {
+              product: {
+                select: {
+                  title: true,
+                  kiotviet_name: true,
+                  images_url: true,
+                  kiotviet_images: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!order?.email) return null;
+
+      const { subject, html } = renderOrderEmail(type, {
+        siteCode: order.site_code,
+        orderCode: order.order_code || `#${order.id}`,
+        fullName: order.full_name || '',
+        total: Number(order.total ?? 0),
+        paymentMethod: order.payment_method,
+        address: [
+          order.detailed_address,
+          order.ward,
+          order.district,
+          order.province,
+        ]
+          .filter(Boolean)
+          .join(', '),
+        items: order.orders.map((item) => ({
+          title: item.product?.title || item.product?.kiotviet_name || '',
+          quantity: item.quantity,
+          price: Number(item.unit_price ?? 0),
+          imagesUrl: this.productImages(item.product),
+        })),
+      });
+
+      return await client.email_outbox.create({
+        data: {
+          order_id: order.id,
+          type,
+          site_code: order.site_code,
+          to_email: order.email,
+          subject,
+          html,
+          dedupe_key: dedupeKey,
+          max_attempts: Number(
+            this.configService.get('NOTIFICATION_EMAIL_MAX_ATTEMPTS') ?? 8,
+          ),
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to enqueue ${type} email for order ${orderId}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'email-outbox' })
+  async handleScheduledDelivery() {
+    if (this.configService.get('NOTIFICATION_EMAIL_ENABLED') === 'false') {
+      return;
+    }
+
+    await this.runner.run('Email outbox processing', () =>
+      this.processOutbox(),
+    );
+  }
+
+  async processOutbox() {
+    await releaseStaleOutboxRows(
+      this.prisma.email_outbox,
+      'SENDING',
+      SENDING_TIMEOUT_MINUTES,
+    );
+
+    const emails = await this.prisma.email_outbox.findMany({
+      where: { status: 'PENDING', next_attempt_at: { lte: new Date() } },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    let sent = 0;
+    for (const email of emails) {
+      if (await this.deliver(email)) sent++;
+    }
+
+    if (emails.length > 0) {
+      this.logger.log(`Email outbox: ${sent}/${emails.length} sent`);
+    }
+
+    return { processed: emails.length, sent };
+  }
+
+  private async deliver(email: any): Promise<boolean> {
+    const attempts = email.attempts + 1;
+
+    // Instance khác đã lấy email này.
+    const claimed = await claimOutboxRow(this.prisma.email_outbox, email.id, {
+      status: 'SENDING',
+    });
+    if (!claimed) return false;
+
+    try {
+      await this.sendMail({
+        from: this.configService.get('MAIL_FROM'),
+        to: email.to_email,
+        subject: email.subject,
+        html: email.html,
+      });
+
+      await this.prisma.email_outbox.update({
+        where: { id: email.id },
+        data: {
+          status: 'SENT',
+          attempts,
+          sent_at: new Date(),
+          last_error: null,
+          updated_date: new Date(),
+        },
+      });
+      return true;
+    } catch (error) {
+      const { dead, data } = outboxFailure(attempts, email.max_attempts, error);
+
+      await this.prisma.email_outbox.update({
+        where: { id: email.id },
+        data,
+      });
+
+      this.logger.warn(
+        `Email ${email.id} (${email.type}) attempt ${attempts} failed${dead ? ', giving up' : ''}: ${error.message}`,
+      );
+      return false;
+    }
+  }
+
+  async getEmails(params: {
+    pageSize?: number;
+    pageNumber?: number;
+    status?: string;
+    orderId?: string;
+  }) {
+    const pageSize = Number(params.pageSize) || 10;
+    const pageNumber = Number(params.pageNumber) || 0;
+
+    const where: any = {};
+    if (params.status) where.status = params.status;
+    if (params.orderId) where.order_id = BigInt(params.orderId);
+
+    const [total, emails] = await Promise.all([
+      this.prisma.email_outbox.count({ where }),
+      this.prisma.email_outbox.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        skip: pageNumber * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      content: emails.map((e) => ({
+        id: Number(e.id),
+        order_id: e.order_id ? e.order_id.toString() : null,
+        type: e.type,
+        site_code: e.site_code,
+        to_email: e.to_email,
+        subject: e.subject,
+        status: e.status,
+        attempts: e.attempts,
+        max_attempts: e.max_attempts,
+        next_attempt_at: e.next_attempt_at,
+        last_error: e.last_error,
+        sent_at: e.sent_at,
+        created_date: e.created_date,
+      })),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      size: pageSize,
+      number: pageNumber,
+    };
+  }
+
+  // Đưa email (thường là DEAD) về hàng đợi để gửi lại ở lượt job kế tiếp.
+  async retry(id: number) {
+    const email = await this.prisma.email_outbox.findUnique({
+      where: { id: BigInt(id) },
+    });
+
+    if (!email) {
+      throw new NotFoundException(`Email với ID ${id} không tồn tại`);
+    }
+
+    await this.prisma.email_outbox.update({
+      where: { id: email.id },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        next_attempt_at: new Date(),
+        updated_date: new Date(),
+      },
+    });
+
+    return {
+      success: true,
+      data: { id },
+      message: 'Email đã được đưa vào hàng đợi gửi lại',
+    };
+  }
+
+  private productImages(product: any): string[] {
+    if (!product) return [];
+
+    if (product.images_url) {
+      try {
+        const parsed = JSON.parse(product.images_url);
+        if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+      } catch {
+        // images_url không phải JSON
+      }
+    }
+
+    return Array.isArray(product.kiotviet_images)
+      ? product.kiotviet_images
+      : [];
+  }
+}
@@ -0,0 +1,77 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export enum ReturnReason {
+  DAMAGED = 'DAMAGED',
+  WRONG_ITEM = 'WRONG_ITEM',
+  NOT_AS_DESCRIBED = 'NOT_AS_DESCRIBED',
+  EXPIRED = 'EXPIRED',
+  CHANGED_MIND = 'CHANGED_MIND',
+  OTHER = 'OTHER',
+}
+
+export enum ReturnStatus {
+  REQUESTED = 'REQUESTED',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  REFUNDED = 'REFUNDED',
+}
+
+export class ReturnItemDto {
+  @ApiProperty({ description: 'Product ID in the order', example: 123 })
+  @Type(() => Number)
+  @IsInt({ message: 'ID sản phẩm phải là số nguyên' })
+  productId: number;
+
+  @ApiProperty({ description: 'Quantity to return', example: 1 })
+  @Type(() => Number)
+  @IsInt({ message: 'Số lượng phải là số nguyên' })
+  @Min(1, { message: 'Số lượng trả phải lớn hơn 0' })
+  quantity: number;
+}
+
+export class CreateReturnDto {
+  @ApiProperty({ enum: ReturnReason, description: 'Lý do trả hàng' })
+  @IsEnum(ReturnReason, { message: 'Lý do trả hàng không hợp lệ' })
+  reason: ReturnReason;
+
+  @ApiProperty({ description: 'Mô tả chi tiết', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000, { message: 'Mô tả tối đa 2000 ký tự' })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Ảnh minh hoạ (URL từ client-user/returns/images)',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(5, { message: 'Tối đa 5 ảnh' })
+  @IsUrl(
+    { require_tld: false },
+    { each: true, message: 'URL ảnh không hợp lệ' },
+  )
+  images?: string[];
+
+  @ApiProperty({ type: [ReturnItemDto], description: 'Sản phẩm cần trả' })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Cần chọn ít nhất một sản phẩm' })
+  @ValidateNested({ each: true })
+  @Type(() => ReturnItemDto)
+  items: ReturnItemDto[];
+}
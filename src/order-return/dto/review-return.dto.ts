@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export const REFUND_METHODS = ['BANK_TRANSFER', 'CASH', 'STORE_CREDIT'];
+
+export class ApproveReturnDto {
+  @ApiProperty({
+    description: 'Số tiền hoàn (mặc định = tổng giá trị sản phẩm trả)',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Số tiền hoàn phải là số nguyên' })
+  @Min(0, { message: 'Số tiền hoàn không được âm' })
+  refundAmount?: number;
+
+  @ApiProperty({ enum: REFUND_METHODS, required: false })
+  @IsOptional()
+  @IsIn(REFUND_METHODS, { message: 'Phương thức hoàn tiền không hợp lệ' })
+  refundMethod?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+}
+
+export class RejectReturnDto {
+  @ApiProperty({ description: 'Lý do từ chối' })
+  @IsNotEmpty({ message: 'Lý do từ chối không được để trống' })
+  @IsString()
+  @MaxLength(2000)
+  note: string;
+}
+
+export class CompleteRefundDto {
+  @ApiProperty({ description: 'Mã giao dịch chuyển khoản hoàn tiền' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reference?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+}
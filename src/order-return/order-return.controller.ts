@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { OrderReturnService } from './order-return.service';
+import {
+  ApproveReturnDto,
+  CompleteRefundDto,
+  RejectReturnDto,
+} from './dto/review-return.dto';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
+import { CurrentUser } from '../auth/user.decorator';
+
+@ApiTags('order-return')
+@ApiBearerAuth()
+@Controller('order-return')
+@RequirePermissions(Permission.ORDER_MANAGE)
+export class OrderReturnController {
+  constructor(private readonly orderReturnService: OrderReturnService) {}
+
+  @Get('paginated')
+  @ApiOperation({ summary: 'Danh sách yêu cầu trả hàng (CMS, phân trang)' })
+  getReturns(
+    @Query('pageSize') pageSize: string = '20',
+    @Query('pageNumber') pageNumber: string = '0',
+    @Query('status') status?: string,
+    @Query('orderId') orderId?: string,
+  ) {
+    return this.orderReturnService.getReturns({
+      pageSize: parseInt(pageSize),
+      pageNumber: parseInt(pageNumber),
+      status,
+      orderId,
+    });
+  }
+
+  @Get('refunds')
+  @ApiOperation({ summary: 'Danh sách khoản hoàn tiền' })
+  getRefunds(
+    @Query('pageSize') pageSize: string = '20',
+    @Query('pageNumber') pageNumber: string = '0',
+    @Query('status') status?: string,
+  ) {
+    return this.orderReturnService.getRefunds({
+      pageSize: parseInt(pageSize),
+      pageNumber: parseInt(pageNumber),
+      status,
+    });
+  }
+
+  @Post('refunds/:id/complete')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Xác nhận đã hoàn tiền cho khách' })
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  completeRefund(
+    @Param('id') id: string,
+    @Body() dto: CompleteRefundDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.orderReturnService.completeRefund(
+      +id,
+      dto,
+      `ADMIN:${user?.userId ?? 'unknown'}`,
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Chi tiết yêu cầu trả hàng' })
+  findOne(@Param('id') id: string) {
+    return this.orderReturnService.findOne(+id);
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Duyệt yêu cầu trả hàng' })
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  approve(
+    @Param('id') id: string,
+    @Body() dto: ApproveReturnDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.orderReturnService.approve(
+      +id,
+      dto,
+      `ADMIN:${user?.userId ?? 'unknown'}`,
+    );
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Từ chối yêu cầu trả hàng' })
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  reject(
+    @Param('id') id: string,
+    @Body() dto: RejectReturnDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.orderReturnService.reject(
+      +id,
+      dto,
+      `ADMIN:${user?.userId ?? 'unknown'}`,
+    );
+  }
+}
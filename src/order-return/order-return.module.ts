@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { OrderReturnService } from './order-return.service';
+import { OrderReturnController } from './order-return.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule, ConfigModule],
+  controllers: [OrderReturnController],
+  providers: [OrderReturnService],
+  exports: [OrderReturnService],
+})
+export class OrderReturnModule {}
@@ -0,0 +1,81 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { OrderReturnService } from './order-return.service';
+import { ReturnStatus } from './dto/create-return.dto';
+
+describe('OrderReturnService', () => {
+  let prisma: any;
+  let service: OrderReturnService;
+
+  beforeEach(() => {
+    prisma = {
+      product_order: { findFirst: jest.fn() },
+      order_return: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest.fn(),
+        updateMany: jest.fn(),
+        create: jest.fn(),
+      },
+      order_return_item: { findMany: jest.fn().mockResolvedValue([]) },
+      payment_logs: { create: jest.fn() },
+    };
+    const config = { get: jest.fn() };
+    service = new OrderReturnService(
+      prisma,
+      config as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  describe('createReturn', () => {
+    beforeEach(() => {
+      prisma.product_order.findFirst.mockResolvedValue({
+        id: BigInt(1),
+        status: 'COMPLETED',
+        created_date: new Date(),
+        orders: [
+          {
+            id: BigInt(10),
+            product_id: BigInt(5),
+            quantity: 2,
+            unit_price: 1000,
+          },
+        ],
+      });
+    });
+
+    it('merges duplicate items before checking the returnable quantity', async () => {
+      await expect(
+        service.createReturn(7, '1', {
+          reason: 'Hỏng',
+          items: [
+            { productId: 5, quantity: 2 },
+            { productId: 5, quantity: 2 },
+          ],
+        } as any),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.order_return.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reject', () => {
+    it('reports a conflict when another admin handled the request first', async () => {
+      prisma.order_return.findUnique.mockResolvedValue({
+        id: BigInt(3),
+        order_id: BigInt(1),
+        status: ReturnStatus.REQUESTED,
+      });
+      prisma.order_return.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.reject(3, { note: 'Không hợp lệ' } as any, 'admin'),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(prisma.order_return.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: BigInt(3), status: ReturnStatus.REQUESTED },
+        }),
+      );
+      expect(prisma.payment_logs.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,697 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { KiotVietService } from '../kiotviet/kiotviet.service';
+import { CreateReturnDto, ReturnStatus } from './dto/create-return.dto';
+import {
+  ApproveReturnDto,
+  CompleteRefundDto,
+  RejectReturnDto,
+} from './dto/review-return.dto';
+import { OrderStateService } from '../order/order-state.service';
+import { OrderStatus } from '../order/order-status';
+
+// Chỉ đơn đã giao (hoặc đang giao) mới được yêu cầu trả hàng.
+const RETURNABLE_ORDER_STATUSES: string[] = [
+  OrderStatus.SHIPPING,
+  OrderStatus.CUSTOMER_RECEIVED,
+  OrderStatus.COMPLETED,
+];
+
+/**
+ * Đổi trả & hoàn tiền.
+ *
+ * Khách gửi yêu cầu trả (lý do, ảnh, sản phẩm) -> admin duyệt/từ chối.
+ * Duyệt sẽ tạo order_refund (PENDING) và phiếu trả hàng trên KiotViet;
+ * admin xác nhận đã chuyển tiền thì refund COMPLETED và đơn được cập nhật
+ * payment_status REFUNDED / PARTIALLY_REFUNDED. Mọi bước ghi payment_logs.
+ *
+ * ENV:
+ *   ORDER_RETURN_WINDOW_DAYS=7
+ */
+@Injectable()
+export class OrderReturnService {
+  private readonly logger = new Logger(OrderReturnService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private kiotVietService: KiotVietService,
+    private orderStateService: OrderStateService,
+  ) {}
+
+  async createReturn(clientId: number, orderId: string, dto: CreateReturnDto) {
+    const order = await this.prisma.product_order.findFirst({
+      where: { id: BigInt(orderId), client_user_id: clientId },
+      include: { orders: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Không tìm thấy đơn hàng');
+    }
+
+    if (!RETURNABLE_ORDER_STATUSES.includes(order.status || '')) {
+      throw new BadRequestException(
+        'Đơn hàng ở trạng thái hiện tại không thể yêu cầu trả hàng',
+      );
+    }
+
+    const windowDays = Number(
+      this.configService.get('ORDER_RETURN_WINDOW_DAYS') ?? 7,
+    );
+    if (
+      order.created_date &&
+      Date.now() - order.created_date.getTime() >
+        windowDays * 24 * 60 * 60 * 1000
+    ) {
+      throw new BadRequestException(
+        `Đã quá ${windowDays} ngày kể từ khi đặt hàng, không thể trả hàng`,
+      );
+    }
+
+    const openReturn = await this.prisma.order_return.findFirst({
+      where: {
+        order_id: order.id,
+        status: { in: [ReturnStatus.REQUESTED, ReturnStatus.APPROVED] },
+      },
+    });
+    if (openReturn) {
+      throw new BadRequestException(
+        'Đơn hàng đang có yêu cầu trả hàng chưa xử lý xong',
+      );
+    }
+
+    const returned = await this.getReturnedQuantities(order.id);
+
+    // Gộp các dòng trùng sản phẩm trước khi so với số còn có thể trả, để
+    // không lách giới hạn bằng cách gửi cùng sản phẩm nhiều lần.
+    const quantities = new Map<number, number>();
+    for (const item of dto.items) {
+      const productId = Number(item.productId);
+      quantities.set(
+        productId,
+        (quantities.get(productId) || 0) + item.quantity,
+      );
+    }
+
+    const items = [...quantities].map(([productId, quantity]) => {
+      const line = order.orders.find((o) => Number(o.product_id) === productId);
+      if (!line) {
+        throw new BadRequestException(
+          `Sản phẩm ${productId} không có trong đơn hàng`,
+        );
+      }
+
+      const remaining =
+        (line.quantity || 0) - (returned.get(Number(line.id)) || 0);
+      if (quantity > remaining) {
+        throw new BadRequestException(
+          `Sản phẩm ${productId} chỉ còn ${remaining} có thể trả`,
+        );
+      }
+
+      return {
+        order_item_id: line.id,
+        product_id: line.product_id,
+        quantity,
+        unit_price: BigInt(Math.round(Number(line.unit_price ?? 0))),
+      };
+    });
+
+    const created = await this.prisma.order_return.create({
+      data: {
+        order_id: order.id,
+        client_user_id: clientId,
+        reason: dto.reason,
+        description: dto.description ?? null,
+        images: dto.images ?? [],
+        refund_amount: items.reduce(
+          (sum, item) => sum + item.unit_price * BigInt(item.quantity),
+          BigInt(0),
+        ),
+        items: { create: items },
+      },
+      include: { items: true },
+    });
+
+    await this.logEvent(order.id, 'RETURN_REQUESTED', {
+      returnId: Number(created.id),
+      reason: dto.reason,
+      items: dto.items,
+    });
+
+    return {
+      success: true,
+      data: this.serialize(created),
+      message: 'Gửi yêu cầu trả hàng thành công',
+    };
+  }
+
+  async getMyReturns(clientId: number) {
+    const returns = await this.prisma.order_return.findMany({
+      where: { client_user_id: clientId },
+      include: { items: true, refunds: true },
+      orderBy: { id: 'desc' },
+    });
+
+    return { success: true, data: returns.map((r) => this.serialize(r)) };
+  }
+
+  async getReturns(params: {
+    pageSize: number;
+    pageNumber: number;
+    status?: string;
+    orderId?: string;
+  }) {
+    const { pageSize = 20, pageNumber = 0, status, orderId } = params;
+
+    const where: any = {};
+    if (status) where.status = status;
+    if (orderId) where.order_id = BigInt(orderId);
+
+    const [total, returns] = await Promise.all([
+      this.prisma.order_return.count({ where }),
+      this.prisma.order_return.findMany({
+        where,
+        include: {
+          items: true,
+          refunds: true,
+          product_order: {
+            select: {
+              id: true,
+              order_code: true,
+              full_name: true,
+              phone: true,
+              total: true,
+            },
+          },
+        },
+        orderBy: [{ id: 'desc' }],
+        skip: pageNumber * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      content: returns.map((r) => this.serialize(r)),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      size: pageSize,
+      number: pageNumber,
+    };
+  }
+
+  async findOne(id: number) {
+    const found = await this.prisma.order_return.findUnique({
+      where: { id: BigInt(id) },
+      include: {
+        items: true,
+        refunds: true,
+        product_order: {
+          select: {
+            id: true,
+            order_code: true,
+            full_name: true,
+            phone: true,
+            total: true,
+          },
+        },
+      },
+    });
+
+    if (!found) {
+      throw new NotFoundException(
+        `Yêu cầu trả hàng với ID ${id} không tồn tại`,
+      );
+    }
+
+    return { success: true, data: this.serialize(found) };
+  }
+
+  async approve(id: number, dto: ApproveReturnDto, actor: string) {
+    const current = await this.prisma.order_return.findUnique({
+      where: { id: BigInt(id) },
+      include: {
+        items: { include: { order_item: { include: { product: true } } } },
+        product_order: true,
+      },
+    });
+
+    if (!current) {
+      throw new NotFoundException(
+        `Yêu cầu trả hàng với ID ${id} không tồn tại`,
+      );
+    }
+    if (current.status !== ReturnStatus.REQUESTED) {
+      throw new BadRequestException('Yêu cầu trả hàng đã được xử lý');
+    }
+
+    const order = current.product_order;
+    const refundAmount = dto.refundAmount ?? Number(current.refund_amount);
+    const refundable = await this.getRefundableAmount(order);
+
+    if (refundAmount > refundable) {
+      throw new BadRequestException(
+        `Số tiền hoàn vượt quá số tiền còn có thể hoàn (${refundable})`,
+      );
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // Điều kiện trạng thái nằm trong câu update: hai lần duyệt cùng lúc thì
+      // chỉ một lần tạo được khoản hoàn.
+      const { count } = await tx.order_return.updateMany({
+        where: { id: current.id, status: ReturnStatus.REQUESTED },
+        data: {
+          // Không phải hoàn tiền (đổi hàng...) thì kết thúc luôn.
+          status:
+            refundAmount > 0 ? ReturnStatus.APPROVED : ReturnStatus.REFUNDED,
+          refund_amount: BigInt(refundAmount),
+          admin_note: dto.note ?? null,
+          reviewed_by: actor,
+          reviewed_at: new Date(),
+          updated_date: new Date(),
+        },
+      });
+      if (count === 0) throw this.alreadyProcessed();
+
+      if (refundAmount > 0) {
+        await tx.order_refund.create({
+          data: {
+            order_id: order.id,
+            return_id: current.id,
+            amount: BigInt(refundAmount),
+            method: dto.refundMethod || 'BANK_TRANSFER',
+            reason: `Trả hàng #${current.id}`,
+            created_by: actor,
+          },
+        });
+      }
+
+      return tx.order_return.findUnique({
+        where: { id: current.id },
+        include: { items: true, refunds: true },
+      });
+    });
+
+    await this.logEvent(order.id, 'RETURN_APPROVED', {
+      returnId: id,
+      refundAmount,
+      actor,
+    });
+
+    if (refundAmount === 0) {
+      await this.syncOrderAfterRefund(order.id);
+    }
+
+    await this.pushReturnToKiotViet(current, refundAmount);
+
+    return {
+      success: true,
+      data: this.serialize(updated),
+      message: 'Duyệt yêu cầu trả hàng thành công',
+    };
+  }
+
+  async reject(id: number, dto: RejectReturnDto, actor: string) {
+    const current = await this.prisma.order_return.findUnique({
+      where: { id: BigInt(id) },
+    });
+
+    if (!current) {
+      throw new NotFoundException(
+        `Yêu cầu trả hàng với ID ${id} không tồn tại`,
+      );
+    }
+    if (current.status !== ReturnStatus.REQUESTED) {
+      throw new BadRequestException('Yêu cầu trả hàng đã được xử lý');
+    }
+
+    const { count } = await this.prisma.order_return.updateMany({
+      where: { id: current.id, status: ReturnStatus.REQUESTED },
+      data: {
+        status: ReturnStatus.REJECTED,
+        admin_note: dto.note,
+        reviewed_by: actor,
+        reviewed_at: new Date(),
+        updated_date: new Date(),
+      },
+    });
+    if (count === 0) throw this.alreadyProcessed();
+
+    const updated = await this.prisma.order_return.findUnique({
+      where: { id: current.id },
+      include: { items: true, refunds: true },
+    });
+
+    await this.logEvent(current.order_id, 'RETURN_REJECTED', {
+      returnId: id,
+      note: dto.note,
+      actor,
+    });
+
+    return {
+      success: true,
+      data: this.serialize(updated),
+      message: 'Đã từ chối yêu cầu trả hàng',
+    };
+  }
+
+  async getRefunds(params: {
+    pageSize: number;
+    pageNumber: number;
+    status?: string;
+  }) {
+    const { pageSize = 20, pageNumber = 0, status } = params;
+
+    const where: any = {};
+    if (status) where.status = status;
+
+    const [total, refunds] = await Promise.all([
+      this.prisma.order_refund.count({ where }),
+      this.prisma.order_refund.findMany({
+        where,
+        include: {
+          product_order: {
+            select: {
+              id: true,
+              order_code: true,
+              full_name: true,
+              phone: true,
+              payment_method: true,
+            },
+          },
+        },
+        orderBy: [{ id: 'desc' }],
+        skip: pageNumber * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      content: refunds.map((r) => ({
+        ...this.serializeRefund(r),
+        order: {
+          id: r.product_order.id.toString(),
+          order_code: r.product_order.order_code,
+          full_name: r.product_order.full_name,
+          phone: r.product_order.phone,
+          payment_method: r.product_order.payment_method,
+        },
+      })),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      size: pageSize,
+      number: pageNumber,
+    };
+  }
+
+  // Admin xác nhận đã chuyển tiền hoàn cho khách.
+  async completeRefund(id: number, dto: CompleteRefundDto, actor: string) {
+    const refund = await this.prisma.order_refund.findUnique({
+      where: { id: BigInt(id) },
+    });
+
+    if (!refund) {
+      throw new NotFoundException(`Khoản hoàn tiền với ID ${id} không tồn tại`);
+    }
+    if (refund.status !== 'PENDING') {
+      throw new BadRequestException('Khoản hoàn tiền đã được xử lý');
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // Chỉ một lần xác nhận chuyển được PENDING -> COMPLETED.
+      const { count } = await tx.order_refund.updateMany({
+        where: { id: refund.id, status: 'PENDING' },
+        data: {
+          status: 'COMPLETED',
+          reference: dto.reference ?? null,
+          note: dto.note ?? refund.note,
+          completed_by: actor,
+          completed_at: new Date(),
+        },
+      });
+      if (count === 0) {
+        throw new ConflictException(
+          'Khoản hoàn tiền vừa được xử lý, vui lòng tải lại',
+        );
+      }
+
+      if (refund.return_id) {
+        await tx.order_return.update({
+          where: { id: refund.return_id },
+          data: { status: ReturnStatus.REFUNDED, updated_date: new Date() },
+        });
+      }
+
+      return tx.order_refund.findUniqueOrThrow({ where: { id: refund.id } });
+    });
+
+    await this.logEvent(refund.order_id, 'REFUND_COMPLETED', {
+      refundId: id,
+      returnId: refund.return_id ? Number(refund.return_id) : null,
+      amount: Number(refund.amount),
+      reference: dto.reference,
+      actor,
+    });
+
+    await this.syncOrderAfterRefund(refund.order_id);
+
+    return {
+      success: true,
+      data: this.serializeRefund(updated),
+      message: 'Xác nhận hoàn tiền thành công',
+    };
+  }
+
+  // Huỷ đơn chuyển khoản đã nhận tiền: tạo khoản hoàn toàn bộ số đã trả.
+  async createCancellationRefund(orderId: bigint, actor: string) {
+    const order = await this.prisma.product_order.findUnique({
+      where: { id: orderId },
+    });
+    if (!order) return null;
+
+    const amount = await this.getRefundableAmount(order);
+    if (amount <= 0) return null;
+
+    const refund = await this.prisma.order_refund.create({
+      data: {
+        order_id: orderId,
+        amount: BigInt(amount),
+        reason: 'Huỷ đơn đã thanh toán',
+        created_by: actor,
+      },
+    });
+
+    await this.prisma.product_order.update({
+      where: { id: orderId },
+      data: { payment_status: 'REFUND_PENDING', updated_date: new Date() },
+    });
+
+    await this.logEvent(orderId, 'REFUND_CREATED', {
+      refundId: Number(refund.id),
+      amount,
+      reason: 'ORDER_CANCELLED',
+      actor,
+    });
+
+    return refund;
+  }
+
+  // Số tiền khách đã trả trừ các khoản hoàn đang chờ hoặc đã hoàn.
+  private async getRefundableAmount(order: any): Promise<number> {
+    const paid =
+      order.payment_method === 'sepay_bank'
+        ? Number(order.paid_amount ?? 0)
+        : Number(order.total ?? 0);
+
+    const { _sum } = await this.prisma.order_refund.aggregate({
+      where: { order_id: order.id, status: { in: ['PENDING', 'COMPLETED'] } },
+      _sum: { amount: true },
+    });
+
+    return Math.max(0, paid - Number(_sum.amount ?? 0));
+  }
+
+  private async getReturnedQuantities(orderId: bigint) {
+    const items = await this.prisma.order_return_item.findMany({
+      where: {
+        order_return: {
+          order_id: orderId,
+          status: { not: ReturnStatus.REJECTED },
+        },
+      },
+      select: { order_item_id: true, quantity: true },
+    });
+
+    const result = new Map<number, number>();
+    for (const item of items) {
+      const key = Number(item.order_item_id);
+      result.set(key, (result.get(key) || 0) + item.quantity);
+    }
+    return result;
+  }
+
+  // Cập nhật trạng thái thanh toán / trạng thái đơn sau khi hoàn tiền.
+  private async syncOrderAfterRefund(orderId: bigint) {
+    const order = await this.prisma.product_order.findUnique({
+      where: { id: orderId },
+      include: { orders: true },
+    });
+    if (!order) return;
+
+    const { _sum } = await this.prisma.order_refund.aggregate({
+      where: { order_id: orderId, status: 'COMPLETED' },
+      _sum: { amount: true },
+    });
+    const refunded = Number(_sum.amount ?? 0);
+    const paid =
+      order.payment_method === 'sepay_bank'
+        ? Number(order.paid_amount ?? 0)
+        : Number(order.total ?? 0);
+
+    const returned = await this.getReturnedQuantities(orderId);
+    const fullyReturned = order.orders.every(
+      (line) => (returned.get(Number(line.id)) || 0) >= (line.quantity || 0),
+    );
+
+    await this.prisma.product_order.update({
+      where: { id: orderId },
+      data: {
+        payment_status:
+          refunded <= 0
+            ? order.payment_status
+            : refunded >= paid
+              ? 'REFUNDED'
+              : 'PARTIALLY_REFUNDED',
+        updated_date: new Date(),
+      },
+    });
+
+    if (fullyReturned && order.status !== OrderStatus.CANCELLED) {
+      await this.orderStateService.tryTransition(
+        orderId,
+        OrderStatus.RETURNED,
+        { actor: 'SYSTEM', source: 'RETURN', note: 'Khách đã trả toàn bộ' },
+      );
+    }
+  }
+
+  private async pushReturnToKiotViet(orderReturn: any, refundAmount: number) {
+    const order = orderReturn.product_order;
+    if (!order.order_kiot_id) return;
+
+    try {
+      const items = orderReturn.items
+        .filter((item) => item.order_item?.product?.kiotviet_id)
+        .map((item) => ({
+          productId: Number(item.order_item.product.kiotviet_id),
+          productCode: item.order_item.product.kiotviet_code,
+          quantity: item.quantity,
+          price: Number(item.unit_price),
+        }));
+
+      const kiotReturn = await this.kiotVietService.createReturn({
+        orderKiotId: order.order_kiot_id,
+        customerId: order.kiotviet_customer_id,
+        items,
+        totalPayment: refundAmount,
+        description: `Trả hàng #${orderReturn.id} từ website`,
+      });
+
+      await this.prisma.order_return.update({
+        where: { id: orderReturn.id },
+        data: {
+          kiotviet_return_id: kiotReturn.id,
+          kiotviet_return_code: kiotReturn.code,
+        },
+      });
+
+      await this.logEvent(order.id, 'KIOTVIET_RETURN_SUCCESS', {
+        returnId: Number(orderReturn.id),
+        kiotReturn,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to push return ${orderReturn.id} to KiotViet: ${error.message}`,
+      );
+
+      await this.logEvent(order.id, 'KIOTVIET_RETURN_ERROR', {
+        returnId: Number(orderReturn.id),
+        error: error.message,
+      });
+    }
+  }
+
+  private alreadyProcessed() {
+    return new ConflictException(
+      'Yêu cầu trả hàng vừa được xử lý, vui lòng tải lại',
+    );
+  }
+
+  private async logEvent(orderId: bigint, eventType: string, eventData: any) {
+    await this.prisma.payment_logs.create({
+      data: {
+        order_id: orderId,
+        event_type: eventType,
+        event_data: eventData,
+        created_date: new Date(),
+      },
+    });
+  }
+
+  private serializeRefund(refund: any) {
+    return {
+      id: Number(refund.id),
+      order_id: refund.order_id.toString(),
+      return_id: refund.return_id ? Number(refund.return_id) : null,
+      amount: Number(refund.amount),
+      method: refund.method,
+      status: refund.status,
+      reason: refund.reason,
+      reference: refund.reference,
+      note: refund.note,
+      created_by: refund.created_by,
+      completed_by: refund.completed_by,
+      completed_at: refund.completed_at,
+      created_date: refund.created_date,
+    };
+  }
+
+  private serialize(orderReturn: any) {
+    return {
+      id: Number(orderReturn.id),
+      order_id: orderReturn.order_id.toString(),
+      status: orderReturn.status,
+      reason: orderReturn.reason,
+      description: orderReturn.description,
+      images: orderReturn.images ?? [],
+      refund_amount: Number(orderReturn.refund_amount),
+      admin_note: orderReturn.admin_note,
+      reviewed_by: orderReturn.reviewed_by,
+      reviewed_at: orderReturn.reviewed_at,
+      kiotviet_return_code: orderReturn.kiotviet_return_code,
+      created_date: orderReturn.created_date,
+      items: (orderReturn.items || []).map((item) => ({
+        product_id: item.product_id ? Number(item.product_id) : null,
+        quantity: item.quantity,
+        unit_price: Number(item.unit_price),
+      })),
+      refunds: orderReturn.refunds?.map((r) => this.serializeRefund(r)),
+      order: orderReturn.product_order
+        ? {
+            id: orderReturn.product_order.id.toString(),
+            order_code: orderReturn.product_order.order_code,
+            full_name: orderReturn.product_order.full_name,
+            phone: orderReturn.product_order.phone,
+            total: Number(orderReturn.product_order.total ?? 0),
+          }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Res,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { Response } from 'express';
+import { AdminOrderService } from './admin-order.service';
+import { AddOrderNoteDto, ChangeOrderStatusDto } from './dto/admin-order.dto';
+import { OrderSearchDto } from '../product/dto/order-search.dto';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
+import { CurrentUser } from '../auth/user.decorator';
+
+@ApiTags('admin-orders')
+@ApiBearerAuth()
+@Controller('admin/orders')
+@RequirePermissions(Permission.ORDER_MANAGE)
+export class AdminOrderController {
+  constructor(private readonly adminOrderService: AdminOrderService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Danh sách đơn hàng (CMS, phân trang + lọc)' })
+  @UsePipes(new ValidationPipe({ transform: true }))
+  getOrders(@Query() searchDto: OrderSearchDto) {
+    return this.adminOrderService.getOrders(searchDto);
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Xuất danh sách đơn hàng ra CSV' })
+  @UsePipes(new ValidationPipe({ transform: true }))
+  async exportOrders(@Query() searchDto: OrderSearchDto, @Res() res: Response) {
+    const csv = await this.adminOrderService.exportCsv(searchDto);
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="orders-${date}.csv"`,
+    );
+    res.send(csv);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Chi tiết đơn hàng kèm lịch sử thanh toán' })
+  getOrder(@Param('id') id: string) {
+    return this.adminOrderService.getOrder(id);
+  }
+
+  @Patch(':id/status')
+  @ApiOperation({ summary: 'Đổi trạng thái đơn hàng' })
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  changeStatus(
+    @Param('id') id: string,
+    @Body() dto: ChangeOrderStatusDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.adminOrderService.changeStatus(
+      id,
+      dto,
+      `ADMIN:${user?.userId ?? 'unknown'}`,
+    );
+  }
+
+  @Post(':id/notes')
+  @ApiOperation({ summary: 'Thêm ghi chú nội bộ cho đơn hàng' })
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  addNote(
+    @Param('id') id: string,
+    @Body() dto: AddOrderNoteDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.adminOrderService.addNote(
+      id,
+      dto,
+      user?.fullName || user?.email || `ADMIN:${user?.userId ?? 'unknown'}`,
+    );
+  }
+
+  @Post(':id/push-kiotviet')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Đẩy lại đơn chưa có trên KiotViet' })
+  pushToKiotViet(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.adminOrderService.pushToKiotViet(
+      id,
+      `ADMIN:${user?.userId ?? 'unknown'}`,
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AdminOrderController } from './admin-order.controller';
+import { AdminOrderService } from './admin-order.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PaymentModule } from '../payment/payment.module';
+import { OrderReturnModule } from '../order-return/order-return.module';
+
+@Module({
+  imports: [PrismaModule, PaymentModule, OrderReturnModule],
+  controllers: [AdminOrderController],
+  providers: [AdminOrderService],
+})
+export class AdminOrderModule {}
@@ -0,0 +1,49 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { escapeCsvCell } from './admin-order.service';
+import { OrderSearchDto } from '../product/dto/order-search.dto';
+
+describe('escapeCsvCell', () => {
+  it('leaves plain values untouched', () => {
+    expect(escapeCsvCell('Nguyễn Văn A')).toBe('Nguyễn Văn A');
+    expect(escapeCsvCell(120000)).toBe('120000');
+    expect(escapeCsvCell(null)).toBe('');
+    expect(escapeCsvCell(undefined)).toBe('');
+  });
+
+  it('formats dates as ISO strings', () => {
+    expect(escapeCsvCell(new Date('2024-01-02T03:04:05.000Z'))).toBe(
+      '2024-01-02T03:04:05.000Z',
+    );
+  });
+
+  it('quotes separators, quotes and line breaks', () => {
+    expect(escapeCsvCell('a,b')).toBe('"a,b"');
+    expect(escapeCsvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvCell('line1\nline2')).toBe('"line1\nline2"');
+  });
+
+  it.each(['=HYPERLINK("http://x")', '+1+1', '-2+3', '@SUM(A1)', '\tcmd'])(
+    'neutralises formula-looking text %p',
+    (value) => {
+      expect(escapeCsvCell(value).replace(/^"/, '')).toMatch(/^'/);
+    },
+  );
+
+  it('does not prefix negative numbers', () => {
+    expect(escapeCsvCell(-5000)).toBe('-5000');
+  });
+});
+
+describe('OrderSearchDto.id', () => {
+  it('accepts numeric ids', async () => {
+    const dto = plainToInstance(OrderSearchDto, { id: '123' });
+    expect(await validate(dto)).toHaveLength(0);
+  });
+
+  it('rejects non-numeric ids', async () => {
+    const dto = plainToInstance(OrderSearchDto, { id: '12a' });
+    const errors = await validate(dto);
+    expect(errors.map((e) => e.property)).toContain('id');
+  });
+});
@@ -0,0 +1,361 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { KiotVietService } from '../kiotviet/kiotviet.service';
+import { PaymentService } from '../payment/payment.service';
+import { OrderReturnService } from '../order-return/order-return.service';
+import { OrderStateService } from './order-state.service';
+import { OrderStatus, canTransition } from './order-status';
+import { OrderSearchDto } from '../product/dto/order-search.dto';
+import { AddOrderNoteDto, ChangeOrderStatusDto } from './dto/admin-order.dto';
+
+const EXPORT_LIMIT = 10000;
+
+const CSV_COLUMNS = [
+  'id',
+  'order_code',
+  'created_date',
+  'site_code',
+  'full_name',
+  'phone',
+  'email',
+  'address',
+  'subtotal',
+  'shipping_fee',
+  'discount',
+  'coupon_code',
+  'total',
+  'paid_amount',
+  'payment_method',
+  'payment_status',
+  'status',
+  'order_kiot_code',
+];
+
+// Ô CSV: bọc ngoặc kép khi cần, và thêm ' trước chuỗi bắt đầu bằng
+// = + - @ tab/CR để Excel không chạy dữ liệu khách nhập như công thức.
+export function escapeCsvCell(value: any): string {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+@Injectable()
+export class AdminOrderService {
+  private readonly logger = new Logger(AdminOrderService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private kiotVietService: KiotVietService,
+    private paymentService: PaymentService,
+    private orderReturnService: OrderReturnService,
+    private orderStateService: OrderStateService,
+  ) {}
+
+  private buildWhere(dto: OrderSearchDto) {
+    const where: any = {};
+
+    if (dto.id) where.id = BigInt(dto.id);
+    if (dto.status) where.status = dto.status;
+    if (dto.paymentMethod) where.payment_method = dto.paymentMethod;
+    if (dto.paymentStatus) where.payment_status = dto.paymentStatus;
+    if (dto.siteCode) where.site_code = dto.siteCode;
+    if (dto.receiverFullName) {
+      where.full_name = { contains: dto.receiverFullName };
+    }
+    if (dto.email) where.email = { contains: dto.email };
+    if (dto.phoneNumber) where.phone = { contains: dto.phoneNumber };
+
+    if (dto.fromDate || dto.toDate) {
+      where.created_date = {};
+      if (dto.fromDate) where.created_date.gte = new Date(dto.fromDate);
+      if (dto.toDate) {
+        // Chỉ có ngày (yyyy-mm-dd): lấy hết ngày đó.
+        const to = new Date(dto.toDate);
+        if (dto.toDate.length === 10) {
+          to.setDate(to.getDate() + 1);
+          where.created_date.lt = to;
+        } else {
+          where.created_date.lte = to;
+        }
+      }
+    }
+
+    if (dto.keyword) {
+      const keyword = dto.keyword.trim();
+      where.OR = [
+        { order_code: { contains: keyword } },
+        { order_kiot_code: { contains: keyword } },
+        { full_name: { contains: keyword } },
+        { phone: { contains: keyword } },
+        { email: { contains: keyword } },
+      ];
+    }
+
+    return where;
+  }
+
+  private serialize(order: any) {
+    return {
+      id: order.id.toString(),
+      order_code: order.order_code,
+      site_code: order.site_code,
+      full_name: order.full_name,
+      phone: order.phone,
+      email: order.email,
+      address: [
+        order.detailed_address,
+        order.ward,
+        order.district,
+        order.province,
+      ]
+        .filter(Boolean)
+        .join(', '),
+      subtotal: Number(order.subtotal ?? 0),
+      shipping_fee: Number(order.shipping_fee ?? 0),
+      discount: Number(order.discount_amount ?? 0),
+      coupon_code: order.coupon_code,
+      total: Number(order.total ?? 0),
+      paid_amount: Number(order.paid_amount ?? 0),
+      payment_method: order.payment_method,
+      payment_status: order.payment_status,
+      status: order.status,
+      is_guest: order.is_guest,
+      order_kiot_id: order.order_kiot_id,
+      order_kiot_code: order.order_kiot_code,
+      note: order.note,
+      created_date: order.created_date,
+      updated_date: order.updated_date,
+      updated_by: order.updated_by,
+    };
+  }
+
+  async getOrders(dto: OrderSearchDto) {
+    const pageSize = dto.pageSize ?? 10;
+    const pageNumber = dto.pageNumber ?? 0;
+    const where = this.buildWhere(dto);
+
+    const [total, orders] = await Promise.all([
+      this.prisma.product_order.count({ where }),
+      this.prisma.product_order.findMany({
+        where,
+        orderBy: [{ id: 'desc' }],
+        skip: pageNumber * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      content: orders.map((o) => this.serialize(o)),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      size: pageSize,
+      number: pageNumber,
+    };
+  }
+
+  async exportCsv(dto: OrderSearchDto): Promise<string> {
+    const orders = await this.prisma.product_order.findMany({
+      where: this.buildWhere(dto),
+      orderBy: [{ id: 'desc' }],
+      take: EXPORT_LIMIT,
+    });
+
+    const rows = orders.map((order) => {
+      const row = this.serialize(order);
+      return CSV_COLUMNS.map((column) => escapeCsvCell(row[column])).join(',');
+    });
+
+    // BOM để Excel đọc đúng tiếng Việt.
+    return '\uFEFF' + [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+  }
+
+  async getOrder(id: string) {
+    const order = await this.prisma.product_order.findUnique({
+      where: { id: BigInt(id) },
+      include: {
+        orders: {
+          include: {
+            product: {
+              select: {
+                id: true,
+                title: true,
+                kiotviet_name: true,
+                kiotviet_code: true,
+              },
+            },
+          },
+        },
+        payment_logs: { orderBy: { created_date: 'desc' } },
+        payment_transactions: { orderBy: { id: 'desc' } },
+        admin_notes: { orderBy: { id: 'desc' } },
+        returns: { orderBy: { id: 'desc' } },
+        refunds: { orderBy: { id: 'desc' } },
+        kiotviet_job: true,
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Đơn hàng với ID ${id} không tồn tại`);
+    }
+
+    return {
+      success: true,
+      data: {
+        ...this.serialize(order),
+        client_user_id: order.client_user_id,
+        kiotviet_customer_id: order.kiotviet_customer_id,
+        items: order.orders.map((item) => ({
+          id: Number(item.id),
+          product_id: item.product ? Number(item.product.id) : null,
+          title: item.product?.title || item.product?.kiotviet_name || '',
+          kiotviet_code: item.product?.kiotviet_code ?? null,
+          quantity: item.quantity,
+          unit_price: Number(item.unit_price ?? 0),
+        })),
+        timeline: await this.orderStateService.getTimeline(order.id),
+        kiotviet_job: order.kiotviet_job
+          ? {
+              status: order.kiotviet_job.status,
+              attempts: order.kiotviet_job.attempts,
+              next_attempt_at: order.kiotviet_job.next_attempt_at,
+              last_error: order.kiotviet_job.last_error,
+            }
+          : null,
+        payment_logs: order.payment_logs.map((log) => ({
+          id: Number(log.id),
+          event_type: log.event_type,
+          event_data: log.event_data,
+          ip_address: log.ip_address,
+          user_agent: log.user_agent,
+          created_date: log.created_date,
+        })),
+        transactions: order.payment_transactions.map((t) => ({
+          id: Number(t.id),
+          transaction_id: t.transaction_id,
+          amount: Number(t.amount),
+          content: t.content,
+          status: t.status,
+          allocated_by: t.allocated_by,
+          created_date: t.created_date,
+        })),
+        notes: order.admin_notes.map((n) => ({
+          id: Number(n.id),
+          content: n.content,
+          author: n.author,
+          created_date: n.created_date,
+        })),
+        returns: order.returns.map((r) => ({
+          id: Number(r.id),
+          status: r.status,
+          reason: r.reason,
+          refund_amount: Number(r.refund_amount),
+          created_date: r.created_date,
+        })),
+        refunds: order.refunds.map((r) => ({
+          id: Number(r.id),
+          amount: Number(r.amount),
+          status: r.status,
+          method: r.method,
+          created_date: r.created_date,
+        })),
+      },
+    };
+  }
+
+  async changeStatus(id: string, dto: ChangeOrderStatusDto, actor: string) {
+    const order = await this.prisma.product_order.findUnique({
+      where: { id: BigInt(id) },
+      select: {
+        id: true,
+        status: true,
+        order_kiot_id: true,
+        payment_method: true,
+        paid_amount: true,
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Đơn hàng với ID ${id} không tồn tại`);
+    }
+
+    if (!canTransition(order.status, dto.status)) {
+      throw new BadRequestException(
+        `Không thể chuyển đơn hàng từ "${order.status}" sang "${dto.status}"`,
+      );
+    }
+
+    await this.orderStateService.transition(order.id, dto.status, {
+      actor,
+      source: 'ADMIN',
+      note: dto.note,
+    });
+
+    // Huỷ đơn: xoá đơn bên KiotViet như khi khách tự huỷ, sau khi bước
+    // chuyển đã được chấp nhận.
+    let kiotVietDeleted: boolean | null = null;
+    if (dto.status === OrderStatus.CANCELLED && order.order_kiot_id) {
+      kiotVietDeleted = await this.kiotVietService
+        .deleteOrder(order.order_kiot_id)
+        .then(() => true)
+        .catch(() => false);
+    }
+
+    if (
+      dto.status === OrderStatus.CANCELLED &&
+      order.payment_method === 'sepay_bank' &&
+      Number(order.paid_amount) > 0
+    ) {
+      await this.orderReturnService.createCancellationRefund(order.id, actor);
+    }
+
+    return {
+      success: true,
+      data: { id, status: dto.status, kiotVietDeleted },
+      message:
+        kiotVietDeleted === false
+          ? 'Đã huỷ đơn nhưng xoá đơn bên KiotViet thất bại, vui lòng xoá tay'
+          : 'Cập nhật trạng thái đơn hàng thành công',
+    };
+  }
+
+  async addNote(id: string, dto: AddOrderNoteDto, actor: string) {
+    const order = await this.prisma.product_order.findUnique({
+      where: { id: BigInt(id) },
+      select: { id: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Đơn hàng với ID ${id} không tồn tại`);
+    }
+
+    const note = await this.prisma.order_note.create({
+      data: { order_id: order.id, content: dto.content, author: actor },
+    });
+
+    return {
+      success: true,
+      data: {
+        id: Number(note.id),
+        content: note.content,
+        author: note.author,
+        created_date: note.created_date,
+      },
+      message: 'Thêm ghi chú thành công',
+    };
+  }
+
+  async pushToKiotViet(id: string, actor: string) {
+    this.logger.log(`Re-pushing order ${id} to KiotViet (${actor})`);
+    return this.paymentService.pushOrderToKiotViet(BigInt(id));
+  }
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { OrderStatus } from '../order-status';
+
+export class ChangeOrderStatusDto {
+  @ApiProperty({ enum: OrderStatus, description: 'Trạng thái mới' })
+  @IsEnum(OrderStatus, { message: 'Trạng thái đơn hàng không hợp lệ' })
+  status: OrderStatus;
+
+  @ApiProperty({ description: 'Ghi chú lý do đổi trạng thái', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+}
+
+export class AddOrderNoteDto {
+  @ApiProperty({ description: 'Nội dung ghi chú' })
+  @IsNotEmpty({ message: 'Nội dung ghi chú không được để trống' })
+  @IsString()
+  @MaxLength(5000, { message: 'Ghi chú tối đa 5000 ký tự' })
+  content: string;
+}
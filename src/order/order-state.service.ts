@@ -0,0 +1,200 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  OrderStatus,
+  canTransition,
+  normalizeOrderStatus,
+} from './order-status';
+import { NotificationService } from '../notification/notification.service';
+import { OrderEmailType } from '../notification/email-templates';
+import { WebhookDispatcherService } from '../webhook-subscription/webhook-dispatcher.service';
+import { WebhookEvent } from '../webhook-subscription/webhook-events';
+import { CouponService } from '../coupon/coupon.service';
+
+interface TransitionOptions {
+  actor: string;
+  source: string;
+  note?: string;
+  // Các cột khác cần ghi cùng lúc với status (payment_status...).
+  data?: Record<string, any>;
+  client?: any;
+  // false: không gửi email thông báo cho khách (vd. huỷ tự động khi đặt lại).
+  notify?: boolean;
+}
+
+const STATUS_EMAILS: Partial<Record<OrderStatus, OrderEmailType>> = {
+  [OrderStatus.SHIPPING]: OrderEmailType.ORDER_SHIPPED,
+  [OrderStatus.CUSTOMER_RECEIVED]: OrderEmailType.ORDER_DELIVERED,
+  // Đơn KiotViet hoàn thành có thể bỏ qua CUSTOMER_RECEIVED; dedupe_key
+  // đảm bảo khách chỉ nhận một email.
+  [OrderStatus.COMPLETED]: OrderEmailType.ORDER_DELIVERED,
+  [OrderStatus.CANCELLED]: OrderEmailType.ORDER_CANCELLED,
+};
+
+/**
+ * Mọi thay đổi product_order.status đều đi qua đây: kiểm tra bước chuyển
+ * hợp lệ theo ORDER_TRANSITIONS, cập nhật có điều kiện theo status cũ
+ * (tránh ghi đè khi hai luồng cùng sửa), ghi order_status_history và xếp
+ * email thông báo cho khách vào outbox.
+ */
+@Injectable()
+export class OrderStateService {
+  private readonly logger = new Logger(OrderStateService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationService: NotificationService,
+    private webhookDispatcher: WebhookDispatcherService,
+    private couponService: CouponService,
+  ) {}
+
+  async transition(
+    orderId: bigint,
+    to: OrderStatus,
+    options: TransitionOptions,
+  ) {
+    const client = options.client ?? this.prisma;
+
+    const order = await client.product_order.findUnique({
+      where: { id: orderId },
+      select: { id: true, status: true, order_code: true, site_code: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Đơn hàng ${orderId} không tồn tại`);
+    }
+
+    const from = normalizeOrderStatus(order.status);
+    if (!from) {
+      throw new BadRequestException(
+        `Trạng thái hiện tại "${order.status}" của đơn hàng không hợp lệ`,
+      );
+    }
+    if (from === to) {
+      return { changed: false, from, to };
+    }
+
+    if (!canTransition(from, to)) {
+      throw new BadRequestException(
+        `Không thể chuyển đơn hàng từ "${from}" sang "${to}"`,
+      );
+    }
+
+    const { count } = await client.product_order.updateMany({
+      where: { id: orderId, status: order.status },
+      data: {
+        ...options.data,
+        status: to,
+        updated_date: new Date(),
+        updated_by: options.actor,
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictException(
+        'Trạng thái đơn hàng vừa được cập nhật, vui lòng thử lại',
+      );
+    }
+
+    await client.order_status_history.create({
+      data: {
+        order_id: orderId,
+        from_status: order.status,
+        to_status: to,
+        actor: options.actor,
+        source: options.source,
+        note: options.note ?? null,
+      },
+    });
+
+    if (to === OrderStatus.CANCELLED) {
+      await this.couponService.releaseForOrder(orderId, client);
+    }
+
+    if (STATUS_EMAILS[to] && options.notify !== false) {
+      await this.notificationService.enqueueOrderEmail(
+        orderId,
+        STATUS_EMAILS[to],
+        client,
+      );
+    }
+
+    await this.webhookDispatcher.emit(
+      WebhookEvent.ORDER_UPDATED,
+      {
+        orderId: orderId.toString(),
+        orderCode: order.order_code,
+        fromStatus: from,
+        toStatus: to,
+        source: options.source,
+        actor: options.actor,
+        note: options.note ?? null,
+      },
+      { siteCode: order.site_code, client: options.client },
+    );
+
+    this.logger.log(
+      `Order ${orderId}: ${from} -> ${to} (${options.source}/${options.actor})`,
+    );
+
+    return { changed: true, from, to };
+  }
+
+  // Giống transition nhưng bỏ qua (ghi log) khi bước chuyển không hợp lệ,
+  // dùng cho webhook / job nền không có người dùng để báo lỗi.
+  async tryTransition(
+    orderId: bigint,
+    to: OrderStatus,
+    options: TransitionOptions,
+  ) {
+    try {
+      return await this.transition(orderId, to, options);
+    } catch (error) {
+      this.logger.warn(
+        `Skipped transition of order ${orderId} to ${to}: ${error.message}`,
+      );
+      return { changed: false, to, error: error.message };
+    }
+  }
+
+  // Ghi mốc đầu tiên khi tạo đơn.
+  async recordCreated(
+    orderId: bigint,
+    status: OrderStatus,
+    actor: string,
+    client: any = this.prisma,
+  ) {
+    await client.order_status_history.create({
+      data: {
+        order_id: orderId,
+        from_status: null,
+        to_status: status,
+        actor,
+        source: 'CHECKOUT',
+      },
+    });
+  }
+
+  async getTimeline(orderId: bigint) {
+    const history = await this.prisma.order_status_history.findMany({
+      where: { order_id: orderId },
+      orderBy: [{ created_date: 'asc' }, { id: 'asc' }],
+    });
+
+    return history.map((h) => ({
+      id: Number(h.id),
+      fromStatus: h.from_status,
+      toStatus: h.to_status,
+      actor: h.actor,
+      source: h.source,
+      note: h.note,
+      createdDate: h.created_date,
+    }));
+  }
+}
@@ -0,0 +1,85 @@
+import { Logger } from '@nestjs/common';
+import {
+  canTransition,
+  LEGACY_STATUSES,
+  normalizeOrderStatus,
+  OrderStatus,
+  ORDER_TRANSITIONS,
+} from './order-status';
+
+describe('order status', () => {
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+  });
+
+  describe('normalizeOrderStatus', () => {
+    it('treats a missing status as PENDING', () => {
+      expect(normalizeOrderStatus(null)).toBe(OrderStatus.PENDING);
+      expect(normalizeOrderStatus('')).toBe(OrderStatus.PENDING);
+    });
+
+    it('keeps current statuses', () => {
+      for (const status of Object.values(OrderStatus)) {
+        expect(normalizeOrderStatus(status)).toBe(status);
+      }
+    });
+
+    it('maps every legacy status onto the state machine', () => {
+      expect(normalizeOrderStatus('CREATED ORDER')).toBe(OrderStatus.CONFIRMED);
+      expect(normalizeOrderStatus('NEW')).toBe(OrderStatus.PENDING);
+      expect(normalizeOrderStatus('PAID')).toBe(OrderStatus.CONFIRMED);
+      expect(normalizeOrderStatus('INPROGRESS')).toBe(OrderStatus.CONFIRMED);
+      expect(normalizeOrderStatus('DELIVERING')).toBe(OrderStatus.SHIPPING);
+
+      for (const mapped of Object.values(LEGACY_STATUSES)) {
+        expect(ORDER_TRANSITIONS[mapped]).toBeDefined();
+      }
+    });
+
+    it('returns null for unknown values instead of casting them', () => {
+      expect(normalizeOrderStatus('SOMETHING_ELSE')).toBeNull();
+    });
+  });
+
+  describe('canTransition', () => {
+    it('allows the happy path', () => {
+      expect(canTransition('PENDING', OrderStatus.CONFIRMED)).toBe(true);
+      expect(canTransition('CONFIRMED', OrderStatus.SHIPPING)).toBe(true);
+      expect(canTransition('SHIPPING', OrderStatus.CUSTOMER_RECEIVED)).toBe(
+        true,
+      );
+      expect(canTransition('CUSTOMER_RECEIVED', OrderStatus.COMPLETED)).toBe(
+        true,
+      );
+      expect(canTransition('COMPLETED', OrderStatus.RETURNED)).toBe(true);
+    });
+
+    it('treats CANCELLED and RETURNED as final', () => {
+      for (const to of Object.values(OrderStatus)) {
+        expect(canTransition('CANCELLED', to)).toBe(false);
+        expect(canTransition('RETURNED', to)).toBe(false);
+      }
+    });
+
+    it('does not cancel delivered orders', () => {
+      expect(canTransition('CUSTOMER_RECEIVED', OrderStatus.CANCELLED)).toBe(
+        false,
+      );
+      expect(canTransition('COMPLETED', OrderStatus.CANCELLED)).toBe(false);
+    });
+
+    it('moves legacy orders forward', () => {
+      expect(canTransition('DELIVERING', OrderStatus.CUSTOMER_RECEIVED)).toBe(
+        true,
+      );
+      expect(canTransition('CREATED ORDER', OrderStatus.SHIPPING)).toBe(true);
+      expect(canTransition('NEW', OrderStatus.CANCELLED)).toBe(true);
+    });
+
+    it('rejects every move from an unknown status', () => {
+      expect(canTransition('SOMETHING_ELSE', OrderStatus.CANCELLED)).toBe(
+        false,
+      );
+    });
+  });
+});
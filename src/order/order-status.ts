@@ -0,0 +1,67 @@
+import { Logger } from '@nestjs/common';
+
+export enum OrderStatus {
+  PENDING = 'PENDING', // chờ thanh toán chuyển khoản
+  CONFIRMED = 'CONFIRMED', // đã thanh toán / đơn COD đã tạo
+  SHIPPING = 'SHIPPING',
+  CUSTOMER_RECEIVED = 'CUSTOMER_RECEIVED',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+  RETURNED = 'RETURNED',
+}
+
+// Các bước chuyển hợp lệ; CANCELLED và RETURNED là trạng thái cuối.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+  [OrderStatus.CONFIRMED]: [
+    OrderStatus.SHIPPING,
+    OrderStatus.CUSTOMER_RECEIVED,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.SHIPPING]: [
+    OrderStatus.CUSTOMER_RECEIVED,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.CUSTOMER_RECEIVED]: [
+    OrderStatus.COMPLETED,
+    OrderStatus.RETURNED,
+  ],
+  [OrderStatus.COMPLETED]: [OrderStatus.RETURNED],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.RETURNED]: [],
+};
+
+// Giá trị cũ còn trong DB trước khi có state machine (enum OrderStatus cũ
+// của order-search.dto và status lúc tạo đơn COD).
+export const LEGACY_STATUSES: Record<string, OrderStatus> = {
+  'CREATED ORDER': OrderStatus.CONFIRMED,
+  NEW: OrderStatus.PENDING,
+  PAID: OrderStatus.CONFIRMED,
+  INPROGRESS: OrderStatus.CONFIRMED,
+  DELIVERING: OrderStatus.SHIPPING,
+};
+
+const logger = new Logger('OrderStatus');
+
+// Giá trị lạ không ép kiểu thành OrderStatus: trả null và ghi log để biết
+// còn dữ liệu cũ chưa được khai báo trong LEGACY_STATUSES.
+export function normalizeOrderStatus(
+  status: string | null | undefined,
+): OrderStatus | null {
+  if (!status) return OrderStatus.PENDING;
+  if (LEGACY_STATUSES[status]) return LEGACY_STATUSES[status];
+  if (Object.values(OrderStatus).includes(status as OrderStatus)) {
+    return status as OrderStatus;
+  }
+
+  logger.warn(`Unknown order status "${status}"`);
+  return null;
+}
+
+export function canTransition(
+  from: string | null | undefined,
+  to: OrderStatus,
+): boolean {
+  const current = normalizeOrderStatus(from);
+  return current !== null && ORDER_TRANSITIONS[current].includes(to);
+}
@@ -0,0 +1,13 @@
+import { Global, Module } from '@nestjs/common';
+import { OrderStateService } from './order-state.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CouponModule } from '../coupon/coupon.module';
+
+// Global: KiotVietService (cũng global) và các module thanh toán đều cần.
+@Global()
+@Module({
+  imports: [PrismaModule, CouponModule],
+  providers: [OrderStateService],
+  exports: [OrderStateService],
+})
+export class OrderModule {}
@@ -17,6 +17,8 @@ import { UpdatePagesDto } from './dto/update-pages.dto';
 import { SearchPagesDto } from './dto/search-pages.dto';
 import { ApiTags, ApiOperation } from '@nestjs/swagger';
 import { CurrentSiteCode } from '../common/decorators/site-code.decorator';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
 
 @ApiTags('pages')
 @Controller('pages')
@@ -24,6 +26,7 @@ export class PagesController {
   constructor(private readonly pagesService: PagesService) {}
 
   @Post()
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UsePipes(new ValidationPipe({ transform: true }))
   create(@Body() dto: CreatePagesDto, @CurrentSiteCode() siteCode: string) {
     return this.pagesService.create(dto, siteCode);
@@ -48,6 +51,7 @@ export class PagesController {
   }
 
   @Patch(':id')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UsePipes(new ValidationPipe({ transform: true }))
   update(
     @Param('id') id: string,
@@ -58,6 +62,7 @@ export class PagesController {
   }
 
   @Delete(':id')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   remove(@Param('id') id: string, @CurrentSiteCode() siteCode: string) {
     return this.pagesService.remove(+id, siteCode);
   }
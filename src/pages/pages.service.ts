@@ -8,12 +8,13 @@ import { PrismaClient } from '@prisma/client';
 import { CreatePagesDto } from './dto/create-pages.dto';
 import { UpdatePagesDto } from './dto/update-pages.dto';
 import { SearchPagesDto } from './dto/search-pages.dto';
+import { SuggestService } from '../search/suggest.service';
 
 @Injectable()
 export class PagesService {
   private prisma = new PrismaClient();
 
-  constructor() {}
+  constructor(private readonly suggestService: SuggestService) {}
 
   async create(createPagesDto: CreatePagesDto, siteCode: string = 'dieptra') {
     const existingPage = await this.prisma.pages.findFirst({
@@ -26,7 +27,7 @@ export class PagesService {
       );
     }
 
-    return this.prisma.pages.create({
+    const created = await this.prisma.pages.create({
       data: {
         ...createPagesDto,
         site_code: siteCode,
@@ -35,6 +36,8 @@ export class PagesService {
       },
       include: { parent: true, children: true },
     });
+    this.suggestService.markDirty(siteCode);
+    return created;
   }
 
   async findAll(searchDto: SearchPagesDto, siteCode: string = 'dieptra') {
@@ -125,11 +128,13 @@ export class PagesService {
       throw new BadRequestException('Page does not belong to this site');
     }
 
-    return this.prisma.pages.update({
+    const updated = await this.prisma.pages.update({
       where: { id: BigInt(id) },
       data: { ...updatePagesDto, updated_date: new Date() },
       include: { parent: true, children: true },
     });
+    this.suggestService.markDirty(siteCode);
+    return updated;
   }
 
   async remove(id: number, siteCode: string = 'dieptra') {
@@ -142,6 +147,7 @@ export class PagesService {
     }
 
     await this.prisma.pages.delete({ where: { id: BigInt(id) } });
+    this.suggestService.markDirty(siteCode);
     return { message: 'Page deleted successfully' };
   }
 
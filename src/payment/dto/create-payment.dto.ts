@@ -9,6 +9,8 @@ import {
   IsOptional,
   IsEnum,
   Length,
+  IsInt,
+  Min,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 
@@ -131,6 +133,11 @@ export class AmountsDto {
   @IsNumber()
   shipping: number;
 
+  @ApiProperty({ description: 'Discount amount', required: false })
+  @IsOptional()
+  @IsNumber()
+  discount?: number;
+
   @ApiProperty({ description: 'Total amount' })
   @IsNotEmpty()
   @IsNumber()
@@ -163,6 +170,11 @@ export class CreatePaymentDto {
   @ValidateNested()
   @Type(() => AmountsDto)
   amounts: AmountsDto;
+
+  @ApiProperty({ description: 'Coupon code', required: false })
+  @IsOptional()
+  @IsString()
+  couponCode?: string;
 }
 
 export class SepayWebhookDto {
@@ -199,6 +211,8 @@ export enum PaymentStatus {
   PENDING = 'PENDING',
   PROCESSING = 'PROCESSING',
   SUCCESS = 'SUCCESS',
+  PARTIALLY_PAID = 'PARTIALLY_PAID',
+  OVERPAID = 'OVERPAID',
   FAILED = 'FAILED',
   CANCELLED = 'CANCELLED',
   REFUNDED = 'REFUNDED',
@@ -229,3 +243,23 @@ export class PaymentStatusResponseDto {
   @ApiProperty({ description: 'Payment gateway response', required: false })
   gatewayResponse?: any;
 }
+
+export class TrackOrderDto {
+  @ApiProperty({ description: 'Order code', example: 'DT12345678AB12CD' })
+  @IsNotEmpty({ message: 'Mã đơn hàng không được để trống' })
+  @IsString({ message: 'Mã đơn hàng phải là chuỗi ký tự' })
+  orderCode: string;
+
+  @ApiProperty({ description: 'Phone number used at checkout' })
+  @IsNotEmpty({ message: 'Số điện thoại không được để trống' })
+  @IsString({ message: 'Số điện thoại phải là chuỗi ký tự' })
+  phone: string;
+}
+
+export class AllocateTransactionDto {
+  @ApiProperty({ description: 'Order ID to allocate the transaction to' })
+  @Type(() => Number)
+  @IsInt({ message: 'ID đơn hàng phải là số nguyên' })
+  @Min(1, { message: 'ID đơn hàng không hợp lệ' })
+  orderId: number;
+}
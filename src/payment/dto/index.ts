@@ -244,6 +244,8 @@ export enum PaymentStatus {
   PROCESSING = 'PROCESSING',
   SUCCESS = 'SUCCESS',
   PAID = 'PAID',
+  PARTIALLY_PAID = 'PARTIALLY_PAID',
+  OVERPAID = 'OVERPAID',
   FAILED = 'FAILED',
   CANCELLED = 'CANCELLED',
   REFUNDED = 'REFUNDED',
@@ -0,0 +1,630 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { KiotVietService } from '../kiotviet/kiotviet.service';
+import { OrderStatus } from '../order/order-status';
+import { normalizePhone, phoneVariants } from '../utils/helper';
+import {
+  claimOutboxRow,
+  outboxFailure,
+  OutboxRunner,
+  releaseStaleOutboxRows,
+} from '../common/utils/outbox.utils';
+
+const BATCH_SIZE = 20;
+// Job PROCESSING quá thời gian này coi như tiến trình đã chết giữa chừng.
+const LOCK_TIMEOUT_MINUTES = 10;
+
+/**
+ * Outbox đẩy đơn sang KiotViet. Job được ghi cùng transaction với việc đơn
+ * được xác nhận (COD tạo đơn / chuyển khoản đủ tiền), thử ngay một lần rồi
+ * job định kỳ thử lại với backoff; quá số lần thì chuyển DEAD chờ admin.
+ *
+ * Chống tạo trùng: mỗi đơn chỉ có một job (order_id unique), đơn đã có
+ * order_kiot_id thì bỏ qua, và từ lần thử thứ hai trở đi tìm lại đơn trên
+ * KiotViet theo marker trong mô tả trước khi tạo mới.
+ *
+ * ENV:
+ *   KIOTVIET_ORDER_SYNC_ENABLED=false    // tắt job thử lại
+ *   KIOTVIET_ORDER_SYNC_MAX_ATTEMPTS=10
+ */
+@Injectable()
+export class KiotVietOrderSyncService {
+  private readonly logger = new Logger(KiotVietOrderSyncService.name);
+  private readonly runner = new OutboxRunner(this.logger);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private kiotVietService: KiotVietService,
+  ) {}
+
+  async enqueue(orderId: bigint, client: any = this.prisma) {
+    const existing = await client.kiotviet_order_job.findUnique({
+      where: { order_id: orderId },
+    });
+    if (existing) return existing;
+
+    return client.kiotviet_order_job.create({
+      data: {
+        order_id: orderId,
+        max_attempts: Number(
+          this.configService.get('KIOTVIET_ORDER_SYNC_MAX_ATTEMPTS') ?? 10,
+        ),
+      },
+    });
+  }
+
+  // Thử đẩy ngay (sau khi transaction tạo job đã commit). Không throw.
+  async process(orderId: bigint) {
+    const job = await this.prisma.kiotviet_order_job.findUnique({
+      where: { order_id: orderId },
+    });
+    if (!job) return null;
+
+    return this.processJob(job);
+  }
+
+  // Admin đẩy lại: đưa job (kể cả DEAD) về PENDING và xử lý ngay.
+  async syncNow(orderId: bigint) {
+    const job = await this.enqueue(orderId);
+
+    if (['PENDING', 'DEAD'].includes(job.status)) {
+      await this.prisma.kiotviet_order_job.update({
+        where: { id: job.id },
+        data: {
+          status: 'PENDING',
+          attempts: 0,
+          next_attempt_at: new Date(),
+          updated_date: new Date(),
+        },
+      });
+    }
+
+    await this.process(orderId);
+
+    const updated = await this.prisma.kiotviet_order_job.findUnique({
+      where: { id: job.id },
+    });
+
+    if (!updated) {
+      throw new NotFoundException(`Job với ID ${job.id} không tồn tại`);
+    }
+
+    return updated;
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'kiotviet-order-sync' })
+  async handleScheduledSync() {
+    if (this.configService.get('KIOTVIET_ORDER_SYNC_ENABLED') === 'false') {
+      return;
+    }
+
+    await this.runner.run('KiotViet order sync', async () => {
+      await this.releaseStaleLocks();
+      await this.processDueJobs();
+    });
+  }
+
+  async processDueJobs() {
+    const jobs = await this.prisma.kiotviet_order_job.findMany({
+      where: { status: 'PENDING', next_attempt_at: { lte: new Date() } },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    let succeeded = 0;
+    for (const job of jobs) {
+      const result = await this.processJob(job);
+      if (result === 'SUCCEEDED') succeeded++;
+    }
+
+    if (jobs.length > 0) {
+      this.logger.log(
+        `KiotViet order sync: ${succeeded}/${jobs.length} pushed`,
+      );
+    }
+
+    return { processed: jobs.length, succeeded };
+  }
+
+  private async releaseStaleLocks() {
+    const count = await releaseStaleOutboxRows(
+      this.prisma.kiotviet_order_job,
+      'PROCESSING',
+      LOCK_TIMEOUT_MINUTES,
+      {
+        locked_at: null,
+        // Có thể đã tạo đơn trên KiotViet: lần sau phải tìm lại trước.
+        last_error: 'Processing lock expired',
+      },
+    );
+
+    if (count > 0) {
+      this.logger.warn(`Released ${count} stale KiotViet order jobs`);
+    }
+  }
+
+  private async processJob(job: any): Promise<string | null> {
+    // Chỉ một tiến trình giành được job.
+    const claimed = await claimOutboxRow(
+      this.prisma.kiotviet_order_job,
+      job.id,
+      { status: 'PROCESSING', locked_at: new Date() },
+    );
+    if (!claimed) return null;
+
+    const attempts = job.attempts + 1;
+
+    try {
+      const order = await this.prisma.product_order.findUnique({
+        where: { id: job.order_id },
+        select: {
+          id: true,
+          status: true,
+          payment_method: true,
+          order_kiot_id: true,
+          order_kiot_code: true,
+        },
+      });
+
+      if (!order || order.status === OrderStatus.CANCELLED) {
+        await this.finishJob(job.id, 'CANCELLED', { attempts });
+        return 'CANCELLED';
+      }
+
+      let kiotOrder: any = order.order_kiot_id
+        ? { id: order.order_kiot_id, code: order.order_kiot_code }
+        : null;
+
+      if (!kiotOrder) {
+        const reuseExisting = job.attempts > 0 || !!job.last_error;
+        kiotOrder =
+          order.payment_method === 'cod'
+            ? await this.pushCODOrder(order.id, reuseExisting)
+            : await this.pushPaidOrder(order.id, reuseExisting);
+      }
+
+      await this.finishJob(job.id, 'SUCCEEDED', {
+        attempts,
+        kiotviet_order_id: kiotOrder.id,
+        kiotviet_order_code: kiotOrder.code,
+        completed_at: new Date(),
+      });
+      return 'SUCCEEDED';
+    } catch (error) {
+      const { dead, data } = outboxFailure(attempts, job.max_attempts, error);
+
+      await this.finishJob(job.id, data.status, data);
+
+      this.logger.warn(
+        `KiotViet push for order ${job.order_id} attempt ${attempts} failed${dead ? ', moved to DEAD' : ''}: ${error.message}`,
+      );
+      return dead ? 'DEAD' : 'PENDING';
+    }
+  }
+
+  private async finishJob(id: bigint, status: string, data: any) {
+    await this.prisma.kiotviet_order_job.update({
+      where: { id },
+      data: { ...data, status, locked_at: null, updated_date: new Date() },
+    });
+  }
+
+  async getJobs(params: {
+    pageSize?: number;
+    pageNumber?: number;
+    status?: string;
+  }) {
+    const pageSize = Number(params.pageSize) || 20;
+    const pageNumber = Number(params.pageNumber) || 0;
+    const where: any = params.status ? { status: params.status } : {};
+
+    const [total, jobs] = await Promise.all([
+      this.prisma.kiotviet_order_job.count({ where }),
+      this.prisma.kiotviet_order_job.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        skip: pageNumber * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      content: jobs.map((job) => this.serialize(job)),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      size: pageSize,
+      number: pageNumber,
+    };
+  }
+
+  async retry(id: number) {
+    const job = await this.prisma.kiotviet_order_job.findUnique({
+      where: { id: BigInt(id) },
+    });
+
+    if (!job) {
+      throw new NotFoundException(`Job với ID ${id} không tồn tại`);
+    }
+
+    const updated = await this.syncNow(job.order_id);
+
+    return {
+      success: updated.status === 'SUCCEEDED',
+      data: this.serialize(updated),
+      message:
+        updated.status === 'SUCCEEDED'
+          ? 'Đẩy đơn sang KiotViet thành công'
+          : `Đẩy đơn sang KiotViet chưa thành công: ${updated.last_error ?? updated.status}`,
+    };
+  }
+
+  serialize(job: any) {
+    return {
+      id: Number(job.id),
+      order_id: job.order_id.toString(),
+      status: job.status,
+      attempts: job.attempts,
+      max_attempts: job.max_attempts,
+      next_attempt_at: job.next_attempt_at,
+      last_error: job.last_error,
+      kiotviet_order_id: job.kiotviet_order_id,
+      kiotviet_order_code: job.kiotviet_order_code,
+      completed_at: job.completed_at,
+      created_date: job.created_date,
+    };
+  }
+
+  // Gắn vào mô tả đơn KiotViet để nhận ra đơn đã tạo từ website.
+  private orderMarker(order: { id: bigint; order_code: string | null }) {
+    return `[WEB ${order.order_code || order.id}]`;
+  }
+
+  private async findOrCreateKiotOrder(
+    customerId: number,
+    marker: string,
+    reuseExisting: boolean,
+    create: () => Promise<any>,
+  ) {
+    if (reuseExisting) {
+      const existing = await this.kiotVietService.findOrderByMarker(
+        customerId,
+        marker,
+      );
+      if (existing) {
+        this.logger.log(
+          `Reusing KiotViet order ${existing.code} found by marker ${marker}`,
+        );
+        return existing;
+      }
+    }
+
+    return create();
+  }
+
+  private async pushCODOrder(orderId: bigint, reuseExisting: boolean) {
+    try {
+      const orderData = await this.prisma.product_order.findUnique({
+        where: { id: orderId },
+        include: {
+          orders: {
+            include: {
+              product: true,
+            },
+          },
+        },
+      });
+
+      if (!orderData) {
+        throw new Error('Order not found');
+      }
+
+      const kiotCustomer = await this.resolveKiotCustomer(orderData);
+
+      const validOrderItems = orderData.orders.filter(
+        (item) =>
+          item.product &&
+          item.product.kiotviet_id &&
+          item.product.kiotviet_code &&
+          item.quantity,
+      );
+
+      if (validOrderItems.length === 0) {
+        throw new Error('No valid products');
+      }
+
+      const kiotOrderItems = validOrderItems.map((item) => ({
+        productId: Number(item.product!.kiotviet_id),
+        productCode: item.product!.kiotviet_code!,
+        productName:
+          item.product!.kiotviet_name || item.product!.title || 'Sản phẩm',
+        quantity: item.quantity!,
+        price: Number(item.unit_price ?? item.product!.kiotviet_price ?? 0),
+      }));
+
+      const cleanedProvince = orderData.province
+        ? orderData.province.replace(/^(Thành phố|Tỉnh)\s+/i, '').trim()
+        : '';
+
+      const locationName = [cleanedProvince, orderData.district]
+        .filter(Boolean)
+        .join(' - ');
+
+      const marker = this.orderMarker(orderData);
+      const kiotOrder = await this.findOrCreateKiotOrder(
+        kiotCustomer.id,
+        marker,
+        reuseExisting,
+        () =>
+          this.kiotVietService.createCODOrder({
+            customerId: kiotCustomer.id,
+            customerName: orderData.full_name!,
+            items: kiotOrderItems,
+            total: Number(orderData.total),
+            discount: Number(orderData.discount_amount ?? 0),
+            description: `${
+              orderData.note
+                ? `${orderData.note}`
+                : 'Đơn hàng được tạo tự động từ website'
+            } ${marker}`,
+            deliveryInfo: {
+              receiver: orderData.full_name!,
+              contactNumber: orderData.phone!,
+              address: orderData.detailed_address || orderData.address || '',
+              locationName: locationName,
+              wardName: orderData.ward || '',
+            },
+          }),
+      );
+
+      await this.prisma.product_order.update({
+        where: { id: orderId },
+        data: {
+          order_kiot_id: kiotOrder.id,
+          order_kiot_code: kiotOrder.code,
+        },
+      });
+
+      this.logger.log(`✅ Created KiotViet COD order: ${kiotOrder.code}`);
+
+      await this.prisma.payment_logs.create({
+        data: {
+          order_id: orderId,
+          event_type: 'KIOTVIET_COD_SYNC_SUCCESS',
+          event_data: {
+            kiotCustomerId: kiotCustomer.id,
+            kiotOrder,
+          },
+          created_date: new Date(),
+        },
+      });
+
+      return kiotOrder;
+    } catch (kiotError) {
+      this.logger.error('KiotViet sync error:', kiotError);
+
+      await this.prisma.payment_logs.create({
+        data: {
+          order_id: orderId,
+          event_type: 'KIOTVIET_COD_SYNC_ERROR',
+          event_data: {
+            error: kiotError.message,
+          },
+          created_date: new Date(),
+        },
+      });
+      throw kiotError;
+    }
+  }
+
+  private async pushPaidOrder(orderId: bigint, reuseExisting: boolean) {
+    const order = await this.prisma.product_order.findUnique({
+      where: { id: orderId },
+      include: {
+        orders: {
+          include: {
+            product: true,
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    try {
+      const kiotCustomer = await this.resolveKiotCustomer(order);
+      const kiotCustomerId = kiotCustomer.id;
+      const kiotCustomerCode = kiotCustomer.code;
+
+      const validOrderItems = order.orders.filter(
+        (item) => item.product && item.product.kiotviet_id,
+      );
+
+      if (validOrderItems.length === 0) {
+        throw new Error('No valid products found for KiotViet sync');
+      }
+
+      const kiotOrderItems = validOrderItems.map((orderItem) => ({
+        productId: Number(orderItem.product!.kiotviet_id),
+        productCode: orderItem.product!.kiotviet_code!,
+        productName:
+          orderItem.product!.title ||
+          orderItem.product!.kiotviet_name ||
+          'Sản phẩm',
+        quantity: orderItem.quantity!,
+        price: Number(
+          orderItem.unit_price ?? orderItem.product!.kiotviet_price ?? 0,
+        ),
+      }));
+
+      const fullAddress = [
+        order.detailed_address,
+        order.ward,
+        order.district,
+        order.province,
+      ]
+        .filter(Boolean)
+        .join(', ');
+
+      const marker = this.orderMarker(order);
+      const kiotOrder = await this.findOrCreateKiotOrder(
+        kiotCustomerId,
+        marker,
+        reuseExisting,
+        () =>
+          this.kiotVietService.createOrder({
+            customerId: kiotCustomerId,
+            customerName: order.full_name ?? '',
+            items: kiotOrderItems,
+            total: Number(order.total),
+            discount: Number(order.discount_amount ?? 0),
+            description: `${
+              order.note
+                ? `${order.note}`
+                : `Đơn hàng được tạo tự động từ website`
+            } ${marker}`,
+          }),
+      );
+
+      this.logger.log(
+        `✅ Created KiotViet order: ${kiotOrder.code} for customer: ${kiotCustomerId}`,
+      );
+
+      await this.prisma.product_order.update({
+        where: { id: orderId },
+        data: {
+          order_kiot_id: kiotOrder.id,
+          order_kiot_code: kiotOrder.code,
+        },
+      });
+
+      await this.prisma.payment_logs.create({
+        data: {
+          order_id: orderId,
+          event_type: 'KIOTVIET_SYNC_SUCCESS',
+          event_data: {
+            kiotCustomerId,
+            kiotCustomerCode,
+            kiotOrder,
+            items: kiotOrderItems,
+            deliveryInfo: {
+              receiver: order.full_name,
+              contactNumber: order.phone,
+              address: fullAddress,
+            },
+            validItemsCount: validOrderItems.length,
+            totalItemsCount: order.orders.length,
+          },
+          created_date: new Date(),
+          ip_address: 'KIOTVIET_API',
+          user_agent: 'WEBHOOK_SYNC',
+        },
+      });
+
+      return kiotOrder;
+    } catch (kiotError) {
+      this.logger.error('Failed to sync with KiotViet:', kiotError);
+
+      await this.prisma.payment_logs.create({
+        data: {
+          order_id: orderId,
+          event_type: 'KIOTVIET_SYNC_ERROR',
+          event_data: {
+            error: kiotError.message,
+            orderData: {
+              customerName: order.full_name,
+              customerPhone: order.phone,
+              itemsCount: order.orders.length,
+            },
+          },
+          created_date: new Date(),
+          ip_address: 'KIOTVIET_API',
+          user_agent: 'WEBHOOK_ERROR',
+        },
+      });
+      throw kiotError;
+    }
+  }
+
+  // Lấy khách hàng KiotViet cho đơn: ưu tiên tài khoản đã liên kết, sau đó
+  // tìm theo số điện thoại, cuối cùng mới tạo mới. Dùng chung cho khách vãng lai.
+  private async resolveKiotCustomer(order: {
+    id: bigint;
+    full_name: string | null;
+    phone: string | null;
+    email: string | null;
+    detailed_address: string | null;
+    province: string | null;
+    district: string | null;
+    ward: string | null;
+    kiotviet_customer_id: number | null;
+  }): Promise<{ id: number; code: string }> {
+    const phone = normalizePhone(order.phone ?? '');
+    if (!order.full_name || !phone) {
+      throw new Error('Missing required customer information (name or phone)');
+    }
+
+    // Chỉ so theo trường có giá trị: { email: undefined } thành {} và khớp
+    // mọi tài khoản.
+    const identity: Array<Record<string, any>> = [
+      { phone: { in: phoneVariants(phone) } },
+    ];
+    if (order.email) identity.push({ email: order.email });
+
+    const clientUser = await this.prisma.client_user.findFirst({
+      where: { OR: identity },
+    });
+
+    let customer: { id: number; code: string };
+
+    if (clientUser?.kiotviet_customer_id) {
+      customer = {
+        id: clientUser.kiotviet_customer_id,
+        code: clientUser.kiot_code || '',
+      };
+    } else if (order.kiotviet_customer_id) {
+      customer = { id: order.kiotviet_customer_id, code: '' };
+    } else {
+      const existing =
+        await this.kiotVietService.checkCustomerExistsByPhone(phone);
+
+      const kiotCustomer = existing.exists
+        ? existing.customer
+        : await this.kiotVietService.createCustomer({
+            name: order.full_name,
+            phone,
+            email: order.email || undefined,
+            address: order.detailed_address || undefined,
+            province: order.province || undefined,
+            ward: order.ward || undefined,
+            district: order.district || undefined,
+            clientId: clientUser?.client_id,
+          });
+
+      customer = { id: kiotCustomer.id, code: kiotCustomer.code };
+    }
+
+    if (clientUser && !clientUser.kiotviet_customer_id) {
+      await this.prisma.client_user.update({
+        where: { client_id: clientUser.client_id },
+        data: {
+          kiotviet_customer_id: customer.id,
+          kiot_code: customer.code,
+        },
+      });
+    }
+
+    if (order.kiotviet_customer_id !== customer.id) {
+      await this.prisma.product_order.update({
+        where: { id: order.id },
+        data: { kiotviet_customer_id: customer.id },
+      });
+    }
+
+    return customer;
+  }
+}
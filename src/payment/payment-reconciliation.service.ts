@@ -0,0 +1,198 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { SepayService } from './sepay.service';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { OrderStateService } from '../order/order-state.service';
+import { OrderStatus } from '../order/order-status';
+
+/**
+ * Đối soát định kỳ đơn chuyển khoản (sepay_bank) còn PENDING phòng khi
+ * webhook SePay bị mất. Giao dịch khớp được đưa qua đúng luồng webhook
+ * (payment_webhooks + handleWebhook) nên không bị xử lý hai lần.
+ * Đơn quá hạn không có giao dịch sẽ bị huỷ.
+ *
+ * ENV:
+ *   SEPAY_RECONCILE_ENABLED=false        // tắt job
+ *   SEPAY_PENDING_EXPIRE_MINUTES=60      // thời gian chờ chuyển khoản
+ *   SEPAY_RECONCILE_TRANSACTION_LIMIT=200
+ */
+@Injectable()
+export class PaymentReconciliationService {
+  private readonly logger = new Logger(PaymentReconciliationService.name);
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private sepayService: SepayService,
+    private paymentWebhookService: PaymentWebhookService,
+    private orderStateService: OrderStateService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_5_MINUTES, { name: 'sepay-reconciliation' })
+  async handleScheduledReconciliation() {
+    if (this.configService.get('SEPAY_RECONCILE_ENABLED') === 'false') {
+      return;
+    }
+
+    if (this.running) {
+      this.logger.log('Previous reconciliation still running, skipping');
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.reconcilePendingOrders();
+      await this.cleanupExpiredPendingOrders();
+    } catch (error) {
+      this.logger.error(`Reconciliation failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async reconcilePendingOrders() {
+    const pendingOrders = await this.prisma.product_order.findMany({
+      where: {
+        payment_method: 'sepay_bank',
+        payment_status: { in: ['PENDING', 'PARTIALLY_PAID'] },
+      },
+      select: {
+        id: true,
+        total: true,
+        payment_status: true,
+        created_date: true,
+      },
+    });
+
+    if (pendingOrders.length === 0) {
+      return { matched: 0, expired: 0 };
+    }
+
+    const transactions = await this.sepayService.fetchRecentTransactions(
+      Number(
+        this.configService.get('SEPAY_RECONCILE_TRANSACTION_LIMIT') ?? 200,
+      ),
+    );
+
+    const expireMinutes = Number(
+      this.configService.get('SEPAY_PENDING_EXPIRE_MINUTES') ?? 60,
+    );
+    const expireBefore = new Date(Date.now() - expireMinutes * 60 * 1000);
+
+    let matched = 0;
+    let expired = 0;
+
+    for (const order of pendingOrders) {
+      const orderId = order.id.toString();
+      // Một đơn có thể được chuyển khoản nhiều lần (chuyển thiếu rồi bù).
+      const orderTransactions = transactions.filter((tx: any) =>
+        this.matchesOrder(tx, orderId),
+      );
+
+      for (const transaction of orderTransactions) {
+        const result = await this.paymentWebhookService.receiveSepayWebhook(
+          this.toWebhookPayload(transaction),
+        );
+        if (result.duplicate) continue;
+
+        await this.logDecision(order.id, 'RECONCILE_MATCHED', {
+          transactionId: transaction.id,
+          amount: parseFloat(transaction.amount_in),
+          orderTotal: Number(order.total),
+          result,
+        });
+
+        matched++;
+      }
+
+      if (orderTransactions.length > 0) continue;
+
+      // Đơn đã nhận một phần tiền thì không tự huỷ, để admin xử lý.
+      if (
+        order.payment_status === 'PENDING' &&
+        order.created_date &&
+        order.created_date < expireBefore
+      ) {
+        const { changed } = await this.orderStateService.tryTransition(
+          order.id,
+          OrderStatus.CANCELLED,
+          {
+            actor: 'SYSTEM_RECONCILE',
+            source: 'RECONCILIATION',
+            note: `Quá ${expireMinutes} phút chưa nhận được chuyển khoản`,
+            data: { payment_status: 'EXPIRED' },
+          },
+        );
+
+        if (changed) {
+          await this.logDecision(order.id, 'RECONCILE_EXPIRED', {
+            createdDate: order.created_date,
+            expireMinutes,
+          });
+          expired++;
+        }
+      }
+    }
+
+    this.logger.log(
+      `Reconciled ${pendingOrders.length} pending orders: ${matched} matched, ${expired} expired`,
+    );
+
+    return { matched, expired };
+  }
+
+  async cleanupExpiredPendingOrders() {
+    const { count } = await this.prisma.pending_orders.deleteMany({
+      where: { expired_at: { lt: new Date() } },
+    });
+
+    if (count > 0) {
+      this.logger.log(`Removed ${count} expired pending_orders`);
+    }
+
+    return count;
+  }
+
+  // "Don Hang 12" không được khớp nhầm với đơn 123.
+  private matchesOrder(transaction: any, orderId: string): boolean {
+    const pattern = new RegExp(
+      `SEVQR Thanh Toan Don Hang ${orderId}(?!\\d)`,
+      'i',
+    );
+    return (
+      pattern.test(transaction.transaction_content || '') &&
+      parseFloat(transaction.amount_in) > 0
+    );
+  }
+
+  // Chuyển giao dịch từ API SePay sang đúng định dạng payload webhook.
+  private toWebhookPayload(transaction: any) {
+    return {
+      id: Number(transaction.id),
+      gateway: transaction.bank_brand_name,
+      transactionDate: transaction.transaction_date,
+      accountNumber: transaction.account_number,
+      transferType: 'in',
+      transferAmount: parseFloat(transaction.amount_in),
+      content: transaction.transaction_content,
+      referenceCode: transaction.reference_number,
+      source: 'RECONCILIATION',
+    };
+  }
+
+  private async logDecision(orderId: bigint, eventType: string, data: any) {
+    await this.prisma.payment_logs.create({
+      data: {
+        order_id: orderId,
+        event_type: eventType,
+        event_data: data,
+        created_date: new Date(),
+        ip_address: 'SYSTEM',
+        user_agent: 'SEPAY_RECONCILIATION',
+      },
+    });
+  }
+}
@@ -0,0 +1,179 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentService } from './payment.service';
+
+/**
+ * Lưu mọi lần SePay gọi webhook vào payment_webhooks trước khi xử lý.
+ * webhook_id = "sepay_<id giao dịch>" nên SePay gửi lại cùng giao dịch
+ * sẽ bị chặn bởi unique key thay vì xử lý hai lần.
+ *
+ * status: RECEIVED -> PROCESSED | IGNORED | FAILED
+ */
+@Injectable()
+export class PaymentWebhookService {
+  private readonly logger = new Logger(PaymentWebhookService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private paymentService: PaymentService,
+  ) {}
+
+  async receiveSepayWebhook(webhookData: any) {
+    const webhookId = this.buildWebhookId(webhookData);
+
+    const existing = await this.prisma.payment_webhooks.findUnique({
+      where: { webhook_id: webhookId },
+    });
+
+    if (existing?.processed) {
+      this.logger.log(`Duplicate SePay webhook ${webhookId}, skipping`);
+      return { success: true, duplicate: true };
+    }
+
+    let record = existing;
+    if (!record) {
+      try {
+        record = await this.prisma.payment_webhooks.create({
+          data: {
+            webhook_id: webhookId,
+            provider: 'sepay',
+            order_code: this.extractOrderCode(webhookData?.content),
+            transaction_id:
+              webhookData?.id !== undefined ? String(webhookData.id) : null,
+            status: 'RECEIVED',
+            amount: BigInt(
+              Math.round(Number(webhookData?.transferAmount) || 0),
+            ),
+            gateway_code: webhookData?.gateway || null,
+            signature: 'apikey',
+            raw_data: webhookData ?? {},
+          },
+        });
+      } catch (error) {
+        // Hai lần gửi trùng đến cùng lúc: lần sau dừng ở đây.
+        if (error.code === 'P2002') {
+          return { success: true, duplicate: true };
+        }
+        throw error;
+      }
+    }
+
+    return this.process(record);
+  }
+
+  async getWebhooks(params: {
+    pageSize: number;
+    pageNumber: number;
+    status?: string;
+    processed?: boolean;
+  }) {
+    const { pageSize = 20, pageNumber = 0, status, processed } = params;
+
+    const where: any = {};
+    if (status) where.status = status;
+    if (processed !== undefined) where.processed = processed;
+
+    const [total, webhooks] = await Promise.all([
+      this.prisma.payment_webhooks.count({ where }),
+      this.prisma.payment_webhooks.findMany({
+        where,
+        orderBy: [{ id: 'desc' }],
+        skip: pageNumber * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      content: webhooks.map((w) => this.serialize(w)),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      size: pageSize,
+      number: pageNumber,
+    };
+  }
+
+  async replay(id: number) {
+    const record = await this.prisma.payment_webhooks.findUnique({
+      where: { id: BigInt(id) },
+    });
+
+    if (!record) {
+      throw new NotFoundException(`Webhook với ID ${id} không tồn tại`);
+    }
+
+    this.logger.log(`Replaying webhook ${record.webhook_id}`);
+    const result = await this.process(record);
+
+    return {
+      success: result.success,
+      data: result,
+      message: result.success
+        ? 'Xử lý lại webhook thành công'
+        : `Xử lý lại webhook thất bại: ${result.message}`,
+    };
+  }
+
+  private async process(record: any) {
+    let result: any;
+    try {
+      result = await this.paymentService.handleWebhook(record.raw_data);
+    } catch (error) {
+      result = { success: false, message: error.message };
+    }
+
+    // success nhưng không có orderId: giao dịch ra, không khớp đơn, đơn đã trả...
+    const ignored = result.success && !result.orderId;
+
+    await this.prisma.payment_webhooks.update({
+      where: { id: record.id },
+      data: {
+        processed: !!result.success,
+        processed_at: result.success ? new Date() : null,
+        status: result.success ? (ignored ? 'IGNORED' : 'PROCESSED') : 'FAILED',
+        error_message: result.success
+          ? null
+          : result.error || result.message || null,
+        updated_date: new Date(),
+      },
+    });
+
+    return result;
+  }
+
+  private buildWebhookId(webhookData: any): string {
+    if (webhookData?.id !== undefined && webhookData?.id !== null) {
+      return `sepay_${webhookData.id}`;
+    }
+
+    // Không có id giao dịch: dùng hash payload để vẫn chống trùng.
+    const hash = createHash('sha256')
+      .update(JSON.stringify(webhookData ?? {}))
+      .digest('hex');
+    return `sepay_hash_${hash}`;
+  }
+
+  private extractOrderCode(content: string | undefined): string {
+    const match = (content || '').match(/SEVQR Thanh Toan Don Hang (\d+)/i);
+    return match ? match[1] : '';
+  }
+
+  private serialize(webhook: any) {
+    return {
+      id: Number(webhook.id),
+      webhook_id: webhook.webhook_id,
+      provider: webhook.provider,
+      order_code: webhook.order_code,
+      transaction_id: webhook.transaction_id,
+      status: webhook.status,
+      amount: Number(webhook.amount),
+      gateway_code: webhook.gateway_code,
+      processed: webhook.processed,
+      processed_at: webhook.processed_at,
+      error_message: webhook.error_message,
+      raw_data: webhook.raw_data,
+      created_date: webhook.created_date,
+      updated_date: webhook.updated_date,
+    };
+  }
+}
@@ -11,12 +11,29 @@ import {
   BadRequestException,
   UsePipes,
   ValidationPipe,
+  UseGuards,
+  Query,
 } from '@nestjs/common';
 import { PaymentService } from './payment.service';
 import { SepayService } from './sepay.service';
-import { CreatePaymentDto } from './dto/create-payment.dto';
+import {
+  AllocateTransactionDto,
+  CreatePaymentDto,
+  TrackOrderDto,
+} from './dto/create-payment.dto';
 import { ConfigService } from '@nestjs/config';
 import { Public } from '../auth/public.decorator';
+import { CurrentSiteCode } from '../common/decorators/site-code.decorator';
+import { PricingService } from '../pricing/pricing.service';
+import { QuoteCartDto } from '../pricing/dto/quote-cart.dto';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
+import { SepayWebhookGuard } from '../auth/sepay-webhook.guard';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { CurrentUser } from '../auth/user.decorator';
+import { KiotVietOrderSyncService } from './kiotviet-order-sync.service';
+import { OptionalClientJwtAuthGuard } from '../auth/client-auth/optional-client-jwt-auth.guard';
+import { CurrentClient } from '../auth/client-auth/current-client.decorator';
 
 @Controller('payment')
 export class PaymentController {
@@ -26,12 +43,39 @@ export class PaymentController {
     private paymentService: PaymentService,
     private sepayService: SepayService,
     private configService: ConfigService,
+    private pricingService: PricingService,
+    private paymentWebhookService: PaymentWebhookService,
+    private kiotVietOrderSyncService: KiotVietOrderSyncService,
   ) {}
 
+  @Public()
+  @Post('quote')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async quoteCart(
+    @Body() dto: QuoteCartDto,
+    @CurrentSiteCode() siteCode: string,
+  ) {
+    const quote = await this.pricingService.quote(dto.cartItems, siteCode, {
+      couponCode: dto.couponCode,
+    });
+    return { success: true, ...quote };
+  }
+
   @Post('create')
-  async createPayment(@Body() createPaymentDto: CreatePaymentDto) {
+  @UseGuards(OptionalClientJwtAuthGuard)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async createPayment(
+    @Body() createPaymentDto: CreatePaymentDto,
+    @CurrentSiteCode() siteCode: string,
+    @CurrentClient() client: any,
+  ) {
     try {
-      return await this.paymentService.createOrder(createPaymentDto);
+      return await this.paymentService.createOrder(
+        createPaymentDto,
+        siteCode,
+        client?.clientId ?? null,
+      );
     } catch (error) {
       this.logger.error('Payment creation failed:', error);
       return {
@@ -41,6 +85,14 @@ export class PaymentController {
     }
   }
 
+  @Public()
+  @Post('track')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async trackOrder(@Body() dto: TrackOrderDto) {
+    return this.paymentService.trackOrder(dto.orderCode, dto.phone);
+  }
+
   @Get('status/:orderId')
   @Public()
   async getPaymentStatus(@Param('orderId') orderId: string) {
@@ -70,10 +122,11 @@ export class PaymentController {
 
   @Public()
   @Post('webhook/sepay')
+  @UseGuards(SepayWebhookGuard)
   @HttpCode(HttpStatus.OK)
   async handleSepayWebhook(@Body() webhookData: any, @Req() req: any) {
     try {
-      const result = await this.paymentService.handleWebhook(webhookData);
+      await this.paymentWebhookService.receiveSepayWebhook(webhookData);
       return { success: true };
     } catch (error) {
       this.logger.error('Webhook error:', error.stack);
@@ -81,7 +134,84 @@ export class PaymentController {
     }
   }
 
+  @Get('webhooks')
+  @RequirePermissions(Permission.ORDER_MANAGE)
+  async getWebhooks(
+    @Query('pageSize') pageSize: string = '20',
+    @Query('pageNumber') pageNumber: string = '0',
+    @Query('status') status?: string,
+    @Query('processed') processed?: string,
+  ) {
+    return this.paymentWebhookService.getWebhooks({
+      pageSize: parseInt(pageSize),
+      pageNumber: parseInt(pageNumber),
+      status,
+      processed: processed !== undefined ? processed === 'true' : undefined,
+    });
+  }
+
+  @Post('webhooks/:id/replay')
+  @RequirePermissions(Permission.ORDER_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async replayWebhook(@Param('id') id: string) {
+    return this.paymentWebhookService.replay(+id);
+  }
+
+  @Get('transactions')
+  @RequirePermissions(Permission.ORDER_MANAGE)
+  async getTransactions(
+    @Query('pageSize') pageSize: string = '20',
+    @Query('pageNumber') pageNumber: string = '0',
+    @Query('status') status?: string,
+    @Query('mismatched') mismatched?: string,
+  ) {
+    return this.paymentService.getTransactions({
+      pageSize: parseInt(pageSize),
+      pageNumber: parseInt(pageNumber),
+      status,
+      mismatched: mismatched === 'true',
+    });
+  }
+
+  @Post('transactions/:id/allocate')
+  @RequirePermissions(Permission.ORDER_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async allocateTransaction(
+    @Param('id') id: string,
+    @Body() dto: AllocateTransactionDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.paymentService.allocateTransaction(
+      +id,
+      dto.orderId,
+      `ADMIN:${user?.userId ?? 'unknown'}`,
+    );
+  }
+
+  @Get('kiotviet-jobs')
+  @RequirePermissions(Permission.ORDER_MANAGE)
+  async getKiotVietJobs(
+    @Query('pageSize') pageSize: string = '20',
+    @Query('pageNumber') pageNumber: string = '0',
+    @Query('status') status?: string,
+  ) {
+    return this.kiotVietOrderSyncService.getJobs({
+      pageSize: parseInt(pageSize),
+      pageNumber: parseInt(pageNumber),
+      status,
+    });
+  }
+
+  @Post('kiotviet-jobs/:id/retry')
+  @RequirePermissions(Permission.ORDER_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async retryKiotVietJob(@Param('id') id: string) {
+    return this.kiotVietOrderSyncService.retry(+id);
+  }
+
   @Get('test-connection')
+  @RequirePermissions(Permission.ORDER_MANAGE)
   async testConnection() {
     const result = await this.sepayService.testConnection();
     this.logger.log('Test connection result:', result);
@@ -89,6 +219,7 @@ export class PaymentController {
   }
 
   @Get('validate-token')
+  @RequirePermissions(Permission.ORDER_MANAGE)
   async validateToken() {
     const isValid = await this.sepayService.validateApiToken();
     return {
@@ -98,6 +229,7 @@ export class PaymentController {
   }
 
   @Get('debug-config')
+  @RequirePermissions(Permission.ORDER_MANAGE)
   async debugConfig() {
     return {
       baseUrl: this.configService.get('SEPAY_BASE_URL'),
@@ -128,13 +260,22 @@ export class PaymentController {
   }
 
   @Post('create-cod-order')
+  @UseGuards(OptionalClientJwtAuthGuard)
   @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
-  async createCODOrder(@Body() createPaymentDto: CreatePaymentDto) {
+  async createCODOrder(
+    @Body() createPaymentDto: CreatePaymentDto,
+    @CurrentSiteCode() siteCode: string,
+    @CurrentClient() client: any,
+  ) {
     try {
       if (!createPaymentDto.amounts) {
         throw new BadRequestException('Missing amounts data');
       }
-      return await this.paymentService.createCODOrder(createPaymentDto);
+      return await this.paymentService.createCODOrder(
+        createPaymentDto,
+        siteCode,
+        client?.clientId ?? null,
+      );
     } catch (error) {
       this.logger.error('COD order creation failed:', error);
       throw new BadRequestException(
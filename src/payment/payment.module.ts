@@ -4,9 +4,15 @@ import { HttpModule } from '@nestjs/axios';
 import { PaymentController } from './payment.controller';
 import { PaymentService } from './payment.service';
 import { SepayService } from './sepay.service';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { PaymentReconciliationService } from './payment-reconciliation.service';
+import { KiotVietOrderSyncService } from './kiotviet-order-sync.service';
 import { KiotVietService } from '../kiotviet/kiotviet.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { CartModule } from '../cart/cart.module';
+import { PricingModule } from '../pricing/pricing.module';
+import { CouponModule } from '../coupon/coupon.module';
+import { InventoryModule } from '../inventory/inventory.module';
 
 @Module({
   imports: [
@@ -17,9 +23,18 @@ import { CartModule } from '../cart/cart.module';
     }),
     PrismaModule,
     CartModule,
+    PricingModule,
+    CouponModule,
+    InventoryModule,
   ],
   controllers: [PaymentController],
-  providers: [PaymentService, SepayService],
+  providers: [
+    PaymentService,
+    SepayService,
+    PaymentWebhookService,
+    PaymentReconciliationService,
+    KiotVietOrderSyncService,
+  ],
   exports: [PaymentService, SepayService],
 })
 export class PaymentModule {}
@@ -1,9 +1,29 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { SepayService } from './sepay.service';
 import { CreatePaymentDto } from './dto/create-payment.dto';
-import { KiotVietService } from 'src/kiotviet/kiotviet.service';
 import { CartService } from '../cart/cart.service';
+import { PricingService } from '../pricing/pricing.service';
+import {
+  generateOrderCode,
+  normalizePhone,
+  phoneVariants,
+} from '../utils/helper';
+import { CouponService } from '../coupon/coupon.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { createHash } from 'crypto';
+import { OrderStateService } from '../order/order-state.service';
+import { OrderStatus } from '../order/order-status';
+import { NotificationService } from '../notification/notification.service';
+import { OrderEmailType } from '../notification/email-templates';
+import { KiotVietOrderSyncService } from './kiotviet-order-sync.service';
+import { WebhookDispatcherService } from '../webhook-subscription/webhook-dispatcher.service';
+import { WebhookEvent } from '../webhook-subscription/webhook-events';
 
 @Injectable()
 export class PaymentService {
@@ -12,115 +32,174 @@ export class PaymentService {
   constructor(
     private prisma: PrismaService,
     private sepayService: SepayService,
-    private kiotVietService: KiotVietService,
     private cartService: CartService,
+    private pricingService: PricingService,
+    private couponService: CouponService,
+    private inventoryService: InventoryService,
+    private orderStateService: OrderStateService,
+    private notificationService: NotificationService,
+    private kiotVietOrderSyncService: KiotVietOrderSyncService,
+    private webhookDispatcher: WebhookDispatcherService,
   ) {}
 
-  async createOrder(createPaymentDto: CreatePaymentDto) {
+  // clientId: khách đã đăng nhập (token client), null = khách vãng lai.
+  // Thông tin người nhận luôn lấy từ CustomerInfoDto.
+  async createOrder(
+    createPaymentDto: CreatePaymentDto,
+    siteCode: string = 'dieptra',
+    clientId: number | null = null,
+  ) {
     const { customerInfo, cartItems, paymentMethod, amounts } =
       createPaymentDto;
 
     try {
-      if (paymentMethod === 'sepay_bank') {
-        const cancelledCount = await this.prisma.product_order.updateMany({
+      // Huỷ đơn sepay đang chờ trước khi báo giá để mã giảm giá của đơn cũ
+      // không bị tính vào giới hạn lượt dùng.
+      // Khách vãng lai chỉ đụng tới đơn vãng lai cùng SĐT, không đụng đơn
+      // của tài khoản đã đăng ký; thiếu SĐT thì không huỷ gì (điều kiện
+      // phone: undefined sẽ khớp mọi đơn vãng lai).
+      const guestPhone = normalizePhone(customerInfo?.phone ?? '');
+      if (paymentMethod === 'sepay_bank' && (clientId || guestPhone)) {
+        const pendingOrders = await this.prisma.product_order.findMany({
           where: {
-            OR: [{ phone: customerInfo.phone }, { email: customerInfo.email }],
+            ...(clientId
+              ? { client_user_id: clientId }
+              : { phone: { in: phoneVariants(guestPhone) }, is_guest: true }),
             payment_method: 'sepay_bank',
             payment_status: 'PENDING',
           },
-          data: {
-            status: 'CANCELLED',
-            payment_status: 'CANCELLED',
-            updated_date: new Date(),
-            updated_by: 'SYSTEM_AUTO_CANCEL',
-          },
+          select: { id: true },
         });
 
-        if (cancelledCount.count > 0) {
+        for (const pending of pendingOrders) {
+          await this.orderStateService.tryTransition(
+            pending.id,
+            OrderStatus.CANCELLED,
+            {
+              actor: 'SYSTEM_AUTO_CANCEL',
+              source: 'CHECKOUT',
+              note: 'Khách tạo đơn chuyển khoản mới',
+              data: { payment_status: 'CANCELLED' },
+              notify: false,
+            },
+          );
+        }
+
+        if (pendingOrders.length > 0) {
           this.logger.log(
-            `Cancelled ${cancelledCount.count} pending orders for user: ${customerInfo.phone || customerInfo.email}`,
+            `Cancelled ${pendingOrders.length} pending orders for user: ${customerInfo.phone || customerInfo.email}`,
           );
         }
       }
 
-      const clientUserId = await this.prisma.client_user.findUnique({
-        where: {
-          phone: customerInfo.phone,
-        },
-        select: {
-          client_id: true,
-          full_name: true,
-          phone: true,
-          email: true,
-          province: true,
-          district: true,
-          ward: true,
-          detailed_address: true,
-        },
+      const quote = await this.pricingService.quote(cartItems, siteCode, {
+        couponCode: createPaymentDto.couponCode,
+        clientUserId: clientId,
+        phone: customerInfo.phone,
       });
+      this.pricingService.assertMatchesClient(quote, cartItems, amounts?.total);
 
-      const order = await this.prisma.product_order.create({
-        data: {
-          client_user_id: clientUserId?.client_id,
-          total: BigInt(amounts.total),
-          created_date: new Date(),
-          // full_name: customerInfo.fullName,
-          // email: customerInfo.email,
-          // phone: customerInfo.phone,
-          full_name: clientUserId?.full_name,
-          email: clientUserId?.email,
-          phone: clientUserId?.phone,
-          address: customerInfo.address,
-          detailed_address: customerInfo.detailedAddress,
-          province: customerInfo.province,
-          district: customerInfo.district,
-          ward: customerInfo.ward,
-          note: customerInfo.note || '',
-          payment_method: paymentMethod,
-          payment_status: paymentMethod === 'cod' ? 'PAID' : 'PENDING',
-          status: paymentMethod === 'cod' ? 'CONFIRMED' : 'PENDING',
-        },
-      });
+      const initialStatus =
+        paymentMethod === 'cod' ? OrderStatus.CONFIRMED : OrderStatus.PENDING;
 
-      for (const item of cartItems) {
-        await this.prisma.orders.create({
+      const order = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.product_order.create({
           data: {
-            product_order_id: order.id,
-            product_id: BigInt(item.productId),
-            quantity: item.quantity,
+            client_user_id: clientId,
+            total: BigInt(quote.total),
+            subtotal: BigInt(quote.subtotal),
+            shipping_fee: BigInt(quote.shipping),
+            discount_amount: BigInt(quote.discount),
+            coupon_code: quote.coupon?.code ?? null,
+            site_code: siteCode,
             created_date: new Date(),
-            created_by: 'SYSTEM',
+            order_code: generateOrderCode(siteCode === 'lermao' ? 'LM' : 'DT'),
+            is_guest: !clientId,
+            full_name: customerInfo.fullName,
+            email: customerInfo.email,
+            phone: customerInfo.phone,
+            address: customerInfo.address,
+            detailed_address: customerInfo.detailedAddress,
+            province: customerInfo.province,
+            district: customerInfo.district,
+            ward: customerInfo.ward,
+            note: customerInfo.note || '',
+            payment_method: paymentMethod,
+            payment_status: paymentMethod === 'cod' ? 'PAID' : 'PENDING',
+            status: initialStatus,
           },
         });
-      }
 
-      if (clientUserId?.client_id) {
-        await this.cartService.clearCart(clientUserId.client_id);
-        this.logger.log(
-          `Cart cleared for client_id: ${clientUserId.client_id}`,
+        await this.orderStateService.recordCreated(
+          created.id,
+          initialStatus,
+          'CUSTOMER',
+          tx,
+        );
+
+        for (const line of quote.items) {
+          await tx.orders.create({
+            data: {
+              product_order_id: created.id,
+              product_id: BigInt(line.productId),
+              quantity: line.quantity,
+              unit_price: line.unitPrice,
+              created_date: new Date(),
+              created_by: 'SYSTEM',
+            },
+          });
+        }
+
+        await this.inventoryService.reserveStock(quote.items, tx);
+
+        if (quote.coupon) {
+          await this.couponService.redeem(
+            quote.coupon,
+            created.id,
+            {
+              clientUserId: clientId,
+              phone: customerInfo.phone,
+            },
+            tx,
+          );
+        }
+
+        await this.notificationService.enqueueOrderEmail(
+          created.id,
+          OrderEmailType.ORDER_PLACED,
+          tx,
         );
+
+        return created;
+      });
+
+      if (clientId) {
+        await this.cartService.clearCart(clientId);
+        this.logger.log(`Cart cleared for client_id: ${clientId}`);
       }
 
       await this.logPaymentEvent(Number(order.id), 'ORDER_CREATED', {
         customerInfo,
         cartItems,
         amounts,
+        pricing: quote,
       });
 
       let qrCodeUrl = '';
       if (paymentMethod === 'sepay_bank') {
         qrCodeUrl = this.sepayService.generateQRCode(
           order.id.toString(),
-          amounts.total,
+          quote.total,
         );
       }
 
       return {
         success: true,
         orderId: order.id.toString(),
+        orderCode: order.order_code,
         qrCodeUrl,
         paymentMethod,
-        total: amounts.total,
+        total: quote.total,
       };
     } catch (error) {
       this.logger.error('Failed to create order:', error);
@@ -128,191 +207,120 @@ export class PaymentService {
     }
   }
 
-  async createCODOrder(createPaymentDto: CreatePaymentDto) {
+  async createCODOrder(
+    createPaymentDto: CreatePaymentDto,
+    siteCode: string = 'dieptra',
+    clientId: number | null = null,
+  ) {
     const { customerInfo, cartItems, amounts } = createPaymentDto;
 
     if (!amounts || !amounts.total) {
       throw new BadRequestException('Invalid amounts data');
     }
 
-    const clientUserId = await this.prisma.client_user.findUnique({
-      where: {
-        phone: customerInfo.phone,
-      },
-      select: {
-        client_id: true,
-        full_name: true,
-        phone: true,
-        email: true,
-        province: true,
-        district: true,
-        ward: true,
-        detailed_address: true,
-      },
+    const quote = await this.pricingService.quote(cartItems, siteCode, {
+      couponCode: createPaymentDto.couponCode,
+      clientUserId: clientId,
+      phone: customerInfo.phone,
     });
+    this.pricingService.assertMatchesClient(quote, cartItems, amounts.total);
 
     try {
-      const order = await this.prisma.product_order.create({
-        data: {
-          client_user_id: clientUserId?.client_id,
-          total: BigInt(amounts.total),
-          created_date: new Date(),
-          // full_name: customerInfo.fullName,
-          // email: customerInfo.email,
-          // phone: customerInfo.phone,
-          full_name: clientUserId?.full_name,
-          email: clientUserId?.email,
-          phone: clientUserId?.phone,
-          address: customerInfo.address,
-          detailed_address: customerInfo.detailedAddress,
-          province: customerInfo.province,
-          district: customerInfo.district,
-          ward: customerInfo.ward,
-          note: customerInfo.note || '',
-          payment_method: 'cod',
-          payment_status: 'COD',
-          status: 'CREATED ORDER',
-        },
-      });
-
-      for (const item of cartItems) {
-        await this.prisma.orders.create({
+      const order = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.product_order.create({
           data: {
-            product_order_id: order.id,
-            product_id: BigInt(item.productId),
-            quantity: item.quantity,
+            client_user_id: clientId,
+            total: BigInt(quote.total),
+            subtotal: BigInt(quote.subtotal),
+            shipping_fee: BigInt(quote.shipping),
+            discount_amount: BigInt(quote.discount),
+            coupon_code: quote.coupon?.code ?? null,
+            site_code: siteCode,
             created_date: new Date(),
-            created_by: 'SYSTEM',
+            order_code: generateOrderCode(siteCode === 'lermao' ? 'LM' : 'DT'),
+            is_guest: !clientId,
+            full_name: customerInfo.fullName,
+            email: customerInfo.email,
+            phone: customerInfo.phone,
+            address: customerInfo.address,
+            detailed_address: customerInfo.detailedAddress,
+            province: customerInfo.province,
+            district: customerInfo.district,
+            ward: customerInfo.ward,
+            note: customerInfo.note || '',
+            payment_method: 'cod',
+            payment_status: 'COD',
+            status: OrderStatus.CONFIRMED,
           },
         });
-      }
 
-      if (clientUserId?.client_id) {
-        await this.cartService.clearCart(clientUserId.client_id);
-        this.logger.log(
-          `Cart cleared for client_id: ${clientUserId.client_id} after COD order`,
+        await this.orderStateService.recordCreated(
+          created.id,
+          OrderStatus.CONFIRMED,
+          'CUSTOMER',
+          tx,
         );
-      }
-
-      await this.logPaymentEvent(Number(order.id), 'COD_ORDER_CREATED', {
-        customerInfo,
-        cartItems,
-        amounts,
-      });
 
-      try {
-        const orderId = Number(order.id);
-
-        const clientUser = await this.prisma.client_user.findUnique({
-          where: { email: customerInfo.email },
-        });
-
-        if (!clientUser?.kiotviet_customer_id) {
-          throw new Error('KiotViet customer not found');
+        for (const line of quote.items) {
+          await tx.orders.create({
+            data: {
+              product_order_id: created.id,
+              product_id: BigInt(line.productId),
+              quantity: line.quantity,
+              unit_price: line.unitPrice,
+              created_date: new Date(),
+              created_by: 'SYSTEM',
+            },
+          });
         }
 
-        const orderData = await this.prisma.product_order.findUnique({
-          where: { id: order.id },
-          include: {
-            orders: {
-              include: {
-                product: true,
-              },
-            },
-          },
-        });
+        await this.inventoryService.reserveStock(quote.items, tx);
 
-        if (!orderData) {
-          throw new Error('Order not found');
+        if (quote.coupon) {
+          await this.couponService.redeem(
+            quote.coupon,
+            created.id,
+            {
+              clientUserId: clientId,
+              phone: customerInfo.phone,
+            },
+            tx,
+          );
         }
 
-        const validOrderItems = orderData.orders.filter(
-          (item) =>
-            item.product &&
-            item.product.kiotviet_id &&
-            item.product.kiotviet_code &&
-            item.quantity,
+        await this.notificationService.enqueueOrderEmail(
+          created.id,
+          OrderEmailType.ORDER_PLACED,
+          tx,
         );
 
-        if (validOrderItems.length === 0) {
-          throw new Error('No valid products');
-        }
+        await this.kiotVietOrderSyncService.enqueue(created.id, tx);
 
-        const kiotOrderItems = validOrderItems.map((item) => ({
-          productId: Number(item.product!.kiotviet_id),
-          productCode: item.product!.kiotviet_code!,
-          productName:
-            item.product!.kiotviet_name || item.product!.title || 'Sản phẩm',
-          quantity: item.quantity!,
-          price: Number(item.product!.kiotviet_price || 0),
-        }));
-
-        const cleanedProvince = orderData.province
-          ? orderData.province.replace(/^(Thành phố|Tỉnh)\s+/i, '').trim()
-          : '';
-
-        const locationName = [cleanedProvince, orderData.district]
-          .filter(Boolean)
-          .join(' - ');
-
-        const kiotOrder = await this.kiotVietService.createCODOrder({
-          customerId: clientUser.kiotviet_customer_id,
-          customerName: orderData.full_name!,
-          items: kiotOrderItems,
-          total: Number(orderData.total),
-          description: orderData.note
-            ? `${orderData.note}`
-            : 'Đơn hàng được tạo tự động từ website',
-          deliveryInfo: {
-            receiver: orderData.full_name!,
-            contactNumber: orderData.phone!,
-            address: orderData.detailed_address || orderData.address || '',
-            locationName: locationName,
-            wardName: orderData.ward || '',
-          },
-        });
-
-        await this.prisma.product_order.update({
-          where: { id: order.id },
-          data: {
-            order_kiot_id: kiotOrder.id,
-            order_kiot_code: kiotOrder.code,
-          },
-        });
+        return created;
+      });
 
-        this.logger.log(`✅ Created KiotViet COD order: ${kiotOrder.code}`);
+      if (clientId) {
+        await this.cartService.clearCart(clientId);
+        this.logger.log(
+          `Cart cleared for client_id: ${clientId} after COD order`,
+        );
+      }
 
-        await this.prisma.payment_logs.create({
-          data: {
-            order_id: BigInt(orderId),
-            event_type: 'KIOTVIET_COD_SYNC_SUCCESS',
-            event_data: {
-              kiotCustomerId: clientUser.kiotviet_customer_id,
-              kiotOrder,
-            },
-            created_date: new Date(),
-          },
-        });
-      } catch (kiotError) {
-        this.logger.error('KiotViet sync error:', kiotError);
+      await this.logPaymentEvent(Number(order.id), 'COD_ORDER_CREATED', {
+        customerInfo,
+        cartItems,
+        amounts,
+        pricing: quote,
+      });
 
-        await this.prisma.payment_logs.create({
-          data: {
-            order_id: BigInt(Number(order.id)),
-            event_type: 'KIOTVIET_COD_SYNC_ERROR',
-            event_data: {
-              error: kiotError.message,
-            },
-            created_date: new Date(),
-          },
-        });
-      }
+      await this.kiotVietOrderSyncService.process(order.id);
 
       return {
         success: true,
         orderId: order.id.toString(),
+        orderCode: order.order_code,
         paymentMethod: 'cod',
-        total: amounts.total,
+        total: quote.total,
       };
     } catch (error) {
       this.logger.error('Failed to create COD order:', error);
@@ -331,6 +339,7 @@ export class PaymentService {
           payment_status: true,
           status: true,
           total: true,
+          paid_amount: true,
           order_kiot_id: true,
           order_kiot_code: true,
           created_date: true,
@@ -345,17 +354,30 @@ export class PaymentService {
         };
       }
 
+      const total = Number(order.total);
+      const paidAmount = Number(order.paid_amount);
+      const remainingAmount = Math.max(0, total - paidAmount);
+
       return {
         success: true,
         status:
           order.payment_status === 'PAID' ? 'SUCCESS' : order.payment_status,
         orderId: orderId,
         orderKiotCode: order.order_kiot_code,
-        amount: Number(order.total),
+        amount: total,
+        paidAmount,
+        remainingAmount,
+        // Chuyển thiếu: trả QR cho phần còn lại để khách chuyển tiếp.
+        qrCodeUrl:
+          order.payment_status === 'PARTIALLY_PAID'
+            ? this.sepayService.generateQRCode(orderId, remainingAmount)
+            : undefined,
         message:
-          order.payment_status === 'PAID'
+          order.payment_status === 'PAID' || order.payment_status === 'OVERPAID'
             ? 'Payment successful'
-            : 'Payment pending',
+            : order.payment_status === 'PARTIALLY_PAID'
+              ? 'Payment incomplete'
+              : 'Payment pending',
       };
     } catch (error) {
       this.logger.error('Error checking payment status:', error);
@@ -386,6 +408,7 @@ export class PaymentService {
         transactionId: webhookData.id,
         gateway: webhookData.gateway,
         transactionDate: webhookData.transactionDate,
+        referenceCode: webhookData.referenceCode,
       };
 
       if (mappedData.transferType !== 'in') {
@@ -395,247 +418,467 @@ export class PaymentService {
       const orderMatch = mappedData.content.match(
         /SEVQR Thanh Toan Don Hang (\d+)/i,
       );
-      if (!orderMatch) {
-        this.logger.warn('No order ID found in content:', mappedData.content);
-        return { success: true, message: 'No order ID found' };
+
+      const order = orderMatch
+        ? await this.prisma.product_order.findFirst({
+            where: {
+              id: BigInt(orderMatch[1]),
+              payment_method: 'sepay_bank',
+            },
+            select: { id: true, status: true },
+          })
+        : null;
+
+      // Không khớp được đơn (sai nội dung, đơn đã huỷ...): lưu lại để admin gán tay.
+      if (!order || order.status === OrderStatus.CANCELLED) {
+        const note = !orderMatch
+          ? 'Không tìm thấy mã đơn trong nội dung chuyển khoản'
+          : !order
+            ? `Không tìm thấy đơn ${orderMatch[1]}`
+            : `Đơn ${orderMatch[1]} đã bị huỷ`;
+
+        this.logger.warn(`Unmatched transfer: ${note}`);
+        await this.recordUnmatchedTransfer(mappedData, webhookData, note);
+
+        return { success: true, message: 'Unmatched transfer recorded' };
       }
 
-      const orderId = orderMatch[1];
+      return await this.applyTransfer(
+        order.id,
+        mappedData,
+        webhookData,
+        'SEPAY_WEBHOOK',
+      );
+    } catch (error) {
+      this.logger.error('Webhook processing failed:', error.stack);
+      return {
+        success: false,
+        message: 'Webhook processing failed',
+        error: error.message,
+      };
+    }
+  }
 
-      const order = await this.prisma.product_order.findFirst({
-        where: {
-          id: BigInt(orderId),
-          payment_method: 'sepay_bank',
-        },
-        include: {
-          orders: {
-            include: {
-              product: true,
-            },
-          },
-        },
-      });
+  // Cộng dồn các lần chuyển khoản của đơn; đủ tiền thì xác nhận đơn và đẩy
+  // sang KiotViet (chỉ một lần, khi đơn chuyển sang trạng thái đã thanh toán).
+  private async applyTransfer(
+    orderId: bigint,
+    mappedData: any,
+    webhookData: any,
+    actor: string,
+    unmatchedTransactionId?: bigint,
+  ) {
+    const transactionId = this.buildTransactionId(mappedData, webhookData);
 
+    const outcome = await this.prisma.$transaction(async (tx) => {
+      // Khoá dòng đơn trước mọi lần đọc: hai giao dịch cùng đơn đến gần nhau
+      // thì lần sau chờ lần trước commit rồi mới cộng tổng, không cùng thấy
+      // số cũ. Đây phải là câu đầu tiên để snapshot của transaction được lấy
+      // sau khi có khoá.
+      await tx.$queryRaw`SELECT id FROM product_order WHERE id = ${orderId} FOR UPDATE`;
+
+      const order = await tx.product_order.findUnique({
+        where: { id: orderId },
+      });
       if (!order) {
-        return {
-          success: false,
-          message: 'Order not found',
-        };
+        throw new NotFoundException(`Đơn hàng ${orderId} không tồn tại`);
       }
 
-      if (order.payment_status === 'PAID') {
-        return {
-          success: true,
-          message: 'Order already processed',
-        };
-      }
+      if (unmatchedTransactionId) {
+        // Điều kiện UNMATCHED nằm trong transaction: hai lần gán cùng lúc
+        // thì chỉ một lần cập nhật được.
+        const { count } = await tx.payment_transaction.updateMany({
+          where: { id: unmatchedTransactionId, status: 'UNMATCHED' },
+          data: {
+            order_id: orderId,
+            status: 'MATCHED',
+            allocated_by: actor,
+            allocated_at: new Date(),
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException(
+            'Giao dịch đã được gán cho đơn hàng khác',
+          );
+        }
+      } else {
+        const existing = await tx.payment_transaction.findUnique({
+          where: {
+            provider_transaction_id: {
+              provider: 'sepay',
+              transaction_id: transactionId,
+            },
+          },
+        });
+        if (existing) return null;
 
-      if (Number(order.total) !== mappedData.transferAmount) {
-        return {
-          success: false,
-          message: 'Amount mismatch',
-        };
+        await tx.payment_transaction.create({
+          data: {
+            order_id: orderId,
+            transaction_id: transactionId,
+            amount: BigInt(Math.round(mappedData.transferAmount)),
+            content: mappedData.content,
+            gateway: mappedData.gateway || null,
+            reference_code: mappedData.referenceCode || null,
+            transaction_date: mappedData.transactionDate
+              ? String(mappedData.transactionDate)
+              : null,
+            status: 'MATCHED',
+            raw_data: webhookData ?? {},
+          },
+        });
       }
 
-      await this.prisma.product_order.update({
-        where: { id: BigInt(orderId) },
+      const { _sum } = await tx.payment_transaction.aggregate({
+        where: { order_id: orderId, status: 'MATCHED' },
+        _sum: { amount: true },
+      });
+
+      const paidAmount = Number(_sum.amount ?? 0);
+      const total = Number(order.total ?? 0);
+      const paymentStatus =
+        paidAmount < total
+          ? 'PARTIALLY_PAID'
+          : paidAmount > total
+            ? 'OVERPAID'
+            : 'PAID';
+      const wasPaid =
+        order.payment_status !== null &&
+        ['PAID', 'OVERPAID'].includes(order.payment_status);
+
+      await tx.product_order.update({
+        where: { id: orderId },
         data: {
-          payment_status: 'PAID',
-          status: 'CONFIRMED',
+          paid_amount: BigInt(paidAmount),
+          payment_status: paymentStatus,
           updated_date: new Date(),
-          updated_by: 'SEPAY_WEBHOOK',
+          updated_by: actor,
         },
       });
 
-      try {
-        if (!order.full_name || !order.phone) {
-          throw new Error(
-            'Missing required customer information (name or phone)',
-          );
-        }
+      await this.webhookDispatcher.emit(
+        WebhookEvent.PAYMENT_RECEIVED,
+        {
+          orderId: orderId.toString(),
+          orderCode: order.order_code,
+          transactionId,
+          amount: mappedData.transferAmount,
+          paidAmount,
+          total,
+          paymentStatus,
+        },
+        { siteCode: order.site_code, client: tx },
+      );
 
-        const clientUser = await this.prisma.client_user.findFirst({
-          where: {
-            OR: [{ phone: order.phone }, { email: order.email || undefined }],
-          },
-        });
+      if (paymentStatus !== 'PARTIALLY_PAID' && !wasPaid) {
+        await this.orderStateService.transition(
+          orderId,
+          OrderStatus.CONFIRMED,
+          { actor, source: 'PAYMENT', client: tx },
+        );
 
-        let kiotCustomerId: number;
-        let kiotCustomerCode: string;
-
-        if (clientUser && clientUser.kiotviet_customer_id) {
-          kiotCustomerId = clientUser.kiotviet_customer_id;
-          kiotCustomerCode = clientUser.kiot_code || '';
-        } else {
-          const kiotCustomer = await this.kiotVietService.createCustomer({
-            name: order.full_name,
-            phone: order.phone,
-            email: order.email || undefined,
-            address: order.detailed_address || undefined,
-            province: order.province || undefined,
-            ward: order.ward || undefined,
-            district: order.district || undefined,
-            clientId: clientUser?.client_id,
-          });
+        await this.notificationService.enqueueOrderEmail(
+          orderId,
+          OrderEmailType.PAYMENT_RECEIVED,
+          tx,
+        );
 
-          kiotCustomerId = kiotCustomer.id;
-          kiotCustomerCode = kiotCustomer.code;
-
-          if (clientUser) {
-            await this.prisma.client_user.update({
-              where: { client_id: clientUser.client_id },
-              data: {
-                kiotviet_customer_id: kiotCustomerId,
-                kiot_code: kiotCustomerCode,
-              },
-            });
-          }
-        }
+        // Ghi job cùng transaction: KiotViet lỗi thì job sẽ thử lại sau.
+        await this.kiotVietOrderSyncService.enqueue(orderId, tx);
+      }
 
-        // const validOrderItems = order.orders.filter(
-        //   (orderItem) =>
-        //     orderItem.product &&
-        //     orderItem.product.kiotviet_id &&
-        //     orderItem.product.kiotviet_code &&
-        //     orderItem.quantity,
-        // );
+      return { paidAmount, total, paymentStatus, wasPaid };
+    });
 
-        const validOrderItems = order.orders.filter(
-          (item) => item.product && item.product.kiotviet_id,
-        );
+    if (!outcome) {
+      return {
+        success: true,
+        message: 'Transaction already recorded',
+      };
+    }
 
-        if (validOrderItems.length === 0) {
-          throw new Error('No valid products found for KiotViet sync');
-        }
+    const { paidAmount, total, paymentStatus, wasPaid } = outcome;
+    const becamePaid = paymentStatus !== 'PARTIALLY_PAID' && !wasPaid;
 
-        const kiotOrderItems = validOrderItems.map((orderItem) => ({
-          productId: Number(orderItem.product!.kiotviet_id),
-          productCode: orderItem.product!.kiotviet_code!,
-          productName:
-            orderItem.product!.title ||
-            orderItem.product!.kiotviet_name ||
-            'Sản phẩm',
-          quantity: orderItem.quantity!,
-          price: Number(orderItem.product!.kiotviet_price || 0),
-        }));
-
-        // const kiotOrderItems = validOrderItems.map((item) => ({
-        //   productId: Number(item.product!.kiotviet_id),
-        //   productCode: item.product!.kiot_code || '',
-        //   productName: item.product!.title || '',
-        //   quantity: item.quantity || 0,
-        //   price: Number(
-        //     item.product!.new_price || item.product!.old_price || 0,
-        //   ),
-        //   discount: 0,
-        // }));
-
-        const fullAddress = [
-          order.detailed_address,
-          order.ward,
-          order.district,
-          order.province,
-        ]
-          .filter(Boolean)
-          .join(', ');
-
-        const locationName = [order.province, order.district]
-          .filter(Boolean)
-          .join(' - ');
-
-        const kiotOrder = await this.kiotVietService.createOrder({
-          customerId: kiotCustomerId,
-          customerName: order.full_name,
-          items: kiotOrderItems,
-          total: Number(order.total),
-          description: order.note
-            ? `${order.note}`
-            : `Đơn hàng được tạo tự động từ website`,
-        });
+    if (becamePaid) {
+      await this.kiotVietOrderSyncService.process(orderId);
+    }
 
-        this.logger.log(
-          `✅ Created KiotViet order: ${kiotOrder.code} for customer: ${kiotCustomerId}`,
-        );
+    const eventType =
+      paymentStatus === 'PARTIALLY_PAID'
+        ? 'PAYMENT_PARTIAL'
+        : paymentStatus === 'OVERPAID'
+          ? 'PAYMENT_OVERPAID'
+          : 'PAYMENT_SUCCESS';
+
+    await this.prisma.payment_logs.create({
+      data: {
+        order_id: orderId,
+        event_type: eventType,
+        event_data: {
+          ...mappedData,
+          paidAmount,
+          total,
+          remaining: Math.max(0, total - paidAmount),
+          overpaid: Math.max(0, paidAmount - total),
+          actor,
+        },
+        sepay_response: webhookData,
+        created_date: new Date(),
+        ip_address: 'SEPAY_SERVER',
+        user_agent: actor,
+      },
+    });
 
-        await this.prisma.product_order.update({
-          where: { id: BigInt(orderId) },
-          data: {
-            order_kiot_id: kiotOrder.id,
-            order_kiot_code: kiotOrder.code,
-          },
-        });
+    this.logger.log(
+      `Order ${orderId} received ${mappedData.transferAmount}: ${paidAmount}/${total} (${paymentStatus})`,
+    );
+
+    return {
+      success: true,
+      message: becamePaid
+        ? 'Payment processed successfully'
+        : `Payment recorded (${paymentStatus})`,
+      orderId: orderId.toString(),
+      amount: mappedData.transferAmount,
+      paidAmount,
+      paymentStatus,
+    };
+  }
 
-        await this.prisma.payment_logs.create({
-          data: {
-            order_id: BigInt(orderId),
-            event_type: 'KIOTVIET_SYNC_SUCCESS',
-            event_data: {
-              kiotCustomerId,
-              kiotCustomerCode,
-              kiotOrder,
-              items: kiotOrderItems,
-              deliveryInfo: {
-                receiver: order.full_name,
-                contactNumber: order.phone,
-                address: fullAddress,
-              },
-              validItemsCount: validOrderItems.length,
-              totalItemsCount: order.orders.length,
-            },
-            created_date: new Date(),
-            ip_address: 'KIOTVIET_API',
-            user_agent: 'WEBHOOK_SYNC',
+  // Đẩy lại đơn chưa có trên KiotViet (đẩy lần đầu bị lỗi). Dùng cho admin.
+  async pushOrderToKiotViet(orderId: bigint) {
+    const order = await this.prisma.product_order.findUnique({
+      where: { id: orderId },
+      select: {
+        id: true,
+        status: true,
+        payment_method: true,
+        payment_status: true,
+        order_kiot_id: true,
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Đơn hàng ${orderId} không tồn tại`);
+    }
+    if (order.order_kiot_id) {
+      throw new BadRequestException('Đơn hàng đã có trên KiotViet');
+    }
+    if (order.status === OrderStatus.CANCELLED) {
+      throw new BadRequestException('Đơn hàng đã bị huỷ');
+    }
+
+    if (
+      order.payment_method !== 'cod' &&
+      !['PAID', 'OVERPAID'].includes(order.payment_status || '')
+    ) {
+      throw new BadRequestException(
+        'Đơn chuyển khoản chưa thanh toán đủ, chưa thể đẩy sang KiotViet',
+      );
+    }
+
+    const job = await this.kiotVietOrderSyncService.syncNow(order.id);
+
+    if (job.status !== 'SUCCEEDED') {
+      throw new BadRequestException(
+        `Đẩy đơn sang KiotViet thất bại: ${job.last_error ?? job.status}`,
+      );
+    }
+
+    return {
+      success: true,
+      data: {
+        orderKiotId: job.kiotviet_order_id,
+        orderKiotCode: job.kiotviet_order_code,
+      },
+      message: 'Đẩy đơn sang KiotViet thành công',
+    };
+  }
+
+  private async recordUnmatchedTransfer(
+    mappedData: any,
+    webhookData: any,
+    note: string,
+  ) {
+    const transactionId = this.buildTransactionId(mappedData, webhookData);
+
+    const existing = await this.prisma.payment_transaction.findUnique({
+      where: {
+        provider_transaction_id: {
+          provider: 'sepay',
+          transaction_id: transactionId,
+        },
+      },
+    });
+    if (existing) return existing;
+
+    return this.prisma.payment_transaction.create({
+      data: {
+        order_id: null,
+        transaction_id: transactionId,
+        amount: BigInt(Math.round(mappedData.transferAmount)),
+        content: mappedData.content,
+        gateway: mappedData.gateway || null,
+        reference_code: mappedData.referenceCode || null,
+        transaction_date: mappedData.transactionDate
+          ? String(mappedData.transactionDate)
+          : null,
+        status: 'UNMATCHED',
+        note,
+        raw_data: webhookData ?? {},
+      },
+    });
+  }
+
+  private buildTransactionId(mappedData: any, webhookData: any): string {
+    if (
+      mappedData.transactionId !== undefined &&
+      mappedData.transactionId !== null
+    ) {
+      return String(mappedData.transactionId);
+    }
+    if (mappedData.referenceCode) {
+      return `ref_${mappedData.referenceCode}`;
+    }
+    return `hash_${createHash('sha256')
+      .update(JSON.stringify(webhookData ?? {}))
+      .digest('hex')}`;
+  }
+
+  // Danh sách giao dịch cho admin; mismatched = chưa khớp đơn hoặc đơn thiếu/thừa tiền.
+  async getTransactions(params: {
+    pageSize: number;
+    pageNumber: number;
+    status?: string;
+    mismatched?: boolean;
+  }) {
+    const { pageSize = 20, pageNumber = 0, status, mismatched } = params;
+
+    const where: any = {};
+    if (status) where.status = status;
+    if (mismatched) {
+      where.OR = [
+        { status: 'UNMATCHED' },
+        {
+          product_order: {
+            payment_status: { in: ['PARTIALLY_PAID', 'OVERPAID'] },
           },
-        });
-      } catch (kiotError) {
-        this.logger.error('Failed to sync with KiotViet:', kiotError);
+        },
+      ];
+    }
 
-        await this.prisma.payment_logs.create({
-          data: {
-            order_id: BigInt(orderId),
-            event_type: 'KIOTVIET_SYNC_ERROR',
-            event_data: {
-              error: kiotError.message,
-              orderData: {
-                customerName: order.full_name,
-                customerPhone: order.phone,
-                itemsCount: order.orders.length,
-              },
+    const [total, transactions] = await Promise.all([
+      this.prisma.payment_transaction.count({ where }),
+      this.prisma.payment_transaction.findMany({
+        where,
+        include: {
+          product_order: {
+            select: {
+              id: true,
+              order_code: true,
+              full_name: true,
+              phone: true,
+              total: true,
+              paid_amount: true,
+              payment_status: true,
+              status: true,
             },
-            created_date: new Date(),
-            ip_address: 'KIOTVIET_API',
-            user_agent: 'WEBHOOK_ERROR',
           },
-        });
-      }
-
-      await this.prisma.payment_logs.create({
-        data: {
-          order_id: BigInt(orderId),
-          event_type: 'PAYMENT_SUCCESS',
-          event_data: mappedData,
-          sepay_response: webhookData,
-          created_date: new Date(),
-          ip_address: 'SEPAY_SERVER',
-          user_agent: 'SEPAY_WEBHOOK',
         },
-      });
+        orderBy: [{ id: 'desc' }],
+        skip: pageNumber * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      content: transactions.map((t) => ({
+        id: Number(t.id),
+        transaction_id: t.transaction_id,
+        amount: Number(t.amount),
+        content: t.content,
+        gateway: t.gateway,
+        reference_code: t.reference_code,
+        transaction_date: t.transaction_date,
+        status: t.status,
+        note: t.note,
+        allocated_by: t.allocated_by,
+        allocated_at: t.allocated_at,
+        created_date: t.created_date,
+        order: t.product_order
+          ? {
+              id: t.product_order.id.toString(),
+              order_code: t.product_order.order_code,
+              full_name: t.product_order.full_name,
+              phone: t.product_order.phone,
+              total: Number(t.product_order.total ?? 0),
+              paid_amount: Number(t.product_order.paid_amount),
+              payment_status: t.product_order.payment_status,
+              status: t.product_order.status,
+            }
+          : null,
+      })),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      size: pageSize,
+      number: pageNumber,
+    };
+  }
 
-      this.logger.log(`✅ Order ${orderId} payment confirmed successfully`);
-      return {
-        success: true,
-        message: 'Payment processed successfully',
-        orderId,
-        amount: mappedData.transferAmount,
-      };
-    } catch (error) {
-      this.logger.error('Webhook processing failed:', error.stack);
-      return {
-        success: false,
-        message: 'Webhook processing failed',
-        error: error.message,
-      };
+  // Admin gán tay một giao dịch chưa khớp vào đơn chuyển khoản.
+  async allocateTransaction(id: number, orderId: number, actor: string) {
+    const transaction = await this.prisma.payment_transaction.findUnique({
+      where: { id: BigInt(id) },
+    });
+
+    if (!transaction) {
+      throw new NotFoundException(`Giao dịch với ID ${id} không tồn tại`);
+    }
+    if (transaction.status !== 'UNMATCHED') {
+      throw new BadRequestException('Giao dịch đã được gán cho đơn hàng khác');
+    }
+
+    const order = await this.prisma.product_order.findUnique({
+      where: { id: BigInt(orderId) },
+      select: { id: true, status: true, payment_method: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Đơn hàng với ID ${orderId} không tồn tại`);
+    }
+    if (order.payment_method !== 'sepay_bank') {
+      throw new BadRequestException(
+        'Chỉ gán được giao dịch cho đơn thanh toán chuyển khoản',
+      );
+    }
+    if (order.status === OrderStatus.CANCELLED) {
+      throw new BadRequestException('Đơn hàng đã bị huỷ');
     }
+
+    const mappedData = {
+      transferType: 'in',
+      transferAmount: Number(transaction.amount),
+      content: transaction.content || '',
+      transactionId: transaction.transaction_id,
+      gateway: transaction.gateway,
+      transactionDate: transaction.transaction_date,
+      referenceCode: transaction.reference_code,
+    };
+
+    const result = await this.applyTransfer(
+      order.id,
+      mappedData,
+      transaction.raw_data,
+      actor,
+      transaction.id,
+    );
+
+    return {
+      success: true,
+      data: result,
+      message: 'Gán giao dịch cho đơn hàng thành công',
+    };
   }
 
   async getOrderDetails(orderId: string) {
@@ -653,6 +896,7 @@ export class PaymentService {
           district: true,
           ward: true,
           total: true,
+          paid_amount: true,
           payment_status: true,
           status: true,
           payment_method: true,
@@ -698,6 +942,7 @@ export class PaymentService {
           district: order.district,
           ward: order.ward,
           total: Number(order.total),
+          paidAmount: Number(order.paid_amount),
           paymentStatus: order.payment_status,
           status: order.status,
           paymentMethod: order.payment_method,
@@ -716,6 +961,59 @@ export class PaymentService {
     }
   }
 
+  // Tra cứu đơn cho khách (kể cả khách vãng lai) bằng mã đơn + số điện thoại.
+  async trackOrder(orderCode: string, phone: string) {
+    const order = await this.prisma.product_order.findUnique({
+      where: { order_code: orderCode.trim().toUpperCase() },
+      include: {
+        orders: {
+          include: {
+            product: {
+              select: { id: true, title: true, kiotviet_name: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!order || normalizePhone(order.phone || '') !== normalizePhone(phone)) {
+      throw new NotFoundException(
+        'Không tìm thấy đơn hàng với mã và số điện thoại đã nhập',
+      );
+    }
+
+    return {
+      success: true,
+      order: {
+        orderCode: order.order_code,
+        fullName: order.full_name,
+        phone: order.phone,
+        address: order.address,
+        detailedAddress: order.detailed_address,
+        province: order.province,
+        district: order.district,
+        ward: order.ward,
+        subtotal: Number(order.subtotal ?? 0),
+        shippingFee: Number(order.shipping_fee ?? 0),
+        discount: Number(order.discount_amount ?? 0),
+        couponCode: order.coupon_code,
+        total: Number(order.total),
+        paidAmount: Number(order.paid_amount),
+        paymentMethod: order.payment_method,
+        paymentStatus: order.payment_status,
+        status: order.status,
+        orderKiotCode: order.order_kiot_code,
+        createdDate: order.created_date,
+        items: order.orders.map((item) => ({
+          productId: item.product ? Number(item.product.id) : null,
+          title: item.product?.title || item.product?.kiotviet_name || '',
+          quantity: item.quantity,
+          unitPrice: Number(item.unit_price ?? 0),
+        })),
+      },
+    };
+  }
+
   private async logPaymentEvent(
     orderId: number,
     eventType: string,
@@ -63,25 +63,29 @@ export class SepayService {
     return `https://qr.sepay.vn/img?bank=${this.bankName}&acc=${this.bankAccount}&template=compact&amount=${amount}&des=${encodeURIComponent(content)}`;
   }
 
-  async checkTransactions(orderId: string, amount: number): Promise<any> {
-    try {
-      const response = await firstValueFrom(
-        this.httpService.get(`${this.baseUrl}/transactions`, {
-          headers: {
-            Authorization: `Bearer ${this.apiToken}`,
-          },
-          params: {
-            account_number: this.bankAccount,
-            limit: 50,
-          },
-        }),
-      );
+  async fetchRecentTransactions(limit: number = 50): Promise<any[]> {
+    const response = await firstValueFrom(
+      this.httpService.get(`${this.baseUrl}/transactions`, {
+        headers: {
+          Authorization: `Bearer ${this.apiToken}`,
+        },
+        params: {
+          account_number: this.bankAccount,
+          limit,
+        },
+      }),
+    );
 
-      if (response.data.status !== 200) {
-        throw new Error(`SePay API error: ${response.data.error}`);
-      }
+    if (response.data.status !== 200) {
+      throw new Error(`SePay API error: ${response.data.error}`);
+    }
 
-      const transactions = response.data?.transactions || [];
+    return response.data?.transactions || [];
+  }
+
+  async checkTransactions(orderId: string, amount: number): Promise<any> {
+    try {
+      const transactions = await this.fetchRecentTransactions(50);
       const orderContent = `SEVQR Thanh Toan Don Hang ${orderId}`;
 
       const matchingTransaction = transactions.find(
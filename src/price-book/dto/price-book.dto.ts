@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export enum CustomerType {
+  RETAIL = 'RETAIL',
+  WHOLESALE = 'WHOLESALE',
+}
+
+export class UpdatePriceBookSelectionDto {
+  @ApiProperty({
+    description: 'Bảng giá hiển thị trên site (null = giá gốc KiotViet)',
+    required: false,
+    nullable: true,
+    example: 486878,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'ID bảng giá phải là số nguyên' })
+  @Min(1)
+  priceBookId?: number | null;
+
+  @ApiProperty({
+    description: 'Bảng giá sỉ cho khách B2B (null = dùng giá site)',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'ID bảng giá sỉ phải là số nguyên' })
+  @Min(1)
+  wholesalePriceBookId?: number | null;
+}
+
+export class UpdateCustomerTypeDto {
+  @ApiProperty({ enum: CustomerType })
+  @IsEnum(CustomerType, { message: 'Loại khách hàng không hợp lệ' })
+  customerType: CustomerType;
+}
@@ -0,0 +1,106 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { PriceBookService } from './price-book.service';
+import {
+  UpdateCustomerTypeDto,
+  UpdatePriceBookSelectionDto,
+} from './dto/price-book.dto';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
+import { CurrentSiteCode } from '../common/decorators/site-code.decorator';
+import { ClientJwtAuthGuard } from '../auth/client-auth/client-jwt-auth.guard';
+import { CurrentClient } from '../auth/client-auth/current-client.decorator';
+
+@ApiTags('price-books')
+@Controller('price-books')
+export class PriceBookController {
+  constructor(private readonly priceBookService: PriceBookService) {}
+
+  // Client đã đăng nhập: giá theo loại khách (khách sỉ nhận giá sỉ).
+  @Get('client/prices')
+  @UseGuards(ClientJwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Giá sản phẩm theo loại khách đang đăng nhập' })
+  getClientPrices(
+    @Query('productIds') productIds: string = '',
+    @CurrentSiteCode() siteCode: string,
+    @CurrentClient() client: any,
+  ) {
+    const ids = productIds
+      .split(',')
+      .map((id) => parseInt(id, 10))
+      .filter((id) => Number.isInteger(id) && id > 0)
+      .slice(0, 200);
+
+    return this.priceBookService.getClientPrices(
+      ids,
+      siteCode,
+      client.clientId,
+    );
+  }
+
+  @Get()
+  @RequirePermissions(Permission.SITE_CONFIG_MANAGE)
+  @ApiOperation({ summary: 'Bảng giá KiotViet đã đồng bộ' })
+  listPriceBooks() {
+    return this.priceBookService.listPriceBooks();
+  }
+
+  @Get('selection')
+  @RequirePermissions(Permission.SITE_CONFIG_MANAGE)
+  @ApiOperation({ summary: 'Bảng giá site đang dùng' })
+  getSelection(@CurrentSiteCode() siteCode: string) {
+    return this.priceBookService.getSelection(siteCode);
+  }
+
+  @Put('selection')
+  @RequirePermissions(Permission.SITE_CONFIG_MANAGE)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Chọn bảng giá (lẻ / sỉ) cho site' })
+  updateSelection(
+    @Body() dto: UpdatePriceBookSelectionDto,
+    @CurrentSiteCode() siteCode: string,
+  ) {
+    return this.priceBookService.updateSelection(siteCode, dto);
+  }
+
+  @Post('refresh')
+  @RequirePermissions(Permission.SITE_CONFIG_MANAGE)
+  @ApiOperation({ summary: 'Tính lại giá site theo bảng giá đã chọn' })
+  async refresh() {
+    const refreshed = await this.priceBookService.refreshAll();
+    return { success: true, data: { refreshed } };
+  }
+
+  @Get('products/:id')
+  @RequirePermissions(Permission.PRODUCT_EDIT)
+  @ApiOperation({ summary: 'Bảng giá và nguồn giá của sản phẩm (CMS)' })
+  getProductPrices(@Param('id') id: string) {
+    return this.priceBookService.getProductPrices(+id);
+  }
+
+  @Put('customers/:clientId/type')
+  @RequirePermissions(Permission.ORDER_MANAGE)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Đặt khách lẻ / khách sỉ (B2B)' })
+  updateCustomerType(
+    @Param('clientId') clientId: string,
+    @Body() dto: UpdateCustomerTypeDto,
+  ) {
+    return this.priceBookService.updateCustomerType(
+      +clientId,
+      dto.customerType,
+    );
+  }
+}
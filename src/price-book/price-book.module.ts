@@ -0,0 +1,15 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PriceBookService } from './price-book.service';
+import { PriceBookController } from './price-book.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+// Global: sync sản phẩm, webhook KiotViet, giỏ hàng và báo giá đều dùng giá theo bảng giá.
+@Global()
+@Module({
+  imports: [PrismaModule, ConfigModule],
+  controllers: [PriceBookController],
+  providers: [PriceBookService],
+  exports: [PriceBookService],
+})
+export class PriceBookModule {}
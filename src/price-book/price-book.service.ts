@@ -0,0 +1,449 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { SearchService } from '../search/search.service';
+import { resolveUnitPrice } from './unit-price';
+import {
+  CustomerType,
+  UpdatePriceBookSelectionDto,
+} from './dto/price-book.dto';
+import {
+  SiteCode,
+  VALID_SITE_CODES,
+} from '../common/interceptors/site-code.interceptor';
+
+export interface KiotVietPriceBookLine {
+  priceBookId: number;
+  priceBookName?: string;
+  price: number;
+  isActive?: boolean;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface PriceBookSelection {
+  priceBookId: number | null;
+  wholesalePriceBookId: number | null;
+}
+
+const PRICE_BOOK_KEY = 'kiotviet_price_book_id';
+const WHOLESALE_PRICE_BOOK_KEY = 'kiotviet_wholesale_price_book_id';
+const REFRESH_BATCH_SIZE = 500;
+
+// Bảng giá lẻ website vẫn dùng trước khi có lựa chọn theo site; là mặc định
+// cho site chưa từng chọn bảng giá.
+export const DEFAULT_RETAIL_PRICE_BOOK_ID = 486878;
+export const DEFAULT_RETAIL_PRICE_BOOK_NAME = 'BẢNG GIÁ LẺ HCM';
+
+/**
+ * Bảng giá KiotViet: lưu mọi bảng giá của sản phẩm vào product_price_book,
+ * mỗi site chọn bảng giá hiển thị (và bảng giá sỉ cho khách B2B) qua
+ * site_config. Giá đã chọn được tính sẵn vào product_site_config.price /
+ * wholesale_price; null nghĩa là dùng giá gốc product.kiotviet_price.
+ *
+ * Bảng giá có hiệu lực theo ngày nên giá được tính lại mỗi giờ.
+ *
+ * ENV: PRICE_BOOK_REFRESH_ENABLED=false  // tắt job tính lại
+ */
+@Injectable()
+export class PriceBookService {
+  private readonly logger = new Logger(PriceBookService.name);
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private searchService: SearchService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_HOUR, { name: 'price-book-refresh' })
+  async handleScheduledRefresh() {
+    if (this.configService.get('PRICE_BOOK_REFRESH_ENABLED') === 'false') {
+      return;
+    }
+
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      await this.refreshAll();
+    } catch (error) {
+      this.logger.error(`Price book refresh failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // client: truyền transaction client khi gọi trong prisma.$transaction
+  async savePriceBooks(
+    productId: bigint,
+    priceBooks: KiotVietPriceBookLine[] | undefined,
+    client: any = this.prisma,
+  ) {
+    if (!Array.isArray(priceBooks)) return;
+
+    const syncedAt = new Date();
+    const priceBookIds: number[] = [];
+
+    for (const line of priceBooks) {
+      if (!line?.priceBookId) continue;
+      priceBookIds.push(line.priceBookId);
+
+      const data = {
+        price_book_name: line.priceBookName || null,
+        price: Number(line.price) || 0,
+        is_active: line.isActive !== false,
+        start_date: line.startDate ? new Date(line.startDate) : null,
+        end_date: line.endDate ? new Date(line.endDate) : null,
+        synced_at: syncedAt,
+      };
+
+      await client.product_price_book.upsert({
+        where: {
+          product_id_price_book_id: {
+            product_id: productId,
+            price_book_id: line.priceBookId,
+          },
+        },
+        update: data,
+        create: {
+          product_id: productId,
+          price_book_id: line.priceBookId,
+          ...data,
+        },
+      });
+    }
+
+    // KiotViet trả đủ bảng giá của sản phẩm: bảng giá không còn thì bỏ.
+    await client.product_price_book.deleteMany({
+      where: { product_id: productId, price_book_id: { notIn: priceBookIds } },
+    });
+
+    await this.refreshSitePrices([productId], client);
+  }
+
+  async refreshSitePrices(productIds: bigint[], client: any = this.prisma) {
+    if (productIds.length === 0) return;
+
+    const selections = await this.getSelections(client);
+    const lines = await client.product_price_book.findMany({
+      where: { product_id: { in: productIds } },
+    });
+    const now = new Date();
+
+    for (const productId of productIds) {
+      const productLines = lines.filter((l) => l.product_id === productId);
+
+      for (const [siteCode, selection] of selections) {
+        const retail = this.pickLine(productLines, selection.priceBookId, now);
+        const wholesale = this.pickLine(
+          productLines,
+          selection.wholesalePriceBookId,
+          now,
+        );
+
+        await client.product_site_config.updateMany({
+          where: { product_id: productId, site_code: siteCode },
+          data: {
+            price: retail ? retail.price : null,
+            price_book_id: retail ? retail.price_book_id : null,
+            wholesale_price: wholesale ? wholesale.price : null,
+            wholesale_price_book_id: wholesale ? wholesale.price_book_id : null,
+          },
+        });
+      }
+    }
+  }
+
+  async refreshAll() {
+    let lastId = BigInt(0);
+    let refreshed = 0;
+
+    while (true) {
+      const products = await this.prisma.product.findMany({
+        where: { id: { gt: lastId }, is_from_kiotviet: true },
+        orderBy: { id: 'asc' },
+        take: REFRESH_BATCH_SIZE,
+        select: { id: true },
+      });
+      if (products.length === 0) break;
+
+      const ids = products.map((p) => p.id);
+      await this.refreshSitePrices(ids);
+      // Lọc / facet khoảng giá của storefront đọc giá từ index tìm kiếm.
+      await this.searchService.reindexProducts(ids);
+      refreshed += ids.length;
+      lastId = ids[ids.length - 1];
+    }
+
+    this.logger.log(`Refreshed site prices for ${refreshed} products`);
+    return refreshed;
+  }
+
+  unitPrice(
+    product: { kiotviet_price?: any },
+    siteConfig?: { price?: any; wholesale_price?: any } | null,
+    customerType?: string,
+  ): number | null {
+    return resolveUnitPrice(product, siteConfig, customerType);
+  }
+
+  async getCustomerType(clientUserId?: number | null): Promise<string> {
+    if (!clientUserId) return CustomerType.RETAIL;
+
+    const user = await this.prisma.client_user.findUnique({
+      where: { client_id: clientUserId },
+      select: { customer_type: true },
+    });
+    return user?.customer_type ?? CustomerType.RETAIL;
+  }
+
+  // Client: giá theo loại khách đang đăng nhập (khách sỉ thấy giá sỉ).
+  async getClientPrices(
+    productIds: number[],
+    siteCode: string,
+    clientUserId: number,
+  ) {
+    const customerType = await this.getCustomerType(clientUserId);
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: productIds.map((id) => BigInt(id)) } },
+      select: {
+        id: true,
+        kiotviet_price: true,
+        site_configs: {
+          where: { site_code: siteCode },
+          select: { price: true, wholesale_price: true },
+        },
+      },
+    });
+
+    return {
+      customerType,
+      prices: products.map((p) => ({
+        productId: Number(p.id),
+        price: this.unitPrice(p, p.site_configs[0], customerType),
+      })),
+    };
+  }
+
+  // CMS: các bảng giá đã đồng bộ về, để chọn cho site.
+  async listPriceBooks() {
+    const rows = await this.prisma.product_price_book.groupBy({
+      by: ['price_book_id', 'price_book_name'],
+      _count: { _all: true },
+      orderBy: { price_book_id: 'asc' },
+    });
+
+    return {
+      success: true,
+      data: rows.map((row) => ({
+        id: row.price_book_id,
+        name: row.price_book_name,
+        product_count: row._count._all,
+      })),
+    };
+  }
+
+  async getSelection(siteCode: string) {
+    this.assertSite(siteCode);
+    const selections = await this.getSelections();
+    return { success: true, data: selections.get(siteCode) };
+  }
+
+  async updateSelection(siteCode: string, dto: UpdatePriceBookSelectionDto) {
+    this.assertSite(siteCode);
+
+    for (const priceBookId of [dto.priceBookId, dto.wholesalePriceBookId]) {
+      if (!priceBookId) continue;
+      const exists = await this.prisma.product_price_book.findFirst({
+        where: { price_book_id: priceBookId },
+        select: { id: true },
+      });
+      if (!exists) {
+        throw new BadRequestException(
+          `Bảng giá ${priceBookId} chưa được đồng bộ từ KiotViet`,
+        );
+      }
+    }
+
+    const values: Array<[string, number | null | undefined]> = [
+      [PRICE_BOOK_KEY, dto.priceBookId],
+      [WHOLESALE_PRICE_BOOK_KEY, dto.wholesalePriceBookId],
+    ];
+    for (const [key, value] of values) {
+      if (value === undefined) continue;
+      await this.prisma.site_config.upsert({
+        where: {
+          site_code_config_key: { site_code: siteCode, config_key: key },
+        },
+        update: {
+          config_value: value ? String(value) : null,
+          updated_date: new Date(),
+        },
+        create: {
+          site_code: siteCode,
+          config_key: key,
+          config_value: value ? String(value) : null,
+        },
+      });
+    }
+
+    const refreshed = await this.refreshAll();
+    const selections = await this.getSelections();
+
+    return {
+      success: true,
+      data: { ...selections.get(siteCode), refreshed },
+      message: 'Cập nhật bảng giá cho site thành công',
+    };
+  }
+
+  // CMS chi tiết sản phẩm: các bảng giá và nguồn giá đang hiển thị ở mỗi site.
+  async getProductPrices(productId: number) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: BigInt(productId) },
+      select: {
+        id: true,
+        kiotviet_price: true,
+        price_books: { orderBy: { price_book_id: 'asc' } },
+        site_configs: {
+          select: {
+            site_code: true,
+            price: true,
+            price_book_id: true,
+            wholesale_price: true,
+            wholesale_price_book_id: true,
+          },
+        },
+      },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Sản phẩm với ID ${productId} không tồn tại`);
+    }
+
+    const bookName = (id: number | null) =>
+      product.price_books.find((b) => b.price_book_id === id)
+        ?.price_book_name ?? null;
+    const basePrice = product.kiotviet_price
+      ? Number(product.kiotviet_price)
+      : null;
+
+    return {
+      success: true,
+      data: {
+        base_price: basePrice,
+        price_books: product.price_books.map((b) => ({
+          id: b.price_book_id,
+          name: b.price_book_name,
+          price: Number(b.price),
+          is_active: b.is_active,
+          start_date: b.start_date,
+          end_date: b.end_date,
+          synced_at: b.synced_at,
+        })),
+        sites: product.site_configs.map((sc) => ({
+          site_code: sc.site_code,
+          price: sc.price !== null ? Number(sc.price) : basePrice,
+          source: sc.price_book_id
+            ? {
+                type: 'PRICE_BOOK',
+                price_book_id: sc.price_book_id,
+                price_book_name: bookName(sc.price_book_id),
+              }
+            : { type: 'BASE_PRICE' },
+          wholesale_price:
+            sc.wholesale_price !== null ? Number(sc.wholesale_price) : null,
+          wholesale_source: sc.wholesale_price_book_id
+            ? {
+                type: 'PRICE_BOOK',
+                price_book_id: sc.wholesale_price_book_id,
+                price_book_name: bookName(sc.wholesale_price_book_id),
+              }
+            : null,
+        })),
+      },
+    };
+  }
+
+  async updateCustomerType(clientId: number, customerType: CustomerType) {
+    const user = await this.prisma.client_user.findUnique({
+      where: { client_id: clientId },
+      select: { client_id: true },
+    });
+    if (!user) {
+      throw new NotFoundException(
+        `Khách hàng với ID ${clientId} không tồn tại`,
+      );
+    }
+
+    await this.prisma.client_user.update({
+      where: { client_id: clientId },
+      data: { customer_type: customerType },
+    });
+
+    return {
+      success: true,
+      data: { client_id: clientId, customer_type: customerType },
+      message: 'Cập nhật loại khách hàng thành công',
+    };
+  }
+
+  private async getSelections(
+    client: any = this.prisma,
+  ): Promise<Map<string, PriceBookSelection>> {
+    const rows = await client.site_config.findMany({
+      where: { config_key: { in: [PRICE_BOOK_KEY, WHOLESALE_PRICE_BOOK_KEY] } },
+    });
+
+    // Chưa có dòng cấu hình => dùng mặc định; dòng rỗng => CMS đã bỏ chọn.
+    const toId = (siteCode: string, key: string, fallback: number | null) => {
+      const row = rows.find(
+        (r) => r.site_code === siteCode && r.config_key === key,
+      );
+      if (!row) return fallback;
+      return row.config_value ? Number(row.config_value) : null;
+    };
+
+    return new Map(
+      VALID_SITE_CODES.map((siteCode) => [
+        siteCode,
+        {
+          priceBookId: toId(
+            siteCode,
+            PRICE_BOOK_KEY,
+            DEFAULT_RETAIL_PRICE_BOOK_ID,
+          ),
+          wholesalePriceBookId: toId(siteCode, WHOLESALE_PRICE_BOOK_KEY, null),
+        },
+      ]),
+    );
+  }
+
+  // Dòng bảng giá đang hiệu lực (bật và trong khoảng ngày áp dụng).
+  private pickLine(lines: any[], priceBookId: number | null, now: Date) {
+    if (!priceBookId) return null;
+
+    return (
+      lines.find(
+        (l) =>
+          l.price_book_id === priceBookId &&
+          l.is_active &&
+          (!l.start_date || l.start_date <= now) &&
+          (!l.end_date || l.end_date >= now),
+      ) ?? null
+    );
+  }
+
+  private assertSite(siteCode: string) {
+    if (!VALID_SITE_CODES.includes(siteCode as SiteCode)) {
+      throw new BadRequestException(`Site "${siteCode}" không hợp lệ`);
+    }
+  }
+}
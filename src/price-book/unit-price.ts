@@ -0,0 +1,21 @@
+import { CustomerType } from './dto/price-book.dto';
+
+// Giá bán: bảng giá sỉ (khách B2B) > bảng giá site > giá gốc KiotViet.
+// Tách khỏi PriceBookService để index tìm kiếm / gợi ý dùng mà không tạo
+// vòng phụ thuộc (PriceBookService làm mới index sau khi tính lại giá).
+export function resolveUnitPrice(
+  product: { kiotviet_price?: any },
+  siteConfig?: { price?: any; wholesale_price?: any } | null,
+  customerType?: string,
+): number | null {
+  const candidates = [
+    customerType === CustomerType.WHOLESALE
+      ? siteConfig?.wholesale_price
+      : null,
+    siteConfig?.price,
+    product.kiotviet_price,
+  ];
+
+  const price = candidates.find((p) => p !== null && p !== undefined);
+  return Number(price ?? 0) || null;
+}
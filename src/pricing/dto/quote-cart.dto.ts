@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class QuoteItemDto {
+  @ApiProperty({ description: 'Product ID', example: 12345 })
+  @IsNotEmpty()
+  @IsNumber()
+  productId: number;
+
+  @ApiProperty({ description: 'Product quantity', example: 2 })
+  @IsInt({ message: 'Số lượng phải là số nguyên' })
+  @Min(1, { message: 'Số lượng phải lớn hơn 0' })
+  quantity: number;
+}
+
+export class QuoteCartDto {
+  @ApiProperty({ description: 'Cart items', type: [QuoteItemDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => QuoteItemDto)
+  cartItems: QuoteItemDto[];
+
+  @ApiProperty({ description: 'Coupon code', required: false })
+  @IsOptional()
+  @IsString()
+  couponCode?: string;
+}
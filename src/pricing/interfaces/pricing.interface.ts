@@ -0,0 +1,29 @@
+export interface PricedLine {
+  productId: number;
+  kiotvietId: number | null;
+  kiotvietCode: string | null;
+  title: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+export interface AppliedCoupon {
+  id: number;
+  code: string;
+  name: string;
+  type: string;
+  // FREE_SHIPPING: phí ship được bỏ, discount là số tiền ship được miễn.
+  freeShipping: boolean;
+  discount: number;
+}
+
+export interface CartQuote {
+  siteCode: string;
+  items: PricedLine[];
+  subtotal: number;
+  shipping: number;
+  discount: number;
+  coupon: AppliedCoupon | null;
+  total: number;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PricingService } from './pricing.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { CouponModule } from '../coupon/coupon.module';
+
+@Module({
+  imports: [ConfigModule, PrismaModule, InventoryModule, CouponModule],
+  providers: [PricingService],
+  exports: [PricingService],
+})
+export class PricingModule {}
@@ -0,0 +1,198 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { calculateShippingCost } from '../utils/helper';
+import { InventoryService } from '../inventory/inventory.service';
+import { CouponService } from '../coupon/coupon.service';
+import { PriceBookService } from '../price-book/price-book.service';
+import { CartQuote, PricedLine } from './interfaces/pricing.interface';
+
+/**
+ * Tính giá đơn hàng phía server theo bảng giá của site (khách sỉ dùng bảng
+ * giá sỉ, xem PriceBookService), không tin số tiền client gửi lên. Sản phẩm
+ * chỉ được bán online khi product_site_config.price_on của site đang bật
+ * (site tắt giá = hiển thị "Liên hệ") và còn tồn kho ở chi nhánh website.
+ *
+ * Mã giảm giá (nếu có) được CouponService kiểm tra và tính vào discount;
+ * mã miễn ship thì đưa phí ship về 0.
+ *
+ * Phí ship cấu hình qua ENV (mặc định theo calculateShippingCost):
+ *   SHIPPING_FEE=30000
+ *   FREE_SHIPPING_THRESHOLD=500000
+ */
+@Injectable()
+export class PricingService {
+  private readonly logger = new Logger(PricingService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private inventoryService: InventoryService,
+    private couponService: CouponService,
+    private priceBookService: PriceBookService,
+  ) {}
+
+  async quote(
+    cartItems: Array<{ productId: number; quantity: number }>,
+    siteCode: string = 'dieptra',
+    options: {
+      couponCode?: string;
+      clientUserId?: number | null;
+      phone?: string | null;
+    } = {},
+  ): Promise<CartQuote> {
+    if (!Array.isArray(cartItems) || cartItems.length === 0) {
+      throw new BadRequestException('Giỏ hàng trống');
+    }
+
+    // Gộp các dòng trùng sản phẩm để tránh lách giá theo từng dòng.
+    const quantities = new Map<number, number>();
+    for (const item of cartItems) {
+      const productId = Number(item.productId);
+      const quantity = Number(item.quantity);
+
+      if (!Number.isInteger(productId) || productId <= 0) {
+        throw new BadRequestException(
+          `ID sản phẩm không hợp lệ: ${item.productId}`,
+        );
+      }
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        throw new BadRequestException(
+          `Số lượng không hợp lệ cho sản phẩm ${productId}`,
+        );
+      }
+
+      quantities.set(productId, (quantities.get(productId) || 0) + quantity);
+    }
+
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: [...quantities.keys()].map((id) => BigInt(id)) } },
+      select: {
+        id: true,
+        title: true,
+        kiotviet_id: true,
+        kiotviet_code: true,
+        kiotviet_name: true,
+        kiotviet_price: true,
+        price_on: true,
+        site_configs: {
+          where: { site_code: siteCode },
+          select: {
+            title: true,
+            price_on: true,
+            price: true,
+            wholesale_price: true,
+          },
+        },
+      },
+    });
+    const customerType = await this.priceBookService.getCustomerType(
+      options.clientUserId,
+    );
+
+    const items: PricedLine[] = [];
+
+    for (const [productId, quantity] of quantities) {
+      const product = products.find((p) => Number(p.id) === productId);
+      if (!product) {
+        throw new BadRequestException(`Sản phẩm ${productId} không tồn tại`);
+      }
+
+      const sc = product.site_configs?.[0];
+      const title =
+        sc?.title || product.title || product.kiotviet_name || 'Sản phẩm';
+
+      if (!(sc?.price_on ?? product.price_on ?? false)) {
+        throw new BadRequestException(
+          `Sản phẩm "${title}" chưa mở bán giá online trên site "${siteCode}"`,
+        );
+      }
+
+      const unitPrice = Math.round(
+        this.priceBookService.unitPrice(product, sc, customerType) ?? 0,
+      );
+      if (unitPrice <= 0) {
+        throw new BadRequestException(`Sản phẩm "${title}" chưa có giá bán`);
+      }
+
+      items.push({
+        productId,
+        kiotvietId: product.kiotviet_id ? Number(product.kiotviet_id) : null,
+        kiotvietCode: product.kiotviet_code,
+        title,
+        quantity,
+        unitPrice,
+        lineTotal: unitPrice * quantity,
+      });
+    }
+
+    await this.inventoryService.assertInStock(items);
+
+    const subtotal = items.reduce((sum, line) => sum + line.lineTotal, 0);
+    const baseShipping = calculateShippingCost(
+      subtotal,
+      Number(this.configService.get('FREE_SHIPPING_THRESHOLD') ?? 500000),
+      Number(this.configService.get('SHIPPING_FEE') ?? 30000),
+    );
+
+    const coupon = options.couponCode?.trim()
+      ? await this.couponService.evaluate(options.couponCode, {
+          siteCode,
+          subtotal,
+          shipping: baseShipping,
+          clientUserId: options.clientUserId,
+          phone: options.phone,
+        })
+      : null;
+    // KiotViet không có dòng phí ship: discount chỉ chứa phần giảm tiền hàng.
+    const shipping = coupon?.freeShipping ? 0 : baseShipping;
+    const discount = coupon && !coupon.freeShipping ? coupon.discount : 0;
+
+    return {
+      siteCode,
+      items,
+      subtotal,
+      shipping,
+      discount,
+      coupon,
+      total: Math.max(0, subtotal + shipping - discount),
+    };
+  }
+
+  // So khớp giỏ hàng client gửi lên với báo giá server; lệch là từ chối đơn.
+  assertMatchesClient(
+    quote: CartQuote,
+    cartItems: Array<{ productId: number; price?: number }>,
+    clientTotal: number | undefined,
+  ) {
+    for (const item of cartItems) {
+      const line = quote.items.find(
+        (l) => l.productId === Number(item.productId),
+      );
+      if (
+        line &&
+        item.price !== undefined &&
+        Math.round(Number(item.price)) !== line.unitPrice
+      ) {
+        this.logger.warn(
+          `Price mismatch for product ${line.productId}: client=${item.price}, server=${line.unitPrice}`,
+        );
+        throw new BadRequestException(
+          `Giá sản phẩm "${line.title}" đã thay đổi (${line.unitPrice}), vui lòng tải lại giỏ hàng`,
+        );
+      }
+    }
+
+    if (
+      clientTotal !== undefined &&
+      Math.round(Number(clientTotal)) !== quote.total
+    ) {
+      this.logger.warn(
+        `Total mismatch: client=${clientTotal}, server=${quote.total}`,
+      );
+      throw new BadRequestException(
+        `Tổng tiền không khớp (client: ${clientTotal}, server: ${quote.total}), vui lòng tải lại giỏ hàng`,
+      );
+    }
+  }
+}
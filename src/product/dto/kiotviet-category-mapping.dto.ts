@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsInt, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { VALID_SITE_CODES } from '../../common/interceptors/site-code.interceptor';
+
+export class SetCategoryMappingDto {
+  @ApiProperty({ enum: VALID_SITE_CODES, example: 'dieptra' })
+  @IsIn(VALID_SITE_CODES, { message: 'Site không hợp lệ' })
+  siteCode: string;
+
+  @ApiProperty({ description: 'ID danh mục website của site', example: 12 })
+  @Type(() => Number)
+  @IsInt({ message: 'ID danh mục phải là số nguyên' })
+  @Min(1)
+  categoryId: number;
+}
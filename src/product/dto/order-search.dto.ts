@@ -1,22 +1,22 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsOptional, IsString, IsNumber, IsEnum } from 'class-validator';
+import {
+  IsOptional,
+  IsString,
+  IsNumber,
+  IsEnum,
+  IsDateString,
+  Matches,
+} from 'class-validator';
 import { Type } from 'class-transformer';
+import { OrderStatus } from '../../order/order-status';
+
+export { OrderStatus };
 
 export enum OrderType {
   CONTACT = 'CONTACT',
   BUY = 'BUY',
 }
 
-export enum OrderStatus {
-  NEW = 'NEW',
-  PENDING = 'PENDING',
-  PAID = 'PAID',
-  INPROGRESS = 'INPROGRESS',
-  DELIVERING = 'DELIVERING',
-  COMPLETED = 'COMPLETED',
-  CANCELLED = 'CANCELLED',
-}
-
 export class OrderSearchDto {
   @ApiProperty({
     description: 'Page size for pagination',
@@ -85,6 +85,55 @@ export class OrderSearchDto {
     required: false,
   })
   @IsString()
+  @Matches(/^\d+$/, { message: 'ID đơn hàng phải là số' })
   @IsOptional()
   id?: string;
+
+  @ApiProperty({
+    description: 'Filter by payment method (sepay_bank, cod)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  paymentMethod?: string;
+
+  @ApiProperty({
+    description: 'Filter by payment status (PENDING, PAID, PARTIALLY_PAID...)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  paymentStatus?: string;
+
+  @ApiProperty({
+    description: 'Created from date (ISO 8601)',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  fromDate?: string;
+
+  @ApiProperty({
+    description: 'Created to date (ISO 8601, inclusive)',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  toDate?: string;
+
+  @ApiProperty({
+    description: 'Filter by site (dieptra, lermao)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  siteCode?: string;
+
+  @ApiProperty({
+    description: 'Search by order code, KiotViet code, name, phone or email',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  keyword?: string;
 }
@@ -0,0 +1,312 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  SiteCode,
+  VALID_SITE_CODES,
+} from '../common/interceptors/site-code.interceptor';
+
+/**
+ * Ánh xạ nhóm hàng KiotViet sang danh mục website của từng site.
+ * Sản phẩm sync về được gán danh mục theo mapping của nhóm hàng gần nhất
+ * (chính nó, rồi lần lên nhóm cha) — chỉ khi site config chưa có danh mục,
+ * không ghi đè lựa chọn của admin.
+ */
+@Injectable()
+export class KiotVietCategoryMappingService {
+  private readonly logger = new Logger(KiotVietCategoryMappingService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  // Cây nhóm hàng KiotViet kèm danh mục đã map của site.
+  async getMappings(siteCode: string) {
+    this.assertSite(siteCode);
+
+    const categories = await this.prisma.kiotviet_category.findMany({
+      orderBy: [{ rank: 'asc' }, { name: 'asc' }],
+      include: {
+        site_mappings: {
+          where: { site_code: siteCode },
+          include: {
+            category: { select: { id: true, name: true, slug: true } },
+          },
+        },
+      },
+    });
+
+    const productCounts = await this.prisma.product.groupBy({
+      by: ['kiotviet_category_id'],
+      where: {
+        is_from_kiotviet: true,
+        archived_at: null,
+        kiotviet_category_id: { not: null },
+      },
+      _count: { _all: true },
+    });
+    const countByCategory = new Map<number, number>();
+    for (const row of productCounts) {
+      if (row.kiotviet_category_id === null) continue;
+      countByCategory.set(row.kiotviet_category_id, row._count._all);
+    }
+
+    const nodes = new Map<number, any>();
+    for (const category of categories) {
+      const mapping = category.site_mappings[0];
+      nodes.set(category.id, {
+        id: category.id,
+        name: category.name,
+        parent_id: category.parentId,
+        has_child: category.hasChild,
+        rank: category.rank,
+        product_count: countByCategory.get(category.id) ?? 0,
+        mapping: mapping
+          ? {
+              category_id: Number(mapping.category.id),
+              category_name: mapping.category.name,
+              category_slug: mapping.category.slug,
+              updated_by: mapping.created_by,
+              updated_date: mapping.updated_date,
+            }
+          : null,
+        children: [],
+      });
+    }
+
+    const roots: any[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : null;
+      if (parent) parent.children.push(node);
+      else roots.push(node);
+    }
+
+    return {
+      success: true,
+      data: {
+        site_code: siteCode,
+        total: categories.length,
+        mapped: categories.filter((c) => c.site_mappings.length > 0).length,
+        tree: roots,
+      },
+    };
+  }
+
+  async setMapping(
+    kiotvietCategoryId: number,
+    siteCode: string,
+    categoryId: number,
+    actor: string,
+  ) {
+    this.assertSite(siteCode);
+
+    const [kiotvietCategory, category] = await Promise.all([
+      this.prisma.kiotviet_category.findUnique({
+        where: { id: kiotvietCategoryId },
+        select: { id: true, name: true },
+      }),
+      this.prisma.category.findUnique({
+        where: { id: BigInt(categoryId) },
+        select: { id: true, name: true, site_code: true },
+      }),
+    ]);
+
+    if (!kiotvietCategory) {
+      throw new NotFoundException(
+        `Nhóm hàng KiotViet với ID ${kiotvietCategoryId} không tồn tại`,
+      );
+    }
+    if (!category) {
+      throw new NotFoundException(
+        `Danh mục với ID ${categoryId} không tồn tại`,
+      );
+    }
+    if (category.site_code !== siteCode) {
+      throw new BadRequestException(
+        `Danh mục "${category.name}" thuộc site "${category.site_code}", không phải "${siteCode}"`,
+      );
+    }
+
+    const mapping = await this.prisma.kiotviet_category_mapping.upsert({
+      where: {
+        kiotviet_category_id_site_code: {
+          kiotviet_category_id: kiotvietCategory.id,
+          site_code: siteCode,
+        },
+      },
+      update: { category_id: category.id, created_by: actor },
+      create: {
+        kiotviet_category_id: kiotvietCategory.id,
+        site_code: siteCode,
+        category_id: category.id,
+        created_by: actor,
+      },
+    });
+
+    return {
+      success: true,
+      data: {
+        id: Number(mapping.id),
+        kiotviet_category_id: kiotvietCategory.id,
+        site_code: siteCode,
+        category_id: Number(category.id),
+      },
+      message: `Đã map "${kiotvietCategory.name}" vào danh mục "${category.name}"`,
+    };
+  }
+
+  async removeMapping(kiotvietCategoryId: number, siteCode: string) {
+    this.assertSite(siteCode);
+
+    const { count } = await this.prisma.kiotviet_category_mapping.deleteMany({
+      where: { kiotviet_category_id: kiotvietCategoryId, site_code: siteCode },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException(
+        `Nhóm hàng KiotViet ${kiotvietCategoryId} chưa được map cho site ${siteCode}`,
+      );
+    }
+
+    return {
+      success: true,
+      data: { kiotviet_category_id: kiotvietCategoryId, site_code: siteCode },
+      message: 'Đã xoá mapping danh mục',
+    };
+  }
+
+  /**
+   * Gán danh mục cho các site config chưa có danh mục của một sản phẩm.
+   * `client` có thể là transaction đang chạy của luồng sync.
+   */
+  async assignProduct(
+    productId: bigint,
+    kiotvietCategoryId: number | null | undefined,
+    client: any = this.prisma,
+    onlySite?: string,
+  ): Promise<string[]> {
+    if (!kiotvietCategoryId) return [];
+
+    const targets = await this.resolveSiteCategories(
+      kiotvietCategoryId,
+      client,
+    );
+    const assigned: string[] = [];
+
+    for (const [siteCode, category] of targets) {
+      if (onlySite && siteCode !== onlySite) continue;
+      const { count } = await client.product_site_config.updateMany({
+        where: {
+          product_id: productId,
+          site_code: siteCode,
+          category_id: null,
+        },
+        data: {
+          category_id: category.id,
+          category_slug: category.slug,
+          updated_date: new Date(),
+        },
+      });
+      if (count > 0) assigned.push(siteCode);
+    }
+
+    return assigned;
+  }
+
+  // Áp mapping cho các sản phẩm KiotViet đã có nhưng chưa được gán danh mục.
+  async applyToUnassigned(siteCode?: string) {
+    if (siteCode) this.assertSite(siteCode);
+
+    const configs = await this.prisma.product_site_config.findMany({
+      where: {
+        category_id: null,
+        ...(siteCode ? { site_code: siteCode } : {}),
+        product: {
+          is_from_kiotviet: true,
+          archived_at: null,
+          kiotviet_category_id: { not: null },
+        },
+      },
+      select: {
+        product_id: true,
+        product: { select: { kiotviet_category_id: true } },
+      },
+    });
+
+    const productIds = new Map<bigint, number>();
+    for (const config of configs) {
+      if (config.product.kiotviet_category_id === null) continue;
+      productIds.set(config.product_id, config.product.kiotviet_category_id);
+    }
+
+    let assigned = 0;
+    for (const [productId, kiotvietCategoryId] of productIds) {
+      const sites = await this.assignProduct(
+        productId,
+        kiotvietCategoryId,
+        this.prisma,
+        siteCode,
+      );
+      assigned += sites.length;
+    }
+
+    this.logger.log(
+      `Applied KiotViet category mappings: ${assigned} site configs assigned`,
+    );
+
+    return {
+      success: true,
+      data: { scanned: configs.length, assigned },
+      message: `Đã gán danh mục cho ${assigned} sản phẩm`,
+    };
+  }
+
+  // Mỗi site lấy mapping của nhóm gần nhất, đi từ nhóm hàng lên nhóm cha.
+  private async resolveSiteCategories(
+    kiotvietCategoryId: number,
+    client: any,
+  ): Promise<Map<string, { id: bigint; slug: string | null }>> {
+    const result = new Map<string, { id: bigint; slug: string | null }>();
+    const visited = new Set<number>();
+    let currentId: number | null = kiotvietCategoryId;
+
+    while (
+      currentId &&
+      !visited.has(currentId) &&
+      result.size < VALID_SITE_CODES.length
+    ) {
+      visited.add(currentId);
+
+      const current = await client.kiotviet_category.findUnique({
+        where: { id: currentId },
+        select: {
+          parentId: true,
+          site_mappings: {
+            select: {
+              site_code: true,
+              category: { select: { id: true, slug: true } },
+            },
+          },
+        },
+      });
+      if (!current) break;
+
+      for (const mapping of current.site_mappings) {
+        if (!result.has(mapping.site_code)) {
+          result.set(mapping.site_code, mapping.category);
+        }
+      }
+      currentId = current.parentId;
+    }
+
+    return result;
+  }
+
+  private assertSite(siteCode: string) {
+    if (!VALID_SITE_CODES.includes(siteCode as SiteCode)) {
+      throw new BadRequestException(`Site "${siteCode}" không hợp lệ`);
+    }
+  }
+}
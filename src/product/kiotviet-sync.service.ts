@@ -0,0 +1,220 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { hostname } from 'os';
+import { PrismaService } from '../prisma/prisma.service';
+import { KiotVietService } from './kiotviet.service';
+import { WebhookDispatcherService } from '../webhook-subscription/webhook-dispatcher.service';
+import { WebhookEvent } from '../webhook-subscription/webhook-events';
+import { ImageService } from '../file/image.service';
+
+const PRODUCT_SYNC_LOCK = 'product_sync';
+
+/**
+ * Đồng bộ sản phẩm KiotViet định kỳ theo lastModifiedFrom.
+ * Mỗi lần chạy ghi một dòng kiotviet_sync_log; lock trong kiotviet_sync_lock
+ * chặn nhiều process cùng chạy.
+ *
+ * ENV:
+ *   KIOTVIET_SYNC_ENABLED=false      // tắt scheduler
+ *   KIOTVIET_SYNC_OVERLAP_MINUTES=5  // lùi mốc lastModifiedFrom để không sót bản ghi
+ *   KIOTVIET_SYNC_LOCK_MINUTES=30    // lock tự hết hạn nếu process chết giữa chừng
+ */
+@Injectable()
+export class KiotVietSyncService {
+  private readonly logger = new Logger(KiotVietSyncService.name);
+  private readonly owner = `${hostname()}:${process.pid}`;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private kiotVietService: KiotVietService,
+    private webhookDispatcher: WebhookDispatcherService,
+    private imageService: ImageService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'kiotviet-product-sync' })
+  async handleScheduledSync() {
+    if (this.configService.get('KIOTVIET_SYNC_ENABLED') === 'false') {
+      return;
+    }
+
+    await this.runProductSync();
+  }
+
+  async runProductSync() {
+    const acquired = await this.acquireLock(PRODUCT_SYNC_LOCK);
+    if (!acquired) {
+      this.logger.log('Product sync is already running elsewhere, skipping');
+      return null;
+    }
+
+    try {
+      const lastModifiedFrom = await this.getLastModifiedFrom();
+      const syncType = lastModifiedFrom ? 'incremental' : 'full';
+
+      const run = await this.prisma.kiotviet_sync_log.create({
+        data: {
+          sync_type: syncType,
+          entity_type: 'product',
+          status: 'running',
+          details: { owner: this.owner, lastModifiedFrom },
+        },
+      });
+
+      this.logger.log(
+        `Starting ${syncType} product sync #${run.id} (from: ${lastModifiedFrom ?? 'beginning'})`,
+      );
+
+      try {
+        // Nhóm hàng mới phải có trước, nếu không sản phẩm sẽ mất kiotviet_category_id.
+        await this.kiotVietService
+          .syncCategories()
+          .catch((error) =>
+            this.logger.warn(`Category sync failed: ${error.message}`),
+          );
+
+        const result = await this.kiotVietService.syncProducts(
+          lastModifiedFrom ?? undefined,
+        );
+
+        await this.webhookDispatcher.emit(WebhookEvent.PRODUCT_SYNCED, {
+          runId: Number(run.id),
+          syncType,
+          success: result.success,
+          totalSynced: result.totalSynced,
+          totalUpdated: result.totalUpdated,
+          totalDeleted: result.totalDeleted,
+          errorCount: result.errors.length,
+        });
+
+        // Tải ảnh mới về chạy nền, không giữ lock sync.
+        if (this.configService.get('IMAGE_MIRROR_ENABLED') !== 'false') {
+          this.imageService
+            .mirrorKiotVietImages()
+            .catch((error) =>
+              this.logger.warn(`Image mirror failed: ${error.message}`),
+            );
+        }
+
+        return await this.prisma.kiotviet_sync_log.update({
+          where: { id: run.id },
+          data: {
+            status: result.success ? 'completed' : 'partial',
+            completed_at: new Date(),
+            total_synced: result.totalSynced,
+            total_updated: result.totalUpdated,
+            total_deleted: result.totalDeleted,
+            error_message: result.errors.length
+              ? result.errors.slice(0, 50).join('\n')
+              : null,
+            details: {
+              owner: this.owner,
+              lastModifiedFrom,
+              summary: result.summary,
+              archived: result.archived ?? [],
+              errorCount: result.errors.length,
+            },
+          },
+        });
+      } catch (error) {
+        this.logger.error(`Product sync #${run.id} failed: ${error.message}`);
+
+        return await this.prisma.kiotviet_sync_log.update({
+          where: { id: run.id },
+          data: {
+            status: 'failed',
+            completed_at: new Date(),
+            error_message: error.message,
+          },
+        });
+      }
+    } finally {
+      await this.releaseLock(PRODUCT_SYNC_LOCK);
+    }
+  }
+
+  async getSyncRuns(query: {
+    pageSize?: number;
+    pageNumber?: number;
+    status?: string;
+    syncType?: string;
+  }) {
+    const pageSize = query.pageSize || 20;
+    const pageNumber = query.pageNumber || 0;
+
+    const where: any = { entity_type: 'product' };
+    if (query.status) where.status = query.status;
+    if (query.syncType) where.sync_type = query.syncType;
+
+    const [runs, total] = await Promise.all([
+      this.prisma.kiotviet_sync_log.findMany({
+        where,
+        orderBy: { started_at: 'desc' },
+        skip: pageNumber * pageSize,
+        take: pageSize,
+      }),
+      this.prisma.kiotviet_sync_log.count({ where }),
+    ]);
+
+    return {
+      content: runs,
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      pageNumber,
+      pageSize,
+    };
+  }
+
+  // Lấy mốc từ lần chạy thành công gần nhất; chưa có thì sync toàn bộ.
+  private async getLastModifiedFrom(): Promise<string | null> {
+    const lastRun = await this.prisma.kiotviet_sync_log.findFirst({
+      where: {
+        entity_type: 'product',
+        status: { in: ['completed', 'partial'] },
+      },
+      orderBy: { started_at: 'desc' },
+    });
+
+    if (!lastRun) return null;
+
+    const overlapMinutes = Number(
+      this.configService.get('KIOTVIET_SYNC_OVERLAP_MINUTES') ?? 5,
+    );
+    return new Date(
+      lastRun.started_at.getTime() - overlapMinutes * 60 * 1000,
+    ).toISOString();
+  }
+
+  private async acquireLock(name: string): Promise<boolean> {
+    const lockMinutes = Number(
+      this.configService.get('KIOTVIET_SYNC_LOCK_MINUTES') ?? 30,
+    );
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + lockMinutes * 60 * 1000);
+
+    try {
+      await this.prisma.kiotviet_sync_lock.create({
+        data: { name, owner: this.owner, locked_until: lockedUntil },
+      });
+      return true;
+    } catch (error) {
+      if (error.code !== 'P2002') throw error;
+    }
+
+    // Lock đã tồn tại: chỉ chiếm lại khi đã hết hạn.
+    const { count } = await this.prisma.kiotviet_sync_lock.updateMany({
+      where: { name, locked_until: { lt: now } },
+      data: { owner: this.owner, locked_until: lockedUntil },
+    });
+    return count === 1;
+  }
+
+  private async releaseLock(name: string) {
+    await this.prisma.kiotviet_sync_lock
+      .deleteMany({ where: { name, owner: this.owner } })
+      .catch((error) =>
+        this.logger.warn(`Failed to release lock ${name}: ${error.message}`),
+      );
+  }
+}
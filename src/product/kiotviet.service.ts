@@ -8,6 +8,7 @@ import {
   KiotVietTokenResponse,
   KiotVietTrademark,
   KiotVietProduct,
+  CategorySyncResult,
 } from './types/kiotviet.types';
 import {
   ProductFetchResult,
@@ -15,6 +16,11 @@ import {
   SyncOrderStep,
   ValidationResult,
 } from './types/sync.types';
+import { InventoryService } from '../inventory/inventory.service';
+import { ProductArchiveService } from './product-archive.service';
+import { KiotVietCategoryMappingService } from './kiotviet-category-mapping.service';
+import { ProductVariantService } from './product-variant.service';
+import { PriceBookService } from '../price-book/price-book.service';
 
 interface KiotVietCategory {
   categoryId: number;
@@ -34,6 +40,7 @@ interface SyncResult {
   totalUpdated: number;
   totalDeleted: number;
   errors: string[];
+  archived?: any[];
   summary: {
     beforeSync: number;
     afterSync: number;
@@ -56,7 +63,14 @@ export class KiotVietService {
   private hourStartTime = Date.now();
   private readonly maxRequestsPerHour = 4900;
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly inventoryService: InventoryService,
+    private readonly productArchiveService: ProductArchiveService,
+    private readonly categoryMappingService: KiotVietCategoryMappingService,
+    private readonly priceBookService: PriceBookService,
+    private readonly productVariantService: ProductVariantService,
+  ) {
     this.axiosInstance = axios.create({
       baseURL: this.baseUrl,
       timeout: 30000,
@@ -229,6 +243,53 @@ export class KiotVietService {
     }
   }
 
+  async fetchAllCategories(): Promise<KiotVietCategory[]> {
+    this.logger.log('Fetching all categories from KiotViet');
+
+    const categories: KiotVietCategory[] = [];
+    const pageSize = 100;
+    let currentItem = 0;
+
+    try {
+      while (true) {
+        await this.checkRateLimit();
+        await this.setupAuthHeaders();
+
+        // Lấy danh sách phẳng (có parentId) để tự dựng lại cây.
+        const response = await this.axiosInstance.get('/categories', {
+          params: {
+            pageSize,
+            currentItem,
+            hierarchicalData: false,
+            orderBy: 'categoryId',
+          },
+        });
+        this.requestCount++;
+
+        const data: KiotVietCategory[] = response.data.data || [];
+        categories.push(...data);
+        currentItem += data.length;
+
+        if (
+          data.length < pageSize ||
+          categories.length >= response.data.total
+        ) {
+          break;
+        }
+      }
+
+      this.logger.log(
+        `Successfully fetched ${categories.length} categories from KiotViet`,
+      );
+      return categories;
+    } catch (error) {
+      this.logger.error('Failed to fetch categories:', error.message);
+      throw new BadRequestException(
+        `Failed to fetch categories from KiotViet: ${error.message}`,
+      );
+    }
+  }
+
   async fetchAllProducts(
     lastModifiedFrom?: string,
   ): Promise<ProductFetchResult> {
@@ -302,7 +363,10 @@ export class KiotVietService {
     const params: any = {
       currentItem,
       pageSize,
-      includeInventory: false,
+      includeInventory: true,
+      includePricebook: true,
+      includeMaterial: true,
+      includeCombo: true,
     };
 
     if (lastModifiedFrom) {
@@ -437,6 +501,166 @@ export class KiotVietService {
     }
   }
 
+  // id local của kiotviet_category = categoryId KiotViet để product.kiotviet_category_id
+  // dùng thẳng id KiotViet.
+  async syncCategories(): Promise<CategorySyncResult> {
+    this.logger.log('Starting category synchronization');
+
+    const errors: string[] = [];
+
+    try {
+      const beforeSync = await this.prisma.kiotviet_category.count();
+      const categories = await this.fetchAllCategories();
+
+      const ids = new Set(categories.map((c) => c.categoryId));
+      const parentIds = new Set(
+        categories
+          .filter((c) => c.parentId && ids.has(c.parentId))
+          .map((c) => c.parentId),
+      );
+
+      const results = await this.prisma.$transaction(
+        async (prisma) => {
+          let newCategories = 0;
+          let updatedCategories = 0;
+          let deletedCategories = 0;
+
+          const existing = await prisma.kiotviet_category.findMany({
+            select: { id: true, kiotVietId: true },
+          });
+          const existingIds = new Set(existing.map((c) => c.kiotVietId));
+
+          // Lượt 1: tạo/cập nhật chưa gắn cha, vì cha có thể đứng sau con.
+          for (const category of categories) {
+            try {
+              const data = {
+                name: category.categoryName,
+                rank: category.rank ?? null,
+                hasChild:
+                  parentIds.has(category.categoryId) || !!category.hasChild,
+                retailerId: category.retailerId ?? null,
+                lastSyncedAt: new Date(),
+              };
+
+              if (existingIds.has(category.categoryId)) {
+                await prisma.kiotviet_category.update({
+                  where: { kiotVietId: category.categoryId },
+                  data,
+                });
+                updatedCategories++;
+              } else {
+                await prisma.kiotviet_category.create({
+                  data: {
+                    ...data,
+                    id: category.categoryId,
+                    kiotVietId: category.categoryId,
+                    createdDate: category.createdDate
+                      ? new Date(category.createdDate)
+                      : undefined,
+                  },
+                });
+                newCategories++;
+              }
+            } catch (error) {
+              errors.push(
+                `Failed to sync category ${category.categoryId}: ${error.message}`,
+              );
+            }
+          }
+
+          // Lượt 2: gắn cha.
+          for (const category of categories) {
+            await prisma.kiotviet_category.updateMany({
+              where: { kiotVietId: category.categoryId },
+              data: {
+                parentId:
+                  category.parentId && ids.has(category.parentId)
+                    ? category.parentId
+                    : null,
+              },
+            });
+          }
+
+          // Nhóm không còn trên KiotViet: gỡ khỏi sản phẩm rồi xoá.
+          // Danh sách rỗng thì coi như API lỗi, không xoá gì.
+          const removed = existing.filter(
+            (c) => c.kiotVietId !== null && !ids.has(c.kiotVietId),
+          );
+          if (categories.length > 0 && removed.length > 0) {
+            const removedIds = removed.map((c) => c.id);
+            await prisma.kiotviet_category.updateMany({
+              where: { parentId: { in: removedIds } },
+              data: { parentId: null },
+            });
+            await prisma.product.updateMany({
+              where: { kiotviet_category_id: { in: removedIds } },
+              data: { kiotviet_category_id: null },
+            });
+            const { count } = await prisma.kiotviet_category.deleteMany({
+              where: { id: { in: removedIds } },
+            });
+            deletedCategories = count;
+          }
+
+          return { newCategories, updatedCategories, deletedCategories };
+        },
+        {
+          timeout: 120000,
+        },
+      );
+
+      const afterSync = await this.prisma.kiotviet_category.count();
+
+      this.logger.log(
+        `Category sync completed: ${results.newCategories} new, ${results.updatedCategories} updated, ${results.deletedCategories} deleted`,
+      );
+
+      return {
+        success: errors.length === 0,
+        totalSynced: results.newCategories + results.updatedCategories,
+        totalDeleted: results.deletedCategories,
+        errors,
+        summary: {
+          beforeSync,
+          afterSync,
+          ...results,
+        },
+        hierarchicalStructure: this.describeCategoryTree(categories),
+      };
+    } catch (error) {
+      this.logger.error('Category sync failed:', error.message);
+      throw new BadRequestException(`Category sync failed: ${error.message}`);
+    }
+  }
+
+  private describeCategoryTree(categories: KiotVietCategory[]) {
+    const parentOf = new Map<number, number | undefined>(
+      categories.map((c) => [c.categoryId, c.parentId]),
+    );
+
+    let maxDepth = 0;
+    let totalRootCategories = 0;
+    for (const category of categories) {
+      if (!category.parentId || !parentOf.has(category.parentId)) {
+        totalRootCategories++;
+      }
+
+      let depth = 1;
+      let parentId = category.parentId;
+      while (parentId && parentOf.has(parentId) && depth <= categories.length) {
+        depth++;
+        parentId = parentOf.get(parentId);
+      }
+      maxDepth = Math.max(maxDepth, depth);
+    }
+
+    return {
+      totalRootCategories,
+      totalChildCategories: categories.length - totalRootCategories,
+      maxDepth,
+    };
+  }
+
   async syncProducts(lastModifiedFrom?: string): Promise<SyncResult> {
     this.logger.log('Starting product synchronization from KiotViet');
 
@@ -578,6 +802,26 @@ export class KiotVietService {
                   where: { kiotviet_id: BigInt(kiotProduct.id) },
                   data: productData,
                 });
+                await this.inventoryService.saveInventories(
+                  existingProduct.id,
+                  kiotProduct.inventories,
+                  prisma,
+                );
+                await this.categoryMappingService.assignProduct(
+                  existingProduct.id,
+                  categoryId,
+                  prisma,
+                );
+                await this.priceBookService.savePriceBooks(
+                  existingProduct.id,
+                  kiotProduct.priceBooks,
+                  prisma,
+                );
+                await this.productVariantService.saveVariantInfo(
+                  existingProduct.id,
+                  kiotProduct,
+                  prisma,
+                );
                 updatedRecords++;
                 this.logger.debug(
                   `Updated product: ${kiotProduct.name} (ID: ${kiotProduct.id})`,
@@ -586,6 +830,11 @@ export class KiotVietService {
                 const newProduct = await prisma.product.create({
                   data: productData,
                 });
+                await this.inventoryService.saveInventories(
+                  newProduct.id,
+                  kiotProduct.inventories,
+                  prisma,
+                );
 
                 const siteCodes = ['dieptra', 'lermao'];
                 for (const siteCode of siteCodes) {
@@ -616,6 +865,21 @@ export class KiotVietService {
                     },
                   });
                 }
+                await this.categoryMappingService.assignProduct(
+                  newProduct.id,
+                  categoryId,
+                  prisma,
+                );
+                await this.priceBookService.savePriceBooks(
+                  newProduct.id,
+                  kiotProduct.priceBooks,
+                  prisma,
+                );
+                await this.productVariantService.saveVariantInfo(
+                  newProduct.id,
+                  kiotProduct,
+                  prisma,
+                );
 
                 newRecords++;
                 this.logger.debug(
@@ -649,12 +913,26 @@ export class KiotVietService {
         `Product sync completed: ${results.newRecords} new, ${results.updatedRecords} updated, ${results.skippedRecords} skipped`,
       );
 
+      // Chỉ lượt full mới biết sản phẩm nào đã biến mất khỏi KiotViet.
+      let archived: any[] = [];
+      if (!lastModifiedFrom) {
+        const reconcile = await this.productArchiveService.reconcileFullSync(
+          new Set(kiotVietProducts.map((p) => p.id)),
+          kiotVietProducts
+            .filter((p: any) => p.isActive === false)
+            .map((p) => p.id),
+        );
+        archived = reconcile.archived;
+        if (reconcile.skipped) errors.push(reconcile.skipped);
+      }
+
       return {
         success: errors.length === 0,
         totalSynced: results.newRecords,
         totalUpdated: results.updatedRecords,
-        totalDeleted: 0,
+        totalDeleted: archived.length,
         errors,
+        archived,
         summary: {
           beforeSync,
           afterSync,
@@ -0,0 +1,77 @@
+import { Logger } from '@nestjs/common';
+import {
+  archiveThresholdExceeded,
+  ProductArchiveService,
+} from './product-archive.service';
+
+describe('archiveThresholdExceeded', () => {
+  it('allows archiving up to the ratio', () => {
+    expect(archiveThresholdExceeded(0, 100, 100, 0.2)).toBeNull();
+    expect(archiveThresholdExceeded(20, 100, 80, 0.2)).toBeNull();
+  });
+
+  it('skips when too many products are missing', () => {
+    expect(archiveThresholdExceeded(21, 100, 79, 0.2)).toBe(
+      '21/100 products missing from KiotViet, above 20% threshold',
+    );
+  });
+
+  it('skips when KiotViet returned nothing', () => {
+    expect(archiveThresholdExceeded(0, 0, 0, 0.2)).not.toBeNull();
+  });
+});
+
+describe('ProductArchiveService.reconcileFullSync', () => {
+  const build = (localProducts: { id: bigint; kiotviet_id: bigint }[]) => {
+    const prisma = {
+      product: {
+        findMany: jest.fn().mockResolvedValue(localProducts),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+      product_site_config: {
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+    };
+    const service = new ProductArchiveService(
+      prisma as any,
+      { get: () => undefined } as any,
+      { revalidateSite: jest.fn() } as any,
+      { reindexProducts: jest.fn() } as any,
+    );
+    return { service, prisma };
+  };
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+  });
+
+  it('does not touch products when the sync was incomplete', async () => {
+    const { service, prisma } = build([{ id: 1n, kiotviet_id: 10n }]);
+
+    const result = await service.reconcileFullSync(
+      new Set(),
+      [],
+      '2 pages skipped during full sync',
+    );
+
+    expect(result).toEqual({
+      archived: [],
+      skipped: '2 pages skipped during full sync',
+    });
+    expect(prisma.product.findMany).not.toHaveBeenCalled();
+    expect(prisma.product.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('does not archive above the missing ratio', async () => {
+    const { service, prisma } = build([
+      { id: 1n, kiotviet_id: 10n },
+      { id: 2n, kiotviet_id: 20n },
+    ]);
+
+    const result = await service.reconcileFullSync(new Set([10]));
+
+    expect(result.skipped).toContain('1/2 products missing');
+    expect(prisma.product.updateMany).not.toHaveBeenCalled();
+  });
+});
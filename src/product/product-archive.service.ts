@@ -0,0 +1,210 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { RevalidateService } from '../common/revalidate.service';
+import { SearchService } from '../search/search.service';
+import { VALID_SITE_CODES } from '../common/interceptors/site-code.interceptor';
+
+export enum ArchiveReason {
+  KIOTVIET_DELETED = 'KIOTVIET_DELETED',
+  KIOTVIET_INACTIVE = 'KIOTVIET_INACTIVE',
+}
+
+// Lý do bỏ qua lưu trữ khi số sản phẩm "mất" vượt ngưỡng, null nếu được phép.
+export function archiveThresholdExceeded(
+  missingCount: number,
+  localCount: number,
+  seenCount: number,
+  maxRatio: number,
+): string | null {
+  if (seenCount > 0 && missingCount <= localCount * maxRatio) return null;
+  return `${missingCount}/${localCount} products missing from KiotViet, above ${maxRatio * 100}% threshold`;
+}
+
+/**
+ * Lưu trữ (soft-archive) sản phẩm KiotViet đã bị xoá / ngừng kinh doanh:
+ * giữ bản ghi vì đơn hàng cũ còn tham chiếu, nhưng ẩn trên mọi site.
+ *
+ * Chỉ chạy sau lượt sync đầy đủ. Nếu lượt sync bỏ sót trang, hoặc số sản
+ * phẩm "mất" vượt ngưỡng thì coi như KiotViet trả thiếu dữ liệu và bỏ qua,
+ * tránh ẩn hàng loạt.
+ *
+ * ENV: KIOTVIET_ARCHIVE_MAX_RATIO=0.2
+ */
+@Injectable()
+export class ProductArchiveService {
+  private readonly logger = new Logger(ProductArchiveService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private revalidateService: RevalidateService,
+    private searchService: SearchService,
+  ) {}
+
+  async reconcileFullSync(
+    seenKiotVietIds: Set<number>,
+    inactiveKiotVietIds: number[] = [],
+    // Lượt sync không đọc đủ dữ liệu (bỏ trang, thiếu sản phẩm).
+    incompleteReason: string | null = null,
+  ) {
+    if (incompleteReason) {
+      this.logger.warn(`Skipped archive reconciliation: ${incompleteReason}`);
+      return { archived: [], skipped: incompleteReason };
+    }
+
+    const localProducts = await this.prisma.product.findMany({
+      where: { is_from_kiotviet: true, archived_at: null },
+      select: { id: true, kiotviet_id: true },
+    });
+
+    const inactive = new Set(inactiveKiotVietIds.map(Number));
+    const missing: bigint[] = [];
+    const deactivated: bigint[] = [];
+
+    for (const product of localProducts) {
+      if (product.kiotviet_id === null) continue;
+      const kiotvietId = Number(product.kiotviet_id);
+
+      if (!seenKiotVietIds.has(kiotvietId)) {
+        missing.push(product.id);
+      } else if (inactive.has(kiotvietId)) {
+        deactivated.push(product.id);
+      }
+    }
+
+    const maxRatio = Number(
+      this.configService.get('KIOTVIET_ARCHIVE_MAX_RATIO') ?? 0.2,
+    );
+    const reason = archiveThresholdExceeded(
+      missing.length,
+      localProducts.length,
+      seenKiotVietIds.size,
+      maxRatio,
+    );
+    if (reason) {
+      this.logger.warn(`Skipped archive reconciliation: ${reason}`);
+      return { archived: [], skipped: reason };
+    }
+
+    const archived = [
+      ...(await this.archive(missing, ArchiveReason.KIOTVIET_DELETED)),
+      ...(await this.archive(deactivated, ArchiveReason.KIOTVIET_INACTIVE)),
+    ];
+
+    if (archived.length > 0) {
+      this.logger.log(`Archived ${archived.length} products missing/inactive`);
+      VALID_SITE_CODES.forEach((site) =>
+        this.revalidateService.revalidateSite(site),
+      );
+    }
+
+    return { archived, skipped: null };
+  }
+
+  private async archive(productIds: bigint[], reason: ArchiveReason) {
+    if (productIds.length === 0) return [];
+
+    const now = new Date();
+    await this.prisma.product.updateMany({
+      where: { id: { in: productIds }, archived_at: null },
+      data: { archived_at: now, archived_reason: reason, is_visible: false },
+    });
+    await this.prisma.product_site_config.updateMany({
+      where: { product_id: { in: productIds } },
+      data: { is_visible: false, updated_date: now },
+    });
+    await this.searchService.reindexProducts(productIds);
+
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, kiotviet_id: true, kiotviet_code: true, title: true },
+    });
+
+    return products.map((p) => ({
+      id: Number(p.id),
+      kiotviet_id: p.kiotviet_id ? Number(p.kiotviet_id) : null,
+      kiotviet_code: p.kiotviet_code,
+      title: p.title,
+      reason,
+    }));
+  }
+
+  async getArchived(params: {
+    pageSize: number;
+    pageNumber: number;
+    keyword?: string;
+  }) {
+    const { pageSize = 10, pageNumber = 0, keyword } = params;
+
+    const where: any = { archived_at: { not: null } };
+    if (keyword) {
+      where.OR = [
+        { title: { contains: keyword } },
+        { kiotviet_code: { contains: keyword } },
+        { kiotviet_name: { contains: keyword } },
+      ];
+    }
+
+    const [total, products] = await Promise.all([
+      this.prisma.product.count({ where }),
+      this.prisma.product.findMany({
+        where,
+        orderBy: [{ archived_at: 'desc' }],
+        skip: pageNumber * pageSize,
+        take: pageSize,
+        select: {
+          id: true,
+          title: true,
+          kiotviet_id: true,
+          kiotviet_code: true,
+          kiotviet_name: true,
+          archived_at: true,
+          archived_reason: true,
+          _count: { select: { orders: true } },
+        },
+      }),
+    ]);
+
+    return {
+      content: products.map((p) => ({
+        id: Number(p.id),
+        title: p.title,
+        kiotviet_id: p.kiotviet_id ? Number(p.kiotviet_id) : null,
+        kiotviet_code: p.kiotviet_code,
+        kiotviet_name: p.kiotviet_name,
+        archived_at: p.archived_at,
+        archived_reason: p.archived_reason,
+        order_count: p._count.orders,
+      })),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      size: pageSize,
+      number: pageNumber,
+    };
+  }
+
+  // Bỏ lưu trữ sau khi admin xem xét; hiển thị trên site vẫn do admin bật lại.
+  async restore(id: number) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: BigInt(id) },
+      select: { id: true, archived_at: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Sản phẩm với ID ${id} không tồn tại`);
+    }
+
+    await this.prisma.product.update({
+      where: { id: product.id },
+      data: { archived_at: null, archived_reason: null },
+    });
+    await this.searchService.reindexProducts([product.id]);
+
+    return {
+      success: true,
+      data: { id },
+      message: 'Đã bỏ lưu trữ sản phẩm',
+    };
+  }
+}
@@ -0,0 +1,221 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PriceBookService } from '../price-book/price-book.service';
+
+// kiotviet_type: 1 = combo, 2 = hàng thường, 3 = dịch vụ
+export const KIOTVIET_COMBO_TYPE = 1;
+
+export interface KiotVietVariantInfo {
+  type?: number;
+  masterProductId?: number | null;
+  masterUnitId?: number | null;
+  unit?: string | null;
+  conversionValue?: number | null;
+  attributes?: Array<{ attributeName: string; attributeValue: string }>;
+  productFormulas?: Array<{
+    materialId: number;
+    materialCode?: string;
+    materialName?: string;
+    materialFullName?: string;
+    quantity: number;
+  }>;
+}
+
+export interface VariantAttribute {
+  name: string;
+  value: string;
+}
+
+// kiotviet_attributes là cột Json: bỏ qua phần tử không đúng dạng { name, value }.
+export function parseVariantAttributes(
+  value: Prisma.JsonValue,
+): VariantAttribute[] {
+  if (!Array.isArray(value)) return [];
+
+  const attributes: VariantAttribute[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) continue;
+    const { name, value: attrValue } = item;
+    if (typeof name === 'string' && typeof attrValue === 'string') {
+      attributes.push({ name, value: attrValue });
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Biến thể và combo của sản phẩm KiotViet.
+ *
+ * Mỗi đơn vị tính / thuộc tính (1kg, 5kg…) là một hàng hoá riêng bên
+ * KiotViet nên vẫn là một dòng product (giỏ hàng, tồn kho, giá theo dòng
+ * đó); các dòng được nhóm qua kiotviet_master_id. Combo lưu danh sách thành
+ * phần theo id KiotViet, thành phần được khớp với product khi đọc.
+ */
+@Injectable()
+export class ProductVariantService {
+  constructor(
+    private prisma: PrismaService,
+    private priceBookService: PriceBookService,
+  ) {}
+
+  // `client` có thể là transaction đang chạy của luồng sync.
+  async saveVariantInfo(
+    productId: bigint,
+    info: KiotVietVariantInfo,
+    client: any = this.prisma,
+  ) {
+    const masterId = info.masterProductId || info.masterUnitId || null;
+    const data: any = {
+      kiotviet_master_id: masterId ? BigInt(masterId) : null,
+      kiotviet_unit: info.unit?.trim() || null,
+      kiotviet_conversion_value: info.conversionValue ?? null,
+    };
+    if (Array.isArray(info.attributes)) {
+      data.kiotviet_attributes = info.attributes.map((attr) => ({
+        name: attr.attributeName,
+        value: attr.attributeValue,
+      }));
+    }
+
+    await client.product.update({ where: { id: productId }, data });
+
+    // Chỉ đụng tới thành phần khi biết chắc loại hàng: API không kèm
+    // productFormulas thì giữ nguyên dữ liệu cũ.
+    if (info.type === KIOTVIET_COMBO_TYPE) {
+      if (!Array.isArray(info.productFormulas)) return;
+
+      await client.product_combo_item.deleteMany({
+        where: { combo_product_id: productId },
+      });
+      if (info.productFormulas.length === 0) return;
+
+      await client.product_combo_item.createMany({
+        data: info.productFormulas.map((line) => ({
+          combo_product_id: productId,
+          component_kiotviet_id: BigInt(line.materialId),
+          component_code: line.materialCode ?? null,
+          component_name: line.materialFullName || line.materialName || null,
+          quantity: Number(line.quantity) || 1,
+        })),
+        skipDuplicates: true,
+      });
+    } else if (info.type !== undefined) {
+      await client.product_combo_item.deleteMany({
+        where: { combo_product_id: productId },
+      });
+    }
+  }
+
+  // Các biến thể cùng nhóm (kể cả chính nó) để chọn trên trang chi tiết.
+  async getVariants(product: any, siteCode: string) {
+    const rootId = product.kiotviet_master_id ?? product.kiotviet_id;
+    if (!rootId) return [];
+
+    const rows = await this.prisma.product.findMany({
+      where: {
+        OR: [{ kiotviet_id: rootId }, { kiotviet_master_id: rootId }],
+        archived_at: null,
+      },
+      include: {
+        site_configs: {
+          where: { site_code: siteCode },
+          select: {
+            slug: true,
+            title: true,
+            is_visible: true,
+            price: true,
+            wholesale_price: true,
+          },
+        },
+      },
+      orderBy: [{ kiotviet_conversion_value: 'asc' }, { id: 'asc' }],
+    });
+
+    // Biến thể đang ẩn trên site không được chọn trên storefront.
+    const visibleRows = rows.filter(
+      (row) =>
+        row.id === product.id || row.site_configs[0]?.is_visible === true,
+    );
+
+    // Sản phẩm đơn lẻ: không có gì để chọn.
+    if (visibleRows.length <= 1) return [];
+
+    return visibleRows.map((row) => {
+      const sc = row.site_configs[0];
+      const attributes = parseVariantAttributes(row.kiotviet_attributes);
+
+      return {
+        productId: Number(row.id),
+        kiotvietId: row.kiotviet_id ? Number(row.kiotviet_id) : null,
+        code: row.kiotviet_code,
+        title: sc?.title || row.title || row.kiotviet_name,
+        label:
+          [...attributes.map((attr) => attr.value), row.kiotviet_unit]
+            .filter(Boolean)
+            .join(' - ') || row.kiotviet_code,
+        unit: row.kiotviet_unit,
+        conversionValue: row.kiotviet_conversion_value,
+        attributes,
+        price: this.priceBookService.unitPrice(row, sc),
+        slug: sc?.slug ?? null,
+        isVisible: sc?.is_visible === true,
+        stockQuantity: row.stock_quantity,
+        isMaster: row.kiotviet_id === rootId,
+        isCurrent: row.id === product.id,
+      };
+    });
+  }
+
+  async getComboItems(productId: bigint, siteCode: string) {
+    const items = await this.prisma.product_combo_item.findMany({
+      where: { combo_product_id: productId },
+      orderBy: { id: 'asc' },
+    });
+    if (items.length === 0) return [];
+
+    const components = await this.prisma.product.findMany({
+      where: {
+        kiotviet_id: { in: items.map((item) => item.component_kiotviet_id) },
+      },
+      include: {
+        site_configs: {
+          where: { site_code: siteCode },
+          select: {
+            slug: true,
+            title: true,
+            is_visible: true,
+            price: true,
+            wholesale_price: true,
+          },
+        },
+      },
+    });
+    const byKiotVietId = new Map<string, any>();
+    for (const component of components) {
+      if (component.kiotviet_id === null) continue;
+      byKiotVietId.set(component.kiotviet_id.toString(), component);
+    }
+
+    return items.map((item) => {
+      const component = byKiotVietId.get(item.component_kiotviet_id.toString());
+      const sc = component?.site_configs[0];
+
+      return {
+        kiotvietId: Number(item.component_kiotviet_id),
+        code: item.component_code,
+        name: item.component_name,
+        quantity: item.quantity,
+        productId: component ? Number(component.id) : null,
+        title: component
+          ? sc?.title || component.title || component.kiotviet_name
+          : null,
+        slug: sc?.slug ?? null,
+        isVisible: sc?.is_visible === true,
+        price: component
+          ? this.priceBookService.unitPrice(component, sc)
+          : null,
+      };
+    });
+  }
+}
@@ -5,6 +5,7 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   Query,
@@ -18,6 +19,10 @@ import { ProductService } from './product.service';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { KiotVietService } from './kiotviet.service';
+import { KiotVietSyncService } from './kiotviet-sync.service';
+import { ProductArchiveService } from './product-archive.service';
+import { KiotVietCategoryMappingService } from './kiotviet-category-mapping.service';
+import { SetCategoryMappingDto } from './dto/kiotviet-category-mapping.dto';
 import {
   ApiOperation,
   ApiResponse,
@@ -30,6 +35,9 @@ import { GetAllProductsResponseDto } from './dto/product-list-response.dto';
 import { CategoryService } from 'src/category/category.service';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { CurrentSiteCode } from '../common/decorators/site-code.decorator';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
+import { CurrentUser } from '../auth/user.decorator';
 
 @ApiTags('product')
 @Controller('product')
@@ -39,6 +47,9 @@ export class ProductController {
   constructor(
     private readonly productService: ProductService,
     private readonly kiotVietService: KiotVietService,
+    private readonly kiotVietSyncService: KiotVietSyncService,
+    private readonly productArchiveService: ProductArchiveService,
+    private readonly categoryMappingService: KiotVietCategoryMappingService,
     private readonly categoryService: CategoryService,
     private readonly prismaService: PrismaService,
   ) {}
@@ -47,6 +58,7 @@ export class ProductController {
   // SYNC (giữ nguyên — không filter site)
   // ============================
   @Post('products')
+  @RequirePermissions(Permission.KIOTVIET_SYNC)
   async syncProducts() {
     try {
       this.logger.log('Starting product sync...');
@@ -97,7 +109,30 @@ export class ProductController {
     );
   }
 
+  @Get('cms/archived')
+  @RequirePermissions(Permission.PRODUCT_EDIT)
+  @ApiOperation({ summary: 'Products archived after KiotViet full sync' })
+  getArchivedProducts(
+    @Query('pageSize') pageSize: string = '20',
+    @Query('pageNumber') pageNumber: string = '0',
+    @Query('keyword') keyword?: string,
+  ) {
+    return this.productArchiveService.getArchived({
+      pageSize: +pageSize,
+      pageNumber: +pageNumber,
+      keyword,
+    });
+  }
+
+  @Post('cms/:id/restore')
+  @RequirePermissions(Permission.PRODUCT_EDIT)
+  @ApiOperation({ summary: 'Restore an archived product' })
+  restoreArchivedProduct(@Param('id') id: string) {
+    return this.productArchiveService.restore(+id);
+  }
+
   @Post('kiotviet/sync/trademarks')
+  @RequirePermissions(Permission.KIOTVIET_SYNC)
   @ApiOperation({
     summary: 'Sync trademarks from KiotViet',
     description:
@@ -126,7 +161,98 @@ export class ProductController {
     }
   }
 
+  @Post('kiotviet/sync/categories')
+  @RequirePermissions(Permission.KIOTVIET_SYNC)
+  @ApiOperation({
+    summary: 'Sync categories from KiotViet',
+    description: 'Mirrors the KiotViet category tree into kiotviet_category',
+  })
+  async syncCategoriesFromKiotViet() {
+    this.logger.log('Starting KiotViet category sync');
+
+    const result = await this.kiotVietService.syncCategories();
+
+    return {
+      success: result.success,
+      message: result.success
+        ? `Successfully synced ${result.totalSynced} categories from KiotViet`
+        : `Category sync completed with ${result.errors.length} errors`,
+      summary: result.summary,
+      hierarchicalStructure: result.hierarchicalStructure,
+      errors: result.errors,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Get('kiotviet/category-mappings')
+  @RequirePermissions(Permission.KIOTVIET_SYNC)
+  @ApiOperation({ summary: 'KiotViet category tree with site mappings' })
+  getCategoryMappings(
+    @CurrentSiteCode() currentSite: string,
+    @Query('siteCode') siteCode?: string,
+  ) {
+    return this.categoryMappingService.getMappings(siteCode || currentSite);
+  }
+
+  @Post('kiotviet/category-mappings/apply')
+  @RequirePermissions(Permission.KIOTVIET_SYNC)
+  @ApiOperation({
+    summary: 'Assign site categories to unassigned KiotViet products',
+  })
+  applyCategoryMappings(@Query('siteCode') siteCode?: string) {
+    return this.categoryMappingService.applyToUnassigned(siteCode);
+  }
+
+  @Put('kiotviet/category-mappings/:kiotvietCategoryId')
+  @RequirePermissions(Permission.KIOTVIET_SYNC)
+  @ApiOperation({ summary: 'Map a KiotViet category to a site category' })
+  @UsePipes(new ValidationPipe({ transform: true }))
+  setCategoryMapping(
+    @Param('kiotvietCategoryId') kiotvietCategoryId: string,
+    @Body() dto: SetCategoryMappingDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.categoryMappingService.setMapping(
+      +kiotvietCategoryId,
+      dto.siteCode,
+      dto.categoryId,
+      `ADMIN:${user?.userId ?? 'unknown'}`,
+    );
+  }
+
+  @Delete('kiotviet/category-mappings/:kiotvietCategoryId')
+  @RequirePermissions(Permission.KIOTVIET_SYNC)
+  @ApiOperation({ summary: 'Remove a KiotViet category mapping' })
+  removeCategoryMapping(
+    @Param('kiotvietCategoryId') kiotvietCategoryId: string,
+    @CurrentSiteCode() currentSite: string,
+    @Query('siteCode') siteCode?: string,
+  ) {
+    return this.categoryMappingService.removeMapping(
+      +kiotvietCategoryId,
+      siteCode || currentSite,
+    );
+  }
+
+  @Get('kiotviet/sync/runs')
+  @RequirePermissions(Permission.KIOTVIET_SYNC)
+  @ApiOperation({ summary: 'Get scheduled KiotViet product sync history' })
+  getSyncRuns(
+    @Query('pageSize') pageSize: string = '20',
+    @Query('pageNumber') pageNumber: string = '0',
+    @Query('status') status?: string,
+    @Query('syncType') syncType?: string,
+  ) {
+    return this.kiotVietSyncService.getSyncRuns({
+      pageSize: +pageSize,
+      pageNumber: +pageNumber,
+      status,
+      syncType,
+    });
+  }
+
   @Get('kiotviet/test-connection')
+  @RequirePermissions(Permission.KIOTVIET_SYNC)
   @ApiOperation({
     summary: 'Test KiotViet API connection',
     description: 'Test the connection to KiotViet API and authentication',
@@ -152,6 +278,7 @@ export class ProductController {
   }
 
   @Get('kiotviet/sync/status')
+  @RequirePermissions(Permission.KIOTVIET_SYNC)
   @ApiOperation({
     summary: 'Get KiotViet sync status',
     description: 'Get current synchronization status and statistics',
@@ -229,6 +356,7 @@ export class ProductController {
   // CMS: UPSERT SITE CONFIG
   // ============================
   @Patch(':id/site-config')
+  @RequirePermissions(Permission.PRODUCT_EDIT)
   @ApiOperation({
     summary:
       'Update product config for current site (category, description, visibility, etc.)',
@@ -245,6 +373,7 @@ export class ProductController {
   // CMS: TOGGLE VISIBILITY per site
   // ============================
   @Patch('site-toggle-visibility/:id')
+  @RequirePermissions(Permission.PRODUCT_EDIT)
   @ApiOperation({ summary: 'Toggle product visibility for current site' })
   toggleSiteVisibility(
     @Param('id') id: string,
@@ -263,6 +392,9 @@ export class ProductController {
     @Query('categoryIds') categoryIds?: string,
     @Query('excludeProductId') excludeProductId?: string,
     @Query('randomize') randomize?: string,
+    @Query('trademarkId') trademarkId?: string,
+    @Query('minPrice') minPrice?: string,
+    @Query('maxPrice') maxPrice?: string,
     @CurrentSiteCode() siteCode?: string,
   ) {
     const filters: any = {
@@ -271,6 +403,8 @@ export class ProductController {
       title,
       visibilityFilter: true,
       includeHidden: false,
+      withFacets: true,
+      logSearch: true,
     };
 
     if (categoryIds) {
@@ -284,6 +418,9 @@ export class ProductController {
 
     if (excludeProductId) filters.excludeProductId = +excludeProductId;
     if (randomize === 'true') filters.randomize = true;
+    if (trademarkId) filters.trademarkId = +trademarkId;
+    if (minPrice) filters.minPrice = +minPrice;
+    if (maxPrice) filters.maxPrice = +maxPrice;
 
     return this.productService.searchForCMSWithSiteConfig(filters, siteCode);
   }
@@ -383,6 +520,7 @@ export class ProductController {
   // CÁC ENDPOINT CŨ — giữ nguyên cho backward compatibility
   // ============================
   @Patch(':id/category')
+  @RequirePermissions(Permission.PRODUCT_EDIT)
   @ApiOperation({ summary: 'Update product category (legacy)' })
   updateCategory(
     @Param('id') id: string,
@@ -437,6 +575,7 @@ export class ProductController {
   }
 
   @Post()
+  @RequirePermissions(Permission.PRODUCT_EDIT)
   @ApiOperation({ summary: 'Create product' })
   @UsePipes(new ValidationPipe({ transform: true }))
   create(@Body() createProductDto: CreateProductDto) {
@@ -444,6 +583,7 @@ export class ProductController {
   }
 
   @Patch(':id')
+  @RequirePermissions(Permission.PRODUCT_EDIT)
   @ApiOperation({ summary: 'Update product (shared fields)' })
   @UsePipes(new ValidationPipe({ transform: true }))
   update(@Param('id') id: string, @Body() updateProductDto: UpdateProductDto) {
@@ -451,18 +591,21 @@ export class ProductController {
   }
 
   @Delete(':id')
+  @RequirePermissions(Permission.PRODUCT_DELETE)
   @ApiOperation({ summary: 'Delete product' })
   remove(@Param('id') id: string) {
     return this.productService.remove(+id);
   }
 
   @Patch('toggle-visibility/:id')
+  @RequirePermissions(Permission.PRODUCT_EDIT)
   @ApiOperation({ summary: 'Toggle product visibility (legacy)' })
   toggleVisibility(@Param('id') id: string) {
     return this.productService.toggleVisibility(+id);
   }
 
   @Post('generate-slugs')
+  @RequirePermissions(Permission.PRODUCT_EDIT)
   @ApiOperation({ summary: 'Generate slugs for existing products' })
   generateProductSlugs() {
     return this.productService.generateSlugsForExistingProducts();
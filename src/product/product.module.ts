@@ -4,9 +4,17 @@ import { ProductService } from './product.service';
 import { ProductController } from './product.controller';
 import { CategoryModule } from '../category/category.module';
 import { KiotVietService } from './kiotviet.service';
+import { KiotVietSyncService } from './kiotviet-sync.service';
 import { HttpModule } from '@nestjs/axios';
 import { AuthModule } from 'src/auth/auth.module';
 import { PrismaModule } from 'src/prisma/prisma.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { SearchModule } from '../search/search.module';
+import { FileModule } from '../file/file.module';
+import { ProductArchiveService } from './product-archive.service';
+import { KiotVietCategoryMappingService } from './kiotviet-category-mapping.service';
+import { ProductVariantService } from './product-variant.service';
+import { RevalidateService } from '../common/revalidate.service';
 
 @Module({
   imports: [
@@ -18,9 +26,20 @@ import { PrismaModule } from 'src/prisma/prisma.module';
     PrismaModule,
     AuthModule,
     CategoryModule,
+    InventoryModule,
+    SearchModule,
+    FileModule,
   ],
   controllers: [ProductController],
-  providers: [ProductService, KiotVietService],
+  providers: [
+    ProductService,
+    KiotVietService,
+    KiotVietSyncService,
+    ProductArchiveService,
+    KiotVietCategoryMappingService,
+    ProductVariantService,
+    RevalidateService,
+  ],
   exports: [ProductService, KiotVietService],
 })
 export class ProductModule {}
@@ -14,6 +14,21 @@ import { KiotVietAuthService } from 'src/auth/kiotviet-auth/auth.service';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { async, firstValueFrom } from 'rxjs';
 import { ProductListItemDto } from './dto/product-list-response.dto';
+import { InventoryService } from '../inventory/inventory.service';
+import { ProductArchiveService } from './product-archive.service';
+import {
+  KIOTVIET_COMBO_TYPE,
+  ProductVariantService,
+} from './product-variant.service';
+import {
+  DEFAULT_RETAIL_PRICE_BOOK_ID,
+  DEFAULT_RETAIL_PRICE_BOOK_NAME,
+  PriceBookService,
+} from '../price-book/price-book.service';
+import { SearchService } from '../search/search.service';
+import { SearchAnalyticsService } from '../search/search-analytics.service';
+import { SearchSource } from '../search/dto/search-analytics.dto';
+import { ImageService } from '../file/image.service';
 
 interface CategoryHierarchyItem {
   id: number;
@@ -160,6 +175,13 @@ export class ProductService {
     private readonly configService: ConfigService,
     private readonly prismaService: PrismaService,
     private readonly authService: KiotVietAuthService,
+    private readonly inventoryService: InventoryService,
+    private readonly productArchiveService: ProductArchiveService,
+    private readonly priceBookService: PriceBookService,
+    private readonly productVariantService: ProductVariantService,
+    private readonly searchService: SearchService,
+    private readonly searchAnalyticsService: SearchAnalyticsService,
+    private readonly imageService: ImageService,
   ) {
     const baseUrl = this.configService.get<string>('KIOT_BASE_URL');
     if (!baseUrl) {
@@ -176,6 +198,9 @@ export class ProductService {
     let consecutiveErrorPages = 0;
     let lastValidTotal = 0;
     let processedProductIds = new Set<number>();
+    const inactiveProductIds: number[] = [];
+    // Trang bị bỏ qua => không biết đủ sản phẩm, không được lưu trữ.
+    let skippedPages = 0;
 
     try {
       const MAX_CONSECUTIVE_EMPTY_PAGES = 5;
@@ -254,6 +279,7 @@ export class ProductService {
               break;
             }
 
+            skippedPages++;
             currentItem += this.PAGE_SIZE;
             continue;
           }
@@ -266,6 +292,9 @@ export class ProductService {
               return false;
             }
             processedProductIds.add(product.id);
+            if (product.isActive === false) {
+              inactiveProductIds.push(product.id);
+            }
             return true;
           });
 
@@ -279,6 +308,7 @@ export class ProductService {
             this.logger.log(
               `⏭️ Skipping page ${currentPage} - all products already processed`,
             );
+            skippedPages++;
             currentItem += this.PAGE_SIZE;
             continue;
           }
@@ -330,11 +360,52 @@ export class ProductService {
           await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
         }
       }
+
+      let incompleteReason: string | null = null;
+      if (skippedPages > 0) {
+        incompleteReason = `${skippedPages} pages skipped during full sync`;
+      } else if (processedCount < totalProducts) {
+        incompleteReason = `Only ${processedCount}/${totalProducts} products processed`;
+      }
+
+      await this.reconcileArchivedProducts(
+        processedProductIds,
+        inactiveProductIds,
+        incompleteReason,
+      );
     } catch (error) {
       throw error;
     }
   }
 
+  // Sau lượt sync đầy đủ: lưu trữ sản phẩm không còn trên KiotViet.
+  private async reconcileArchivedProducts(
+    seenKiotVietIds: Set<number>,
+    inactiveKiotVietIds: number[],
+    incompleteReason: string | null,
+  ) {
+    const startedAt = new Date();
+    const { archived, skipped } =
+      await this.productArchiveService.reconcileFullSync(
+        seenKiotVietIds,
+        inactiveKiotVietIds,
+        incompleteReason,
+      );
+
+    await this.prismaService.kiotviet_sync_log.create({
+      data: {
+        sync_type: 'full',
+        entity_type: 'product_archive',
+        started_at: startedAt,
+        completed_at: new Date(),
+        status: skipped ? 'skipped' : 'completed',
+        total_deleted: archived.length,
+        error_message: skipped,
+        details: { seen: seenKiotVietIds.size, archived },
+      },
+    });
+  }
+
   async fetchProductsListWithRetry(
     params: {
       currentItem?: number;
@@ -466,13 +537,15 @@ export class ProductService {
 
     for (const productData of products) {
       try {
+        // kiotviet_price: giá bảng giá lẻ mặc định, không có thì giá gốc.
+        // Giá theo bảng giá từng site chọn xem PriceBookService.
         let priceToUse: number | null = null;
 
         if (productData.priceBooks && productData.priceBooks.length > 0) {
           const targetPriceBook = productData.priceBooks.find(
             (priceBook) =>
-              priceBook.priceBookId === 486878 ||
-              priceBook.priceBookName === 'BẢNG GIÁ LẺ HCM',
+              priceBook.priceBookId === DEFAULT_RETAIL_PRICE_BOOK_ID ||
+              priceBook.priceBookName === DEFAULT_RETAIL_PRICE_BOOK_NAME,
           );
 
           if (targetPriceBook && targetPriceBook.isActive !== false) {
@@ -518,6 +591,11 @@ export class ProductService {
           },
         });
 
+        await this.inventoryService.saveInventories(
+          product.id,
+          productData.inventories,
+        );
+
         if (!existingProduct) {
           const siteCodes = ['dieptra', 'lermao'];
           // '' -> null để không vi phạm @@unique([site_code, slug]) khi tên rỗng
@@ -553,6 +631,15 @@ export class ProductService {
           );
         }
 
+        await this.priceBookService.savePriceBooks(
+          product.id,
+          productData.priceBooks,
+        );
+        await this.productVariantService.saveVariantInfo(
+          product.id,
+          productData,
+        );
+
         savedProducts.push(product);
       } catch (error) {
         this.logger.error(
@@ -596,18 +683,10 @@ export class ProductService {
         where.is_visible = true;
       }
 
-      if (title) {
-        where.OR = [
-          { title: { contains: title } },
-          { kiotviet_name: { contains: title } },
-        ];
-      }
-
-      if (title_en) {
-        where.OR = [
-          { title_en: { contains: title_en } },
-          { kiotviet_name: { contains: title } },
-        ];
+      if (title || title_en) {
+        where.id = {
+          in: await this.searchService.matchProductIds(title || title_en),
+        };
       }
 
       if (type !== undefined) {
@@ -738,18 +817,10 @@ export class ProductService {
         where.is_visible = true;
       }
 
-      if (title) {
-        where.OR = [
-          { title: { contains: title } },
-          { kiotviet_name: { contains: title } },
-        ];
-      }
-
-      if (title_en) {
-        where.OR = [
-          { title_en: { contains: title_en } },
-          { kiotviet_name: { contains: title } },
-        ];
+      if (title || title_en) {
+        where.id = {
+          in: await this.searchService.matchProductIds(title || title_en),
+        };
       }
 
       if (categoryId) {
@@ -930,6 +1001,8 @@ export class ProductService {
       isVisible: product.is_visible === true,
       price_on: product.price_on,
       imagesUrl: imagesUrl,
+      // srcset/WebP cho ảnh đã qua pipeline; ảnh khác giữ nguyên URL.
+      images: imagesUrl.map((url) => this.imageService.describe(url)),
       featuredThumbnail: product.featured_thumbnail,
       recipeThumbnail: product.recipe_thumbnail,
       kiotViet: {
@@ -1530,8 +1603,25 @@ export class ProductService {
       isDesc,
       excludeProductId,
       randomize,
+      trademarkId,
+      minPrice,
+      maxPrice,
+      withFacets,
     } = params;
 
+    // Từ khoá, thương hiệu, khoảng giá và facet đi qua index tìm kiếm;
+    // index trống thì tạm dùng truy vấn trực tiếp (bỏ qua lọc giá).
+    if (
+      (title ||
+        trademarkId ||
+        minPrice !== undefined ||
+        maxPrice !== undefined ||
+        withFacets) &&
+      (await this.searchService.isIndexReady(siteCode))
+    ) {
+      return this.searchWithIndex(params, siteCode);
+    }
+
     // Build product_site_config where clause
     const siteConfigWhere: any = { site_code: siteCode };
 
@@ -1554,14 +1644,43 @@ export class ProductService {
       where.OR = [
         { title: { contains: title } },
         { kiotviet_name: { contains: title } },
+        { kiotviet_code: { contains: title } },
         { title_en: { contains: title } },
       ];
     }
 
+    if (trademarkId) {
+      where.kiotviet_trademark_id = trademarkId;
+    }
+
     if (excludeProductId) {
       where.id = { not: BigInt(excludeProductId) };
     }
 
+    if (randomize) {
+      const ids = await this.prisma.product.findMany({
+        where,
+        select: { id: true },
+      });
+      const rows = await this.findRowsInOrder(
+        this.pickRandomIds(
+          ids.map((p) => Number(p.id)),
+          pageSize,
+        ),
+        siteCode,
+      );
+
+      return {
+        content: rows.map((product) =>
+          this.mergeProductWithSiteConfig(product, siteCode),
+        ),
+        totalElements: ids.length,
+        totalPages: Math.ceil(ids.length / pageSize),
+        pageNumber,
+        pageSize,
+      };
+    }
+
     const skip = pageNumber * pageSize;
     const take = pageSize;
 
@@ -1571,26 +1690,7 @@ export class ProductService {
         skip,
         take,
         orderBy: this.buildSortClause(orderBy, isDesc),
-        include: {
-          site_configs: {
-            where: { site_code: siteCode },
-            include: {
-              category: {
-                select: {
-                  id: true,
-                  name: true,
-                  name_en: true,
-                  slug: true,
-                  description: true,
-                  parent_id: true,
-                  level: true,
-                  path: true,
-                  image_url: true,
-                },
-              },
-            },
-          },
-        },
+        include: this.siteConfigInclude(siteCode),
       }),
       this.prisma.product.count({ where }),
     ]);
@@ -1608,6 +1708,127 @@ export class ProductService {
     };
   }
 
+  private async searchWithIndex(params: any, siteCode: string) {
+    const {
+      pageSize = 10,
+      pageNumber = 0,
+      title,
+      categoryId,
+      categoryIds,
+      visibilityFilter,
+      orderBy,
+      isDesc,
+      excludeProductId,
+      trademarkId,
+      minPrice,
+      maxPrice,
+      withFacets,
+      logSearch,
+      randomize,
+    } = params;
+
+    const result = await this.searchService.searchProducts({
+      keyword: title,
+      siteCode,
+      visible: visibilityFilter,
+      categoryIds: categoryIds?.length
+        ? categoryIds
+        : categoryId
+          ? [categoryId]
+          : undefined,
+      trademarkId,
+      minPrice,
+      maxPrice,
+      excludeProductId,
+    });
+
+    const total = result.ids.length;
+    const skip = pageNumber * pageSize;
+    let products: any[];
+
+    if (randomize) {
+      // Sản phẩm liên quan / gợi ý: lấy ngẫu nhiên trong tập đã lọc.
+      products = await this.findRowsInOrder(
+        this.pickRandomIds(result.ids, pageSize),
+        siteCode,
+      );
+    } else if (result.ranked && !orderBy) {
+      // Giữ thứ tự theo điểm liên quan.
+      products = await this.findRowsInOrder(
+        result.ids.slice(skip, skip + pageSize),
+        siteCode,
+      );
+    } else {
+      products = await this.prisma.product.findMany({
+        where: { id: { in: result.ids.map((id) => BigInt(id)) } },
+        skip,
+        take: pageSize,
+        orderBy: this.buildSortClause(orderBy, isDesc),
+        include: this.siteConfigInclude(siteCode),
+      });
+    }
+
+    // Storefront: chỉ ghi trang đầu, lật trang không tính là lượt tìm mới.
+    const searchId =
+      logSearch && title && pageNumber === 0
+        ? await this.searchAnalyticsService.logSearch(
+            siteCode,
+            SearchSource.PRODUCT,
+            title,
+            total,
+          )
+        : null;
+
+    return {
+      content: products.map((product) =>
+        this.mergeProductWithSiteConfig(product, siteCode),
+      ),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      pageNumber,
+      pageSize,
+      ...(withFacets ? { facets: result.facets } : {}),
+      ...(searchId ? { searchId } : {}),
+    };
+  }
+
+  private pickRandomIds(ids: number[], count: number): number[] {
+    return [...ids].sort(() => Math.random() - 0.5).slice(0, count);
+  }
+
+  // Đọc sản phẩm theo đúng thứ tự id truyền vào.
+  private async findRowsInOrder(ids: number[], siteCode: string) {
+    const rows = await this.prisma.product.findMany({
+      where: { id: { in: ids.map((id) => BigInt(id)) } },
+      include: this.siteConfigInclude(siteCode),
+    });
+    const byId = new Map(rows.map((row) => [Number(row.id), row]));
+    return ids.map((id) => byId.get(id)).filter(Boolean);
+  }
+
+  private siteConfigInclude(siteCode: string) {
+    return {
+      site_configs: {
+        where: { site_code: siteCode },
+        include: {
+          category: {
+            select: {
+              id: true,
+              name: true,
+              name_en: true,
+              slug: true,
+              description: true,
+              parent_id: true,
+              level: true,
+              path: true,
+              image_url: true,
+            },
+          },
+        },
+      },
+    };
+  }
+
   private buildSortClause(
     orderBy: string = 'id',
     isDesc: boolean = true,
@@ -1658,6 +1879,7 @@ export class ProductService {
       is_featured: product.is_featured,
       price_on: product.price_on,
       rate: product.rate,
+      stockQuantity: product.stock_quantity ?? null,
 
       category_id: product.category_id ? Number(product.category_id) : null,
       category: product.category
@@ -2166,9 +2388,7 @@ export class ProductService {
       product.title_en ||
       'Untitled';
 
-    const productPrice = product.kiotviet_price
-      ? Number(product.kiotviet_price)
-      : null;
+    const productPrice = this.priceBookService.unitPrice(product, sc);
 
     let imagesUrl: string[] = [];
     const scImages = sc?.images_url;
@@ -2208,9 +2428,12 @@ export class ProductService {
       title_en: sc?.title_en ?? product.title_en,
       slug: sc?.slug ?? this.convertToSlug(productTitle),
       imagesUrl,
+      images: imagesUrl.map((url) => this.imageService.describe(url)),
       rate: sc?.rate ?? product.rate,
       price_on: sc?.price_on ?? product.price_on ?? false,
       price: productPrice,
+      stockQuantity: product.stock_quantity ?? null,
+      inStock: product.stock_quantity == null || product.stock_quantity > 0,
       title_meta: sc?.title_meta ?? null,
       description: sc?.description ?? null,
       general_description: sc?.general_description ?? null,
@@ -2401,6 +2624,7 @@ export class ProductService {
         category: { select: { id: true, name: true, slug: true } },
       },
     });
+    await this.searchService.reindexProducts([BigInt(productId)]);
 
     return {
       success: true,
@@ -2452,6 +2676,7 @@ export class ProductService {
           updated_date: new Date(),
         },
       });
+      await this.searchService.reindexProducts([BigInt(productId)]);
 
       return {
         id: productId,
@@ -2472,6 +2697,7 @@ export class ProductService {
       },
       data: { is_visible: newVisibility, updated_date: new Date() },
     });
+    await this.searchService.reindexProducts([BigInt(productId)]);
 
     return {
       id: productId,
@@ -2593,16 +2819,28 @@ export class ProductService {
       );
     }
 
+    // Biến thể chọn được (đơn vị / thuộc tính), mỗi biến thể là 1 productId
+    // riêng khi thêm vào giỏ.
+    const [variants, comboItems] = await Promise.all([
+      this.productVariantService.getVariants(product, siteCode),
+      product.kiotviet_type === KIOTVIET_COMBO_TYPE
+        ? this.productVariantService.getComboItems(product.id, siteCode)
+        : [],
+    ]);
+
     return {
       ...merged,
       categoryId: sc?.category_id ? Number(sc.category_id) : null,
       categoryHierarchy,
+      variants,
+      comboItems,
       kiotViet: {
         id: product.kiotviet_id ? Number(product.kiotviet_id) : null,
         code: product.kiotviet_code,
         name: product.kiotviet_name,
         price: product.kiotviet_price ? Number(product.kiotviet_price) : null,
         type: product.kiotviet_type,
+        unit: product.kiotviet_unit,
         images: product.kiotviet_images,
         kiotviet_description: product.kiotviet_description,
       },
@@ -2787,7 +3025,7 @@ export class ProductService {
       const p = sc.product;
       const productTitle =
         p.title || p.kiotviet_name || p.title_en || 'Untitled';
-      const price = p.kiotviet_price ? Number(p.kiotviet_price) : null;
+      const price = this.priceBookService.unitPrice(p, sc);
 
       let imagesUrl: string[] = [];
       if (p.images_url) {
@@ -2810,6 +3048,7 @@ export class ProductService {
         kiotviet_price: price,
         kiotviet_images: p.kiotviet_images,
         imagesUrl,
+        images: imagesUrl.map((url) => this.imageService.describe(url)),
         rate: sc.rate ?? p.rate,
         price_on: sc.price_on ?? p.price_on ?? false,
         is_featured: sc.is_featured,
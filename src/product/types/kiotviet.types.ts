@@ -34,6 +34,33 @@ export interface KiotVietProduct {
   modifiedDate?: string;
   createdDate?: string;
   allowsSale?: boolean;
+  inventories?: Array<{
+    branchId: number;
+    branchName?: string;
+    onHand: number;
+    reserved?: number;
+  }>;
+  priceBooks?: Array<{
+    priceBookId: number;
+    priceBookName?: string;
+    price: number;
+    isActive?: boolean;
+    startDate?: string;
+    endDate?: string;
+  }>;
+  // Biến thể / đơn vị tính / thành phần combo
+  masterProductId?: number;
+  masterUnitId?: number;
+  unit?: string;
+  conversionValue?: number;
+  attributes?: Array<{ attributeName: string; attributeValue: string }>;
+  productFormulas?: Array<{
+    materialId: number;
+    materialCode?: string;
+    materialName?: string;
+    materialFullName?: string;
+    quantity: number;
+  }>;
 }
 
 export interface KiotVietCategoryResponse {
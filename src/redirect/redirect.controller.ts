@@ -18,6 +18,8 @@ import { CreateRedirectDto } from './dto/create-redirect.dto';
 import { UpdateRedirectDto } from './dto/update-redirect.dto';
 import { CurrentSiteCode } from '../common/decorators/site-code.decorator';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
 
 @ApiTags('redirect')
 @Controller('redirect')
@@ -63,6 +65,7 @@ export class RedirectController {
   }
 
   @Post()
+  @RequirePermissions(Permission.SITE_CONFIG_MANAGE)
   @UseGuards(JwtAuthGuard)
   @UsePipes(new ValidationPipe({ transform: true }))
   @ApiOperation({ summary: 'Tạo redirect' })
@@ -74,6 +77,7 @@ export class RedirectController {
   }
 
   @Patch(':id')
+  @RequirePermissions(Permission.SITE_CONFIG_MANAGE)
   @UseGuards(JwtAuthGuard)
   @UsePipes(new ValidationPipe({ transform: true }))
   @ApiOperation({ summary: 'Cập nhật redirect' })
@@ -86,6 +90,7 @@ export class RedirectController {
   }
 
   @Delete(':id')
+  @RequirePermissions(Permission.SITE_CONFIG_MANAGE)
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Xóa redirect' })
   remove(@Param('id') id: string, @CurrentSiteCode() siteCode: string) {
@@ -11,6 +11,8 @@ import {
 import { ApiTags, ApiOperation } from '@nestjs/swagger';
 import { ReviewService } from './review.service';
 import { CurrentSiteCode } from '../common/decorators/site-code.decorator';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
 
 @ApiTags('review')
 @Controller('review')
@@ -38,12 +40,14 @@ export class ReviewController {
   }
 
   @Post('testimonials')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @ApiOperation({ summary: 'Create testimonial' })
   create(@Body() body: any, @CurrentSiteCode() siteCode: string) {
     return this.reviewService.createTestimonial(body, siteCode);
   }
 
   @Patch('testimonials/:id')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @ApiOperation({ summary: 'Update testimonial' })
   update(
     @Param('id') id: string,
@@ -54,6 +58,7 @@ export class ReviewController {
   }
 
   @Delete('testimonials/:id')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @ApiOperation({ summary: 'Delete testimonial' })
   remove(@Param('id') id: string, @CurrentSiteCode() siteCode: string) {
     return this.reviewService.deleteTestimonial(+id, siteCode);
@@ -0,0 +1,66 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { VALID_SITE_CODES } from '../../common/interceptors/site-code.interceptor';
+
+export enum SearchSource {
+  PRODUCT = 'PRODUCT',
+  NEWS = 'NEWS',
+}
+
+export class RecordSearchClickDto {
+  @ApiProperty({ description: 'searchId trả về cùng kết quả tìm kiếm' })
+  @Type(() => Number)
+  @IsInt({ message: 'searchId phải là số nguyên' })
+  @Min(1)
+  searchId: number;
+
+  @ApiProperty({ description: 'Sản phẩm khách mở từ kết quả' })
+  @Type(() => Number)
+  @IsInt({ message: 'ID sản phẩm phải là số nguyên' })
+  @Min(1)
+  productId: number;
+
+  @ApiProperty({
+    description: 'Vị trí trong danh sách (từ 0)',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  position?: number;
+}
+
+export class SearchSynonymDto {
+  @ApiProperty({
+    description: 'Các cách gọi tương đương, vd ["tra sua", "milk tea"]',
+    example: ['trà sữa', 'milk tea'],
+  })
+  @IsArray()
+  @ArrayMinSize(2, { message: 'Nhóm đồng nghĩa cần ít nhất 2 từ' })
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  terms: string[];
+
+  @ApiProperty({
+    enum: VALID_SITE_CODES,
+    required: false,
+    nullable: true,
+    description: 'Bỏ trống = áp dụng cho mọi site',
+  })
+  @IsOptional()
+  @IsIn(VALID_SITE_CODES, { message: 'Site không hợp lệ' })
+  siteCode?: string | null;
+}
@@ -0,0 +1,258 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { foldVietnamese } from '../utils/helper';
+import { RecordSearchClickDto, SearchSource } from './dto/search-analytics.dto';
+
+const DEFAULT_REPORT_DAYS = 30;
+const DEFAULT_REPORT_LIMIT = 20;
+const MAX_REPORT_LIMIT = 100;
+
+/**
+ * Ghi lại các lượt tìm kiếm trên storefront và sản phẩm khách mở sau khi
+ * tìm, để báo cáo từ khoá phổ biến, từ khoá không có kết quả và tỉ lệ click.
+ * Ghi log lỗi không được làm hỏng request tìm kiếm.
+ */
+@Injectable()
+export class SearchAnalyticsService {
+  private readonly logger = new Logger(SearchAnalyticsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  // Trả về id lượt tìm (searchId) để client gửi kèm khi click; null nếu bỏ qua.
+  async logSearch(
+    siteCode: string,
+    source: SearchSource,
+    query: string | undefined,
+    resultCount: number,
+  ): Promise<number | null> {
+    const raw = (query || '').trim().slice(0, 255);
+    const normalized = foldVietnamese(raw).slice(0, 255);
+    if (!normalized) return null;
+
+    try {
+      const log = await this.prisma.search_query_log.create({
+        data: {
+          site_code: siteCode,
+          source,
+          query: raw,
+          normalized,
+          result_count: resultCount,
+        },
+        select: { id: true },
+      });
+      return Number(log.id);
+    } catch (error) {
+      this.logger.warn(`Failed to log search "${raw}": ${error.message}`);
+      return null;
+    }
+  }
+
+  async recordClick(dto: RecordSearchClickDto) {
+    const log = await this.prisma.search_query_log.findUnique({
+      where: { id: BigInt(dto.searchId) },
+      select: { id: true, source: true },
+    });
+
+    if (!log) {
+      throw new NotFoundException(
+        `Lượt tìm kiếm với ID ${dto.searchId} không tồn tại`,
+      );
+    }
+    if (log.source !== SearchSource.PRODUCT) {
+      throw new BadRequestException('Lượt tìm kiếm không phải tìm sản phẩm');
+    }
+
+    // Mở lại cùng sản phẩm từ một lượt tìm chỉ tính một lần.
+    await this.prisma.search_click.upsert({
+      where: {
+        search_log_id_product_id: {
+          search_log_id: log.id,
+          product_id: BigInt(dto.productId),
+        },
+      },
+      update: {},
+      create: {
+        search_log_id: log.id,
+        product_id: BigInt(dto.productId),
+        position: dto.position ?? null,
+      },
+    });
+
+    return {
+      success: true,
+      data: { searchId: dto.searchId, productId: dto.productId },
+    };
+  }
+
+  async getReport(
+    siteCode: string,
+    params: { from?: string; to?: string; source?: string; limit?: number },
+  ) {
+    const to = params.to ? new Date(params.to) : new Date();
+    const from = params.from
+      ? new Date(params.from)
+      : new Date(to.getTime() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      throw new BadRequestException('Khoảng thời gian không hợp lệ');
+    }
+    // Chỉ có ngày (yyyy-mm-dd): lấy hết ngày đó.
+    if (params.to?.length === 10) to.setDate(to.getDate() + 1);
+
+    const limit = Math.min(
+      Math.max(params.limit || DEFAULT_REPORT_LIMIT, 1),
+      MAX_REPORT_LIMIT,
+    );
+
+    const where: any = {
+      site_code: siteCode,
+      created_date: { gte: from, lt: to },
+    };
+    if (params.source) where.source = params.source;
+
+    const [searches, zeroResult, withClick, topQueries, zeroQueries] =
+      await Promise.all([
+        this.prisma.search_query_log.count({ where }),
+        this.prisma.search_query_log.count({
+          where: { ...where, result_count: 0 },
+        }),
+        this.prisma.search_query_log.count({
+          where: { ...where, clicks: { some: {} } },
+        }),
+        this.prisma.search_query_log.groupBy({
+          by: ['normalized'],
+          where,
+          _count: { _all: true },
+          _avg: { result_count: true },
+          _max: { query: true },
+          orderBy: { _count: { normalized: 'desc' } },
+          take: limit,
+        }),
+        this.prisma.search_query_log.groupBy({
+          by: ['normalized'],
+          where: { ...where, result_count: 0 },
+          _count: { _all: true },
+          _max: { query: true, created_date: true },
+          orderBy: { _count: { normalized: 'desc' } },
+          take: limit,
+        }),
+      ]);
+
+    const clickStats = await this.getClickStats(
+      where,
+      topQueries.map((row) => row.normalized),
+    );
+
+    return {
+      success: true,
+      data: {
+        site_code: siteCode,
+        from,
+        to,
+        totals: {
+          searches,
+          zero_result: zeroResult,
+          zero_result_rate: this.rate(zeroResult, searches),
+          with_click: withClick,
+          click_through_rate: this.rate(withClick, searches),
+        },
+        top_queries: topQueries.map((row) => {
+          const stats = clickStats.get(row.normalized);
+          return {
+            query: row._max.query,
+            normalized: row.normalized,
+            searches: row._count._all,
+            avg_results: Math.round(row._avg.result_count ?? 0),
+            clicks: stats?.clicks ?? 0,
+            click_through_rate: this.rate(
+              stats?.searches ?? 0,
+              row._count._all,
+            ),
+            top_products: stats?.products ?? [],
+          };
+        }),
+        zero_result_queries: zeroQueries.map((row) => ({
+          query: row._max.query,
+          normalized: row.normalized,
+          searches: row._count._all,
+          last_searched: row._max.created_date,
+        })),
+      },
+    };
+  }
+
+  // Click theo từng từ khoá: số click, số lượt tìm có click, sản phẩm được mở nhiều nhất.
+  private async getClickStats(where: any, normalized: string[]) {
+    const result = new Map<
+      string,
+      {
+        clicks: number;
+        searches: number;
+        products: Array<{ id: number; title: string | null; clicks: number }>;
+      }
+    >();
+    if (normalized.length === 0) return result;
+
+    const clicks = await this.prisma.search_click.findMany({
+      where: { search_log: { ...where, normalized: { in: normalized } } },
+      select: {
+        search_log_id: true,
+        product_id: true,
+        search_log: { select: { normalized: true } },
+      },
+    });
+
+    const grouped = new Map<
+      string,
+      { searchIds: Set<bigint>; products: Map<number, number> }
+    >();
+    for (const click of clicks) {
+      const key = click.search_log.normalized;
+      const entry = grouped.get(key) ?? {
+        searchIds: new Set<bigint>(),
+        products: new Map<number, number>(),
+      };
+      entry.searchIds.add(click.search_log_id);
+      const productId = Number(click.product_id);
+      entry.products.set(productId, (entry.products.get(productId) ?? 0) + 1);
+      grouped.set(key, entry);
+    }
+
+    const productIds = new Set<number>();
+    for (const entry of grouped.values()) {
+      entry.products.forEach((_, id) => productIds.add(id));
+    }
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: [...productIds].map((id) => BigInt(id)) } },
+      select: { id: true, title: true, kiotviet_name: true },
+    });
+    const titles = new Map<number, string | null>(
+      products.map((p) => [Number(p.id), p.title || p.kiotviet_name]),
+    );
+
+    for (const [key, entry] of grouped) {
+      result.set(key, {
+        clicks: [...entry.products.values()].reduce((a, b) => a + b, 0),
+        searches: entry.searchIds.size,
+        products: [...entry.products.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 3)
+          .map(([id, count]) => ({
+            id,
+            title: titles.get(id) ?? null,
+            clicks: count,
+          })),
+      });
+    }
+
+    return result;
+  }
+
+  private rate(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * 10000) / 100 : 0;
+  }
+}
@@ -0,0 +1,170 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { foldVietnamese } from '../utils/helper';
+import { SearchSynonymDto } from './dto/search-analytics.dto';
+
+const MAX_VARIANTS = 10;
+
+interface SynonymGroup {
+  siteCode: string | null;
+  terms: string[];
+}
+
+/**
+ * Nhóm từ đồng nghĩa do biên tập viên khai báo ("trà sữa" = "milk tea").
+ * Khi tìm sản phẩm, cụm từ khớp một từ trong nhóm được thay lần lượt bằng
+ * các từ còn lại để tạo thêm biến thể truy vấn.
+ */
+@Injectable()
+export class SearchSynonymService {
+  private groups: SynonymGroup[] | null = null;
+
+  constructor(private prisma: PrismaService) {}
+
+  async list(siteCode?: string) {
+    const rows = await this.prisma.search_synonym.findMany({
+      where: siteCode
+        ? { OR: [{ site_code: siteCode }, { site_code: null }] }
+        : {},
+      orderBy: { id: 'desc' },
+    });
+
+    return { success: true, data: rows.map((row) => this.serialize(row)) };
+  }
+
+  async create(dto: SearchSynonymDto, actor: string) {
+    const row = await this.prisma.search_synonym.create({
+      data: {
+        site_code: dto.siteCode ?? null,
+        terms: this.normalizeTerms(dto.terms),
+        created_by: actor,
+        updated_date: new Date(),
+      },
+    });
+    this.groups = null;
+
+    return {
+      success: true,
+      data: this.serialize(row),
+      message: 'Đã thêm nhóm từ đồng nghĩa',
+    };
+  }
+
+  async update(id: number, dto: SearchSynonymDto, actor: string) {
+    await this.findOrFail(id);
+
+    const row = await this.prisma.search_synonym.update({
+      where: { id },
+      data: {
+        site_code: dto.siteCode ?? null,
+        terms: this.normalizeTerms(dto.terms),
+        created_by: actor,
+        updated_date: new Date(),
+      },
+    });
+    this.groups = null;
+
+    return {
+      success: true,
+      data: this.serialize(row),
+      message: 'Đã cập nhật nhóm từ đồng nghĩa',
+    };
+  }
+
+  async remove(id: number) {
+    await this.findOrFail(id);
+
+    await this.prisma.search_synonym.delete({ where: { id } });
+    this.groups = null;
+
+    return {
+      success: true,
+      data: { id },
+      message: 'Đã xoá nhóm từ đồng nghĩa',
+    };
+  }
+
+  /**
+   * Các biến thể (đã bỏ dấu, tách từ) của truy vấn; phần tử đầu là truy vấn
+   * gốc. Chỉ thay một lượt, không thay tiếp trên biến thể.
+   */
+  async expand(
+    keyword: string | undefined,
+    siteCode: string,
+  ): Promise<string[][]> {
+    const query = foldVietnamese(keyword || '');
+    if (!query) return [[]];
+
+    const variants = new Set<string>([query]);
+    const padded = ` ${query} `;
+
+    for (const group of await this.getGroups()) {
+      if (group.siteCode && group.siteCode !== siteCode) continue;
+
+      for (const term of group.terms) {
+        if (!padded.includes(` ${term} `)) continue;
+
+        for (const other of group.terms) {
+          if (other === term || variants.size >= MAX_VARIANTS) continue;
+          variants.add(padded.replace(` ${term} `, ` ${other} `).trim());
+        }
+      }
+    }
+
+    return [...variants].map((variant) => variant.split(' '));
+  }
+
+  private async getGroups(): Promise<SynonymGroup[]> {
+    if (this.groups) return this.groups;
+
+    const rows = await this.prisma.search_synonym.findMany({
+      select: { site_code: true, terms: true },
+    });
+    const groups: SynonymGroup[] = rows.map((row) => ({
+      siteCode: row.site_code,
+      terms: Array.isArray(row.terms)
+        ? row.terms.filter((t): t is string => typeof t === 'string')
+        : [],
+    }));
+    this.groups = groups;
+
+    return groups;
+  }
+
+  private normalizeTerms(terms: string[]): string[] {
+    const normalized = [
+      ...new Set(terms.map((term) => foldVietnamese(term)).filter(Boolean)),
+    ];
+
+    if (normalized.length < 2) {
+      throw new BadRequestException(
+        'Nhóm đồng nghĩa cần ít nhất 2 từ khác nhau (sau khi bỏ dấu)',
+      );
+    }
+
+    return normalized;
+  }
+
+  private async findOrFail(id: number) {
+    const row = await this.prisma.search_synonym.findUnique({ where: { id } });
+    if (!row) {
+      throw new NotFoundException(`Nhóm đồng nghĩa với ID ${id} không tồn tại`);
+    }
+    return row;
+  }
+
+  private serialize(row: any) {
+    return {
+      id: row.id,
+      site_code: row.site_code,
+      terms: row.terms,
+      created_by: row.created_by,
+      created_date: row.created_date,
+      updated_date: row.updated_date,
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { SearchService } from './search.service';
+import { SuggestService } from './suggest.service';
+import { SearchAnalyticsService } from './search-analytics.service';
+import { SearchSynonymService } from './search-synonym.service';
+import {
+  RecordSearchClickDto,
+  SearchSynonymDto,
+} from './dto/search-analytics.dto';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
+import { CurrentSiteCode } from '../common/decorators/site-code.decorator';
+import { CurrentUser } from '../auth/user.decorator';
+
+@ApiTags('search')
+@Controller('search')
+export class SearchController {
+  constructor(
+    private readonly searchService: SearchService,
+    private readonly suggestService: SuggestService,
+    private readonly analyticsService: SearchAnalyticsService,
+    private readonly synonymService: SearchSynonymService,
+  ) {}
+
+  // Storefront typeahead: sản phẩm, danh mục, bài viết, trang của site hiện tại.
+  @Get('suggest')
+  @ApiOperation({ summary: 'Gợi ý tìm kiếm cho storefront' })
+  suggest(
+    @CurrentSiteCode() siteCode: string,
+    @Query('q') q: string = '',
+    @Query('limit') limit?: string,
+  ) {
+    return this.suggestService.suggest(
+      q,
+      siteCode,
+      limit ? parseInt(limit, 10) : undefined,
+    );
+  }
+
+  // Storefront báo sản phẩm khách mở từ kết quả tìm kiếm (searchId trả kèm kết quả).
+  @Post('click')
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Ghi nhận click từ kết quả tìm kiếm' })
+  recordClick(@Body() dto: RecordSearchClickDto) {
+    return this.analyticsService.recordClick(dto);
+  }
+
+  @Get('analytics')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @ApiOperation({
+    summary: 'Báo cáo từ khoá tìm nhiều, không có kết quả và tỉ lệ click',
+  })
+  getReport(
+    @CurrentSiteCode() siteCode: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('source') source?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.analyticsService.getReport(siteCode, {
+      from,
+      to,
+      source,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
+  @Get('synonyms')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @ApiOperation({ summary: 'Danh sách nhóm từ đồng nghĩa' })
+  listSynonyms(@Query('siteCode') siteCode?: string) {
+    return this.synonymService.list(siteCode);
+  }
+
+  @Post('synonyms')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Thêm nhóm từ đồng nghĩa' })
+  createSynonym(@Body() dto: SearchSynonymDto, @CurrentUser() user: any) {
+    return this.synonymService.create(
+      dto,
+      `ADMIN:${user?.userId ?? 'unknown'}`,
+    );
+  }
+
+  @Put('synonyms/:id')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  @ApiOperation({ summary: 'Sửa nhóm từ đồng nghĩa' })
+  updateSynonym(
+    @Param('id') id: string,
+    @Body() dto: SearchSynonymDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.synonymService.update(
+      +id,
+      dto,
+      `ADMIN:${user?.userId ?? 'unknown'}`,
+    );
+  }
+
+  @Delete('synonyms/:id')
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  @ApiOperation({ summary: 'Xoá nhóm từ đồng nghĩa' })
+  removeSynonym(@Param('id') id: string) {
+    return this.synonymService.remove(+id);
+  }
+
+  @Post('reindex')
+  @RequirePermissions(Permission.PRODUCT_EDIT)
+  @ApiOperation({ summary: 'Dựng lại toàn bộ index tìm kiếm sản phẩm' })
+  async reindex() {
+    const indexed = await this.searchService.reindexAll();
+    return {
+      success: true,
+      data: { indexed },
+      message: `Đã cập nhật index tìm kiếm cho ${indexed} sản phẩm`,
+    };
+  }
+}
@@ -0,0 +1,24 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { SearchService } from './search.service';
+import { SuggestService } from './suggest.service';
+import { SearchAnalyticsService } from './search-analytics.service';
+import { SearchSynonymService } from './search-synonym.service';
+import { SearchController } from './search.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+// Global: danh mục, bài viết, trang báo thay đổi để làm mới index gợi ý;
+// tìm kiếm sản phẩm / bài viết ghi log qua SearchAnalyticsService.
+@Global()
+@Module({
+  imports: [PrismaModule, ConfigModule],
+  controllers: [SearchController],
+  providers: [
+    SearchService,
+    SuggestService,
+    SearchAnalyticsService,
+    SearchSynonymService,
+  ],
+  exports: [SearchService, SuggestService, SearchAnalyticsService],
+})
+export class SearchModule {}
@@ -0,0 +1,115 @@
+import { foldVietnamese } from '../utils/helper';
+import { SearchService } from './search.service';
+import { SearchSynonymService } from './search-synonym.service';
+
+describe('foldVietnamese', () => {
+  it('removes accents, đ and punctuation', () => {
+    expect(foldVietnamese('Trà Sữa Đường Đen')).toBe('tra sua duong den');
+    expect(foldVietnamese('  Bánh-mì (500g)! ')).toBe('banh mi 500g');
+  });
+
+  it('returns an empty string for empty input', () => {
+    expect(foldVietnamese('')).toBe('');
+  });
+});
+
+describe('SearchService.searchProducts', () => {
+  const row = (
+    productId: number,
+    title: string,
+    extra: Partial<Record<string, any>> = {},
+  ) => ({
+    product_id: BigInt(productId),
+    site_code: 'dieptra',
+    title: foldVietnamese(title),
+    code: null,
+    content: '',
+    category_id: null,
+    category_name: null,
+    trademark_id: null,
+    trademark_name: null,
+    price: null,
+    is_visible: true,
+    ...extra,
+  });
+
+  const build = (rows: any[]) => {
+    const prisma = {
+      product_search_index: { findMany: jest.fn().mockResolvedValue(rows) },
+    };
+    const synonyms = new SearchSynonymService(prisma as any);
+    jest
+      .spyOn(synonyms, 'expand')
+      .mockImplementation((keyword) =>
+        Promise.resolve([foldVietnamese(keyword || '').split(' ')]),
+      );
+
+    return new SearchService(
+      prisma as any,
+      { get: () => undefined } as any,
+      { markDirty: jest.fn() } as any,
+      synonyms,
+    );
+  };
+
+  it('matches without accents and ranks exact title matches first', async () => {
+    const service = build([
+      row(1, 'Bột trà xanh matcha'),
+      row(2, 'Trà xanh'),
+      row(3, 'Trà xanh lài'),
+      row(4, 'Cà phê'),
+    ]);
+
+    const result = await service.searchProducts({
+      keyword: 'tra xanh',
+      siteCode: 'dieptra',
+    });
+
+    expect(result.ranked).toBe(true);
+    expect(result.ids).toEqual([2, 3, 1]);
+  });
+
+  it('ranks an exact KiotViet code above title matches', async () => {
+    const service = build([
+      row(1, 'Siro SP01 đào'),
+      row(2, 'Siro đào', { code: 'sp01' }),
+    ]);
+
+    const result = await service.searchProducts({
+      keyword: 'SP01',
+      siteCode: 'dieptra',
+    });
+
+    expect(result.ids[0]).toBe(2);
+  });
+
+  it('tolerates a one-letter typo in longer words', async () => {
+    const service = build([row(1, 'Socola nguyên chất'), row(2, 'Bơ')]);
+
+    const result = await service.searchProducts({
+      keyword: 'socolla',
+      siteCode: 'dieptra',
+    });
+
+    expect(result.ids).toEqual([1]);
+  });
+
+  it('filters by visibility and counts facets on the matched set', async () => {
+    const service = build([
+      row(1, 'Trà đào', { category_id: BigInt(10), category_name: 'Trà' }),
+      row(2, 'Trà vải', { category_id: BigInt(10), category_name: 'Trà' }),
+      row(3, 'Trà sen', { is_visible: false, category_id: BigInt(10) }),
+    ]);
+
+    const result = await service.searchProducts({
+      keyword: 'tra',
+      siteCode: 'dieptra',
+      visible: true,
+    });
+
+    expect(result.ids.sort()).toEqual([1, 2]);
+    expect(result.facets.categories).toEqual([
+      { id: 10, name: 'Trà', count: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,556 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { resolveUnitPrice } from '../price-book/unit-price';
+import { foldVietnamese } from '../utils/helper';
+import { SuggestService } from './suggest.service';
+import { SearchSynonymService } from './search-synonym.service';
+import { VALID_SITE_CODES } from '../common/interceptors/site-code.interceptor';
+
+const REINDEX_BATCH_SIZE = 200;
+const FULL_REINDEX_INTERVAL_MS = 60 * 60 * 1000;
+const CONTENT_MAX_LENGTH = 5000;
+
+// Mốc khoảng giá cho facet (VND); null = không giới hạn.
+const PRICE_RANGES: Array<[number, number | null]> = [
+  [0, 100000],
+  [100000, 200000],
+  [200000, 500000],
+  [500000, 1000000],
+  [1000000, null],
+];
+
+export interface ProductSearchParams {
+  keyword?: string;
+  siteCode: string;
+  // undefined = cả sản phẩm ẩn (CMS)
+  visible?: boolean;
+  categoryIds?: number[];
+  trademarkId?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  excludeProductId?: number;
+}
+
+export interface SearchFacets {
+  categories: Array<{ id: number; name: string | null; count: number }>;
+  trademarks: Array<{ id: number; name: string | null; count: number }>;
+  priceRanges: Array<{ min: number; max: number | null; count: number }>;
+}
+
+interface IndexedProduct {
+  productId: number;
+  title: string;
+  titleWords: string[];
+  code: string;
+  words: Set<string>;
+  categoryId: number | null;
+  categoryName: string | null;
+  trademarkId: number | null;
+  trademarkName: string | null;
+  price: number | null;
+  isVisible: boolean;
+}
+
+interface SiteIndex {
+  loadedAt: number;
+  products: IndexedProduct[];
+  vocabulary: string[];
+}
+
+/**
+ * Tìm kiếm sản phẩm không phân biệt dấu.
+ *
+ * product_search_index lưu sẵn tiêu đề, mã KiotViet, mô tả và tên danh mục
+ * đã bỏ dấu cho từng site; job định kỳ cập nhật các sản phẩm vừa sửa / vừa
+ * sync và dựng lại toàn bộ mỗi giờ. Thay đổi hiển thị, giá và lưu trữ gọi
+ * reindexProducts ngay để storefront không chờ job. Khi tìm, index của site được nạp vào bộ
+ * nhớ (cache ngắn) để chấm điểm liên quan, sửa lỗi gõ (Levenshtein) và đếm
+ * facet danh mục / thương hiệu / khoảng giá.
+ *
+ * ENV:
+ *   SEARCH_REINDEX_ENABLED=false   // tắt job cập nhật index
+ *   SEARCH_CACHE_SECONDS=60
+ */
+@Injectable()
+export class SearchService {
+  private readonly logger = new Logger(SearchService.name);
+  private readonly cache = new Map<string, SiteIndex>();
+  private running = false;
+  private lastIndexedAt: Date | null = null;
+  private lastFullIndexAt = 0;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private suggestService: SuggestService,
+    private synonymService: SearchSynonymService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_5_MINUTES, { name: 'search-reindex' })
+  async handleScheduledReindex() {
+    if (this.configService.get('SEARCH_REINDEX_ENABLED') === 'false') {
+      return;
+    }
+
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      const startedAt = new Date();
+      const full =
+        !this.lastIndexedAt ||
+        Date.now() - this.lastFullIndexAt > FULL_REINDEX_INTERVAL_MS;
+
+      if (full) {
+        await this.reindexAll();
+        this.lastFullIndexAt = startedAt.getTime();
+      } else {
+        await this.reindexChangedSince(this.lastIndexedAt!);
+      }
+      this.lastIndexedAt = startedAt;
+    } catch (error) {
+      this.logger.error(`Search reindex failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async reindexAll() {
+    let lastId = BigInt(0);
+    let indexed = 0;
+
+    while (true) {
+      const products = await this.prisma.product.findMany({
+        where: { id: { gt: lastId } },
+        orderBy: { id: 'asc' },
+        take: REINDEX_BATCH_SIZE,
+        select: { id: true },
+      });
+      if (products.length === 0) break;
+
+      const ids = products.map((p) => p.id);
+      indexed += await this.reindexProducts(ids);
+      lastId = ids[ids.length - 1];
+    }
+
+    this.logger.log(`Search index rebuilt: ${indexed} rows`);
+    return indexed;
+  }
+
+  async reindexChangedSince(since: Date) {
+    const [configs, synced] = await Promise.all([
+      this.prisma.product_site_config.findMany({
+        where: { updated_date: { gte: since } },
+        select: { product_id: true },
+      }),
+      this.prisma.product.findMany({
+        where: { kiotviet_synced_at: { gte: since } },
+        select: { id: true },
+      }),
+    ]);
+
+    const ids = [
+      ...new Set([
+        ...configs.map((c) => c.product_id),
+        ...synced.map((p) => p.id),
+      ]),
+    ];
+    for (let i = 0; i < ids.length; i += REINDEX_BATCH_SIZE) {
+      await this.reindexProducts(ids.slice(i, i + REINDEX_BATCH_SIZE));
+    }
+
+    return ids.length;
+  }
+
+  async reindexProducts(productIds: bigint[]): Promise<number> {
+    if (productIds.length === 0) return 0;
+
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: productIds } },
+      include: {
+        site_configs: {
+          include: {
+            category: {
+              select: {
+                id: true,
+                name: true,
+                parent: { select: { name: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const trademarkIds = [
+      ...new Set(
+        products
+          .map((p) => p.kiotviet_trademark_id)
+          .filter((id): id is number => !!id),
+      ),
+    ];
+    const trademarks = trademarkIds.length
+      ? await this.prisma.kiotviet_trademark.findMany({
+          where: { kiotviet_id: { in: trademarkIds } },
+          select: { kiotviet_id: true, name: true },
+        })
+      : [];
+    const trademarkName = new Map<number, string>(
+      trademarks.map((t) => [t.kiotviet_id, t.name]),
+    );
+
+    let indexed = 0;
+    for (const product of products) {
+      for (const sc of product.site_configs) {
+        const title = sc.title || product.title || product.kiotviet_name || '';
+        const content = [
+          product.kiotviet_name,
+          product.title,
+          sc.title_en ?? product.title_en,
+          sc.category?.name,
+          sc.category?.parent?.name,
+          product.kiotviet_category_name,
+          this.stripHtml(sc.general_description ?? product.general_description),
+          this.stripHtml(sc.description ?? product.description),
+        ]
+          .filter(Boolean)
+          .map((text) => foldVietnamese(text ?? ''))
+          .join(' ')
+          .slice(0, CONTENT_MAX_LENGTH);
+
+        const data = {
+          title: foldVietnamese(title).slice(0, 500),
+          code: product.kiotviet_code
+            ? foldVietnamese(product.kiotviet_code)
+            : null,
+          content,
+          category_id: sc.category_id,
+          category_name: sc.category?.name ?? null,
+          trademark_id: product.kiotviet_trademark_id,
+          trademark_name: product.kiotviet_trademark_id
+            ? (trademarkName.get(product.kiotviet_trademark_id) ?? null)
+            : null,
+          price: resolveUnitPrice(product, sc),
+          is_visible: sc.is_visible === true && !product.archived_at,
+          indexed_at: new Date(),
+        };
+
+        await this.prisma.product_search_index.upsert({
+          where: {
+            product_id_site_code: {
+              product_id: product.id,
+              site_code: sc.site_code,
+            },
+          },
+          update: data,
+          create: {
+            product_id: product.id,
+            site_code: sc.site_code,
+            ...data,
+          },
+        });
+        indexed++;
+      }
+    }
+
+    this.cache.clear();
+    this.suggestService.markDirty();
+    return indexed;
+  }
+
+  async searchProducts(params: ProductSearchParams) {
+    const index = await this.getSiteIndex(params.siteCode);
+    const tokens = this.tokenize(params.keyword);
+
+    // Truy vấn gốc + biến thể từ đồng nghĩa; biến thể bị trừ nhẹ điểm.
+    const variants = (
+      tokens.length
+        ? await this.synonymService.expand(params.keyword, params.siteCode)
+        : []
+    ).map((variantTokens, i) => ({
+      tokens: variantTokens,
+      fuzzy: variantTokens.map((token) => this.fuzzyWords(token, index)),
+      phrase: variantTokens.join(' '),
+      weight: i === 0 ? 1 : 0.9,
+    }));
+
+    // Lọc theo từ khoá + hiển thị trước, facet đếm trên tập này.
+    const matched: Array<{ product: IndexedProduct; score: number }> = [];
+
+    for (const product of index.products) {
+      if (params.visible !== undefined && product.isVisible !== params.visible)
+        continue;
+      if (params.excludeProductId === product.productId) continue;
+
+      let score: number | null = tokens.length ? null : 0;
+      for (const variant of variants) {
+        const variantScore = this.score(
+          product,
+          variant.tokens,
+          variant.fuzzy,
+          variant.phrase,
+        );
+        if (variantScore !== null) {
+          score = Math.max(score ?? 0, variantScore * variant.weight);
+        }
+      }
+      if (score === null) continue;
+
+      matched.push({ product, score });
+    }
+
+    const categoryIds = params.categoryIds?.length
+      ? new Set(params.categoryIds)
+      : null;
+    const byCategory = (p: IndexedProduct) =>
+      !categoryIds || (p.categoryId !== null && categoryIds.has(p.categoryId));
+    const byTrademark = (p: IndexedProduct) =>
+      !params.trademarkId || p.trademarkId === params.trademarkId;
+    const byPrice = (p: IndexedProduct) =>
+      (params.minPrice === undefined ||
+        (p.price !== null && p.price >= params.minPrice)) &&
+      (params.maxPrice === undefined ||
+        (p.price !== null && p.price < params.maxPrice));
+
+    const results = matched.filter(
+      ({ product }) =>
+        byCategory(product) && byTrademark(product) && byPrice(product),
+    );
+    if (tokens.length) {
+      results.sort(
+        (a, b) =>
+          b.score - a.score || b.product.productId - a.product.productId,
+      );
+    }
+
+    return {
+      ids: results.map((r) => r.product.productId),
+      ranked: tokens.length > 0,
+      facets: this.buildFacets(
+        matched.map((m) => m.product),
+        byCategory,
+        byTrademark,
+        byPrice,
+      ),
+    };
+  }
+
+  // Index của site chưa có dữ liệu (mới deploy, job chưa chạy): dựng ở nền,
+  // trong lúc đó storefront dùng truy vấn trực tiếp.
+  async isIndexReady(siteCode: string): Promise<boolean> {
+    const index = await this.getSiteIndex(siteCode);
+    if (index.products.length > 0) return true;
+
+    if (!this.running) {
+      this.running = true;
+      this.reindexAll()
+        .catch((error) =>
+          this.logger.error(`Search index rebuild failed: ${error.message}`),
+        )
+        .finally(() => {
+          this.running = false;
+        });
+    }
+    return false;
+  }
+
+  // Id sản phẩm khớp từ khoá trên mọi site (các API cũ không theo site).
+  async matchProductIds(keyword?: string): Promise<bigint[]> {
+    const ids = new Set<number>();
+    for (const siteCode of VALID_SITE_CODES) {
+      const result = await this.searchProducts({ keyword, siteCode });
+      result.ids.forEach((id) => ids.add(id));
+    }
+    return [...ids].map((id) => BigInt(id));
+  }
+
+  tokenize(keyword?: string): string[] {
+    return [...new Set(foldVietnamese(keyword || '').split(' '))].filter(
+      Boolean,
+    );
+  }
+
+  // Điểm liên quan; null nếu có từ không khớp (kể cả khi đã sửa lỗi gõ).
+  private score(
+    product: IndexedProduct,
+    tokens: string[],
+    fuzzy: Array<Set<string>>,
+    phrase: string,
+  ): number | null {
+    let score = 0;
+
+    if (product.code && product.code === phrase) score += 100;
+    if (product.title === phrase) score += 60;
+    else if (product.title.startsWith(phrase)) score += 40;
+    else if (tokens.length > 1 && product.title.includes(phrase)) score += 25;
+
+    for (const [i, token] of tokens.entries()) {
+      if (product.titleWords.includes(token)) score += 20;
+      else if (product.titleWords.some((w) => w.startsWith(token))) score += 12;
+      else if (product.code.includes(token)) score += 30;
+      else if (product.words.has(token)) score += 6;
+      else if (
+        token.length >= 2 &&
+        [...fuzzy[i]].some((w) => w.startsWith(token) && product.words.has(w))
+      )
+        score += 3;
+      else if ([...fuzzy[i]].some((w) => product.words.has(w))) score += 2;
+      else return null;
+    }
+
+    return score;
+  }
+
+  // Các từ trong index gần giống token: cùng tiền tố, hoặc sai 1-2 ký tự.
+  private fuzzyWords(token: string, index: SiteIndex): Set<string> {
+    const maxEdits = token.length < 4 ? 0 : token.length < 8 ? 1 : 2;
+    const words = new Set<string>();
+
+    for (const word of index.vocabulary) {
+      if (word.startsWith(token)) words.add(word);
+      else if (
+        maxEdits > 0 &&
+        Math.abs(word.length - token.length) <= maxEdits &&
+        this.editDistance(token, word, maxEdits) <= maxEdits
+      )
+        words.add(word);
+    }
+
+    return words;
+  }
+
+  private editDistance(a: string, b: string, max: number): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        );
+        rowMin = Math.min(rowMin, current[j]);
+      }
+      if (rowMin > max) return rowMin;
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
+  // Mỗi facet đếm theo các bộ lọc còn lại, không tính bộ lọc của chính nó.
+  private buildFacets(
+    products: IndexedProduct[],
+    byCategory: (p: IndexedProduct) => boolean,
+    byTrademark: (p: IndexedProduct) => boolean,
+    byPrice: (p: IndexedProduct) => boolean,
+  ): SearchFacets {
+    const categories = new Map<
+      number,
+      { name: string | null; count: number }
+    >();
+    const trademarks = new Map<
+      number,
+      { name: string | null; count: number }
+    >();
+    const priceCounts = PRICE_RANGES.map(() => 0);
+
+    for (const p of products) {
+      if (p.categoryId !== null && byTrademark(p) && byPrice(p)) {
+        const entry = categories.get(p.categoryId) ?? {
+          name: p.categoryName,
+          count: 0,
+        };
+        entry.count++;
+        categories.set(p.categoryId, entry);
+      }
+
+      if (p.trademarkId !== null && byCategory(p) && byPrice(p)) {
+        const entry = trademarks.get(p.trademarkId) ?? {
+          name: p.trademarkName,
+          count: 0,
+        };
+        entry.count++;
+        trademarks.set(p.trademarkId, entry);
+      }
+
+      if (p.price !== null && byCategory(p) && byTrademark(p)) {
+        const price = p.price;
+        const bucket = PRICE_RANGES.findIndex(
+          ([min, max]) => price >= min && (max === null || price < max),
+        );
+        if (bucket >= 0) priceCounts[bucket]++;
+      }
+    }
+
+    const toList = (map: Map<number, { name: string | null; count: number }>) =>
+      [...map.entries()]
+        .map(([id, { name, count }]) => ({ id, name, count }))
+        .sort((a, b) => b.count - a.count);
+
+    return {
+      categories: toList(categories),
+      trademarks: toList(trademarks),
+      priceRanges: PRICE_RANGES.map(([min, max], i) => ({
+        min,
+        max,
+        count: priceCounts[i],
+      })),
+    };
+  }
+
+  private async getSiteIndex(siteCode: string): Promise<SiteIndex> {
+    const ttl =
+      Number(this.configService.get('SEARCH_CACHE_SECONDS') ?? 60) * 1000;
+    const cached = this.cache.get(siteCode);
+    if (cached && Date.now() - cached.loadedAt < ttl) return cached;
+
+    const rows = await this.prisma.product_search_index.findMany({
+      where: { site_code: siteCode },
+    });
+
+    const vocabulary = new Set<string>();
+    const products = rows.map((row) => {
+      const words = new Set(
+        `${row.title} ${row.code ?? ''} ${row.content}`
+          .split(' ')
+          .filter(Boolean),
+      );
+      words.forEach((w) => vocabulary.add(w));
+
+      return {
+        productId: Number(row.product_id),
+        title: row.title,
+        titleWords: row.title.split(' '),
+        code: row.code ?? '',
+        words,
+        categoryId: row.category_id !== null ? Number(row.category_id) : null,
+        categoryName: row.category_name,
+        trademarkId: row.trademark_id,
+        trademarkName: row.trademark_name,
+        price: row.price !== null ? Number(row.price) : null,
+        isVisible: row.is_visible,
+      };
+    });
+
+    const index = {
+      loadedAt: Date.now(),
+      products,
+      vocabulary: [...vocabulary],
+    };
+    this.cache.set(siteCode, index);
+    return index;
+  }
+
+  private stripHtml(html?: string | null): string {
+    if (!html) return '';
+    return html
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&[a-z]+;/g, ' ');
+  }
+}
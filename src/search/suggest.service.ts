@@ -0,0 +1,376 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { resolveUnitPrice } from '../price-book/unit-price';
+import { convertToSlug, escapeHtml, foldVietnamese } from '../utils/helper';
+import { convertToSlug as convertNewsSlug } from '../news/news-slug';
+import { VALID_SITE_CODES } from '../common/interceptors/site-code.interceptor';
+
+const MAX_QUERY_LENGTH = 100;
+const MAX_TOKENS = 8;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 20;
+
+export type SuggestionType = 'product' | 'category' | 'news' | 'page';
+
+// Tối đa số gợi ý mỗi loại, và hệ số ưu tiên khi trộn.
+const TYPE_LIMITS: Record<SuggestionType, number> = {
+  product: 6,
+  category: 3,
+  news: 3,
+  page: 2,
+};
+const TYPE_WEIGHTS: Record<SuggestionType, number> = {
+  product: 1,
+  category: 1.3,
+  news: 0.8,
+  page: 0.9,
+};
+
+interface SuggestEntry {
+  type: SuggestionType;
+  id: number;
+  title: string;
+  // Từ đã bỏ dấu kèm vị trí trong title, để highlight trên chuỗi gốc.
+  words: Array<{ word: string; start: number }>;
+  keywords: string[];
+  slug: string | null;
+  image: string | null;
+  price?: number | null;
+  newsType?: string | null;
+  boost: number;
+}
+
+interface SuggestIndex {
+  builtAt: number;
+  entries: SuggestEntry[];
+}
+
+/**
+ * Gợi ý tìm kiếm (typeahead) cho storefront: sản phẩm, danh mục, bài viết
+ * và trang của một site trong một lần gọi.
+ *
+ * Index dựng sẵn trong bộ nhớ theo site, truy vấn không chạm DB. Khi nội
+ * dung thay đổi, các service gọi markDirty() — request kế tiếp vẫn trả index
+ * cũ và dựng lại ở nền, nên độ trễ không phụ thuộc việc rebuild.
+ *
+ * ENV:
+ *   SUGGEST_INDEX_TTL_SECONDS=600   // dựng lại định kỳ dù không có thay đổi
+ */
+@Injectable()
+export class SuggestService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SuggestService.name);
+  private readonly indexes = new Map<string, SuggestIndex>();
+  private readonly dirty = new Set<string>();
+  private readonly building = new Map<string, Promise<SuggestIndex>>();
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    for (const siteCode of VALID_SITE_CODES) {
+      this.rebuild(siteCode).catch((error) =>
+        this.logger.warn(
+          `Suggest warm-up failed for ${siteCode}: ${error.message}`,
+        ),
+      );
+    }
+  }
+
+  // Đánh dấu index cần dựng lại; không truyền site = mọi site.
+  markDirty(siteCode?: string) {
+    for (const site of siteCode ? [siteCode] : VALID_SITE_CODES) {
+      this.dirty.add(site);
+    }
+  }
+
+  async suggest(query: string, siteCode: string, limit?: number) {
+    const startedAt = Date.now();
+    const tokens = [
+      ...new Set(
+        foldVietnamese((query || '').slice(0, MAX_QUERY_LENGTH)).split(' '),
+      ),
+    ]
+      .filter(Boolean)
+      .slice(0, MAX_TOKENS);
+    const max = Math.min(Math.max(limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    if (tokens.length === 0) {
+      return {
+        success: true,
+        data: { query, items: [], took: Date.now() - startedAt },
+      };
+    }
+
+    const index = await this.getIndex(siteCode);
+    const phrase = tokens.join(' ');
+
+    const scored: Array<{ entry: SuggestEntry; score: number }> = [];
+    for (const entry of index.entries) {
+      const score = this.score(entry, tokens, phrase);
+      if (score !== null) scored.push({ entry, score });
+    }
+    scored.sort((a, b) => b.score - a.score);
+
+    const perType: Record<string, number> = {};
+    const items: any[] = [];
+    for (const { entry, score } of scored) {
+      if (items.length >= max) break;
+      if ((perType[entry.type] ?? 0) >= TYPE_LIMITS[entry.type]) continue;
+      perType[entry.type] = (perType[entry.type] ?? 0) + 1;
+
+      items.push({
+        type: entry.type,
+        id: entry.id,
+        title: entry.title,
+        highlighted: this.highlight(entry, tokens),
+        slug: entry.slug,
+        image: entry.image,
+        ...(entry.type === 'product' ? { price: entry.price ?? null } : {}),
+        ...(entry.type === 'news' ? { newsType: entry.newsType } : {}),
+        score: Math.round(score * 100) / 100,
+      });
+    }
+
+    return {
+      success: true,
+      data: { query, items, took: Date.now() - startedAt },
+    };
+  }
+
+  // Mọi token phải là tiền tố của một từ trong tiêu đề hoặc từ khoá phụ.
+  private score(
+    entry: SuggestEntry,
+    tokens: string[],
+    phrase: string,
+  ): number | null {
+    let score = 0;
+
+    for (const token of tokens) {
+      const titleWord = entry.words.find((w) => w.word.startsWith(token));
+      if (titleWord) {
+        score += titleWord.word === token ? 10 : 6;
+        if (titleWord.start === 0) score += 4;
+        continue;
+      }
+
+      const keyword = entry.keywords.find((k) => k.startsWith(token));
+      if (!keyword) return null;
+      score += keyword === token ? 8 : 3;
+    }
+
+    const title = entry.words.map((w) => w.word).join(' ');
+    if (title === phrase) score += 60;
+    else if (title.startsWith(phrase)) score += 40;
+    else if (tokens.length > 1 && title.includes(phrase)) score += 20;
+    if (entry.keywords.includes(phrase)) score += 80;
+
+    // Ưu tiên tiêu đề ngắn (khớp sát hơn).
+    score -= Math.min(title.length, 100) / 20;
+
+    return score * TYPE_WEIGHTS[entry.type] + entry.boost;
+  }
+
+  private highlight(entry: SuggestEntry, tokens: string[]): string {
+    const marked = new Array<boolean>(entry.title.length).fill(false);
+
+    for (const { word, start } of entry.words) {
+      const token = tokens.find((t) => word.startsWith(t));
+      if (!token) continue;
+      for (let i = start; i < start + token.length; i++) marked[i] = true;
+    }
+
+    let html = '';
+    let open = false;
+    for (let i = 0; i < entry.title.length; i++) {
+      if (marked[i] !== open) {
+        html += marked[i] ? '<mark>' : '</mark>';
+        open = marked[i];
+      }
+      html += escapeHtml(entry.title[i]);
+    }
+    if (open) html += '</mark>';
+
+    return html;
+  }
+
+  private async getIndex(siteCode: string): Promise<SuggestIndex> {
+    const ttl =
+      Number(this.configService.get('SUGGEST_INDEX_TTL_SECONDS') ?? 600) * 1000;
+    const current = this.indexes.get(siteCode);
+
+    if (!current) return this.rebuild(siteCode);
+
+    if (this.dirty.has(siteCode) || Date.now() - current.builtAt > ttl) {
+      this.rebuild(siteCode).catch((error) =>
+        this.logger.warn(
+          `Suggest rebuild failed for ${siteCode}: ${error.message}`,
+        ),
+      );
+    }
+
+    return current;
+  }
+
+  // Mỗi site chỉ dựng một lần tại một thời điểm.
+  private rebuild(siteCode: string): Promise<SuggestIndex> {
+    const pending = this.building.get(siteCode);
+    if (pending) return pending;
+
+    this.dirty.delete(siteCode);
+    const task = this.buildIndex(siteCode)
+      .then((index) => {
+        this.indexes.set(siteCode, index);
+        return index;
+      })
+      .finally(() => this.building.delete(siteCode));
+
+    this.building.set(siteCode, task);
+    return task;
+  }
+
+  private async buildIndex(siteCode: string): Promise<SuggestIndex> {
+    const startedAt = Date.now();
+
+    const [configs, categories, news, pages] = await Promise.all([
+      this.prisma.product_site_config.findMany({
+        where: {
+          site_code: siteCode,
+          is_visible: true,
+          product: { archived_at: null },
+        },
+        select: {
+          slug: true,
+          title: true,
+          images_url: true,
+          is_featured: true,
+          price: true,
+          wholesale_price: true,
+          product: {
+            select: {
+              id: true,
+              title: true,
+              kiotviet_name: true,
+              kiotviet_code: true,
+              kiotviet_images: true,
+              kiotviet_price: true,
+            },
+          },
+        },
+      }),
+      this.prisma.category.findMany({
+        where: { site_code: siteCode, is_active: true },
+        select: { id: true, name: true, slug: true, image_url: true },
+      }),
+      this.prisma.news.findMany({
+        where: { site_code: siteCode, is_visible: true },
+        select: { id: true, title: true, type: true, images_url: true },
+      }),
+      this.prisma.pages.findMany({
+        where: { site_code: siteCode, is_active: true },
+        select: { id: true, title: true, slug: true },
+      }),
+    ]);
+
+    const entries: SuggestEntry[] = [];
+
+    for (const sc of configs) {
+      const product = sc.product;
+      const title = sc.title || product.title || product.kiotviet_name;
+      if (!title) continue;
+
+      const images = this.parseImages(sc.images_url);
+      const kiotvietImages = Array.isArray(product.kiotviet_images)
+        ? product.kiotviet_images
+        : [];
+
+      entries.push({
+        ...this.prepare(title),
+        type: 'product',
+        id: Number(product.id),
+        keywords: [
+          product.kiotviet_code ? foldVietnamese(product.kiotviet_code) : '',
+          ...foldVietnamese(product.kiotviet_name || '').split(' '),
+        ].filter(Boolean),
+        slug: sc.slug ?? convertToSlug(title),
+        image: images[0] ?? kiotvietImages[0] ?? null,
+        price: resolveUnitPrice(product, sc),
+        boost: sc.is_featured ? 5 : 0,
+      });
+    }
+
+    for (const category of categories) {
+      if (!category.name) continue;
+      entries.push({
+        ...this.prepare(category.name),
+        type: 'category',
+        id: Number(category.id),
+        keywords: [],
+        slug: category.slug,
+        image: category.image_url,
+        boost: 0,
+      });
+    }
+
+    for (const article of news) {
+      if (!article.title) continue;
+      entries.push({
+        ...this.prepare(article.title),
+        type: 'news',
+        id: Number(article.id),
+        keywords: [],
+        slug: convertNewsSlug(article.title),
+        image: this.parseImages(article.images_url)[0] ?? null,
+        newsType: article.type,
+        boost: 0,
+      });
+    }
+
+    for (const page of pages) {
+      entries.push({
+        ...this.prepare(page.title),
+        type: 'page',
+        id: Number(page.id),
+        keywords: [],
+        slug: page.slug,
+        image: null,
+        boost: 0,
+      });
+    }
+
+    this.logger.log(
+      `Suggest index for ${siteCode}: ${entries.length} entries in ${Date.now() - startedAt}ms`,
+    );
+
+    return { builtAt: Date.now(), entries };
+  }
+
+  // Bỏ dấu từng ký tự (giữ nguyên độ dài) và tách từ kèm vị trí.
+  private prepare(title: string) {
+    let folded = '';
+    for (let i = 0; i < title.length; i++) {
+      const char = foldVietnamese(title[i]);
+      folded += char.length === 1 ? char : ' ';
+    }
+
+    const words: Array<{ word: string; start: number }> = [];
+    for (const match of folded.matchAll(/[a-z0-9]+/g)) {
+      words.push({ word: match[0], start: match.index ?? 0 });
+    }
+
+    return { title, words };
+  }
+
+  private parseImages(value: any): string[] {
+    if (!value) return [];
+    if (Array.isArray(value)) return value;
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+}
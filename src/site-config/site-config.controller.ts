@@ -12,6 +12,8 @@ import { SiteConfigService } from './site-config.service';
 import { UpdateMenuCategoryDto } from './dto/update-menu-category.dto';
 import { CurrentSiteCode } from '../common/decorators/site-code.decorator';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
 
 @ApiTags('site-config')
 @Controller('site-config')
@@ -44,6 +46,7 @@ export class SiteConfigController {
 
   // CMS: lưu slug danh mục cha cho menu.
   @Put('menu-category')
+  @RequirePermissions(Permission.SITE_CONFIG_MANAGE)
   @UseGuards(JwtAuthGuard)
   @UsePipes(new ValidationPipe({ transform: true }))
   @ApiOperation({ summary: 'Cập nhật danh mục menu (CMS)' })
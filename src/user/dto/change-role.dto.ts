@@ -3,6 +3,8 @@ import { IsString, IsEnum } from 'class-validator';
 
 export enum UserRole {
   ROLE_USER = 'ROLE_USER',
+  ROLE_EDITOR = 'ROLE_EDITOR',
+  ROLE_SALES = 'ROLE_SALES',
   ROLE_ADMIN = 'ROLE_ADMIN',
   ROLE_SUPER_ADMIN = 'ROLE_SUPER_ADMIN',
 }
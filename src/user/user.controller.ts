@@ -23,6 +23,8 @@ import {
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { CurrentUser } from '../auth/user.decorator';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
 
 @ApiTags('user')
 @Controller('user')
@@ -43,6 +45,7 @@ export class UserController {
   }
 
   @Post()
+  @RequirePermissions(Permission.USER_MANAGE)
   @ApiOperation({ summary: 'Create a new user' })
   @ApiResponse({
     status: 201,
@@ -61,6 +64,7 @@ export class UserController {
   }
 
   @Patch(':id')
+  @RequirePermissions(Permission.USER_MANAGE)
   @ApiOperation({ summary: 'Update user information' })
   @ApiParam({ name: 'id', description: 'User ID' })
   @UsePipes(new ValidationPipe())
@@ -69,6 +73,7 @@ export class UserController {
   }
 
   @Delete(':id')
+  @RequirePermissions(Permission.USER_MANAGE)
   @ApiOperation({ summary: 'Delete a user' })
   @ApiParam({ name: 'id', description: 'User ID' })
   remove(@Param('id') id: string) {
@@ -1,4 +1,18 @@
 // src/utils/helper.ts
+// Escape chuỗi trước khi chèn vào HTML (email, highlight gợi ý tìm kiếm).
+export const escapeHtml = (
+  value: string | number | null | undefined,
+): string => {
+  if (value === null || value === undefined) return '';
+
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
 export const getInlineHTML = (cartData: any[] = []): string => {
   if (!Array.isArray(cartData) || !cartData.length) {
     return '';
@@ -8,12 +22,11 @@ export const getInlineHTML = (cartData: any[] = []): string => {
   ${cartData
     .map(
       (i) => `<div style="margin-top: 20px;">
-    <img src="${i.imagesUrl?.[0]?.replace(
-      'http://',
-      'https://',
+    <img src="${escapeHtml(
+      i.imagesUrl?.[0]?.replace('http://', 'https://'),
     )}" style="width: 80px; height: 60px; object-fit:cover; border-radius: 3px; float:left; margin-right: 15px;" />
     <div>
-      <p style="font-weight: 600; margin: 0;">${i.title}</p>
+      <p style="font-weight: 600; margin: 0;">${escapeHtml(i.title)}</p>
       <p>Số lượng: ${i.quantity || 1}</p>
       <p>Giá: ${new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(i.price || 0)}</p>
     </div>
@@ -44,6 +57,19 @@ export const isValidVietnamesePhone = (phone: string): boolean => {
   return phoneRegex.test(phone.replace(/\s/g, ''));
 };
 
+// Normalize phone number to local format (0xxxxxxxxx) for comparison
+export const normalizePhone = (phone: string): string => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.startsWith('84') ? `0${digits.slice(2)}` : digits;
+};
+
+// Các dạng cùng một số đã chuẩn hoá (0..., 84..., +84...) để tìm cả dữ liệu
+// cũ lưu số chưa chuẩn hoá.
+export const phoneVariants = (normalized: string): string[] => {
+  const local = normalized.replace(/^0/, '');
+  return [normalized, `84${local}`, `+84${local}`];
+};
+
 // Validate email format
 export const isValidEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -54,8 +80,9 @@ export const isValidEmail = (email: string): boolean => {
 export const calculateShippingCost = (
   subtotal: number,
   freeShippingThreshold: number = 500000,
+  shippingFee: number = 30000,
 ): number => {
-  return subtotal >= freeShippingThreshold ? 0 : 30000;
+  return subtotal >= freeShippingThreshold ? 0 : shippingFee;
 };
 
 // Sanitize string for database storage
@@ -93,3 +120,16 @@ export const convertToSlug = (str: string): string => {
     .replace(/-+/g, '-') // Replace multiple hyphens with single
     .replace(/^-|-$/g, ''); // Remove leading/trailing hyphens
 };
+
+// "Trà Sữa Đào" -> "tra sua dao": bỏ dấu để tìm kiếm không phân biệt dấu.
+export const foldVietnamese = (str: string): string => {
+  if (!str) return '';
+
+  return str
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[đĐ]/g, 'd')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
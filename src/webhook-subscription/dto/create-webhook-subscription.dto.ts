@@ -0,0 +1,101 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { WEBHOOK_AUTH_TYPES, WEBHOOK_EVENTS } from '../webhook-events';
+import { IsPublicUrl } from './public-url-validator.decorator';
+import { VALID_SITE_CODES } from '../../common/interceptors/site-code.interceptor';
+
+export class CreateWebhookSubscriptionDto {
+  @ApiProperty({ description: 'Tên gợi nhớ', example: 'n8n - đơn hàng' })
+  @IsNotEmpty({ message: 'Tên không được để trống' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    description: 'URL nhận webhook (POST JSON)',
+    example: 'https://n8n.example.com/webhook/orders',
+  })
+  @IsUrl(
+    { protocols: ['http', 'https'], require_tld: false },
+    { message: 'URL không hợp lệ' },
+  )
+  @IsPublicUrl()
+  @MaxLength(500)
+  url: string;
+
+  @ApiProperty({ enum: WEBHOOK_EVENTS, isArray: true })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Cần chọn ít nhất một sự kiện' })
+  @IsIn(WEBHOOK_EVENTS, { each: true, message: 'Sự kiện không hợp lệ' })
+  events: string[];
+
+  @ApiProperty({
+    description: 'Chỉ nhận sự kiện của site này (bỏ trống = mọi site)',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(VALID_SITE_CODES, { message: 'site_code không hợp lệ' })
+  site_code?: string;
+
+  @ApiProperty({
+    enum: WEBHOOK_AUTH_TYPES,
+    required: false,
+    description:
+      'HMAC: ký header X-Webhook-Signature; BEARER_JWT: gửi Authorization Bearer JWT ký bằng secret',
+  })
+  @IsOptional()
+  @IsIn(WEBHOOK_AUTH_TYPES, { message: 'Kiểu xác thực không hợp lệ' })
+  auth_type?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Secret dùng chung với receiver có sẵn (bỏ trống = tự sinh)',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(16, { message: 'Secret phải có ít nhất 16 ký tự' })
+  @MaxLength(100)
+  secret?: string;
+
+  @ApiProperty({
+    required: false,
+    example: false,
+    description: 'Gửi nguyên data thay vì bọc { id, event, createdAt, data }',
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => {
+    if (value === 'true' || value === true || value === 1) return true;
+    if (value === 'false' || value === false || value === 0) return false;
+    return value;
+  })
+  raw_payload?: boolean;
+
+  @ApiProperty({ required: false, example: true })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => {
+    if (value === 'true' || value === true || value === 1) return true;
+    if (value === 'false' || value === false || value === 0) return false;
+    return value;
+  })
+  is_active?: boolean;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+}
@@ -0,0 +1,57 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { isPrivateHost } from './public-url-validator.decorator';
+import { CreateWebhookSubscriptionDto } from './create-webhook-subscription.dto';
+
+describe('isPrivateHost', () => {
+  it.each([
+    'localhost',
+    'api.localhost',
+    'nas.local',
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.5',
+    '192.168.1.10',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '[::1]',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+  ])('rejects %p', (host) => {
+    expect(isPrivateHost(host)).toBe(true);
+  });
+
+  it.each([
+    'n8n.hisweetievietnam.com',
+    '8.8.8.8',
+    '172.32.0.1',
+    '2001:4860:4860::8888',
+  ])('accepts %p', (host) => {
+    expect(isPrivateHost(host)).toBe(false);
+  });
+});
+
+describe('CreateWebhookSubscriptionDto.url', () => {
+  const base = { name: 'n8n', events: ['order.updated'] };
+
+  it('accepts public urls', async () => {
+    const dto = plainToInstance(CreateWebhookSubscriptionDto, {
+      ...base,
+      url: 'https://n8n.example.com/webhook/orders',
+    });
+    expect(await validate(dto)).toHaveLength(0);
+  });
+
+  it.each([
+    'http://127.0.0.1:3000/admin',
+    'http://2130706433/',
+    'http://[::1]/',
+    'http://localhost/',
+  ])('rejects %p', async (url) => {
+    const dto = plainToInstance(CreateWebhookSubscriptionDto, { ...base, url });
+    const errors = await validate(dto);
+    expect(errors.map((e) => e.property)).toContain('url');
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  registerDecorator,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+import { isIP } from 'net';
+
+const PRIVATE_HOST_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+function isPrivateIPv4(ip: string) {
+  const [a, b] = ip.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  );
+}
+
+// Host trỏ vào máy chủ hoặc mạng nội bộ: loopback, dải private, link-local.
+export function isPrivateHost(host: string): boolean {
+  const hostname = host
+    .toLowerCase()
+    .replace(/^\[|\]$/g, '')
+    .replace(/\.$/, '');
+
+  if (!hostname || hostname === 'localhost') return true;
+  if (PRIVATE_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))) {
+    return true;
+  }
+
+  const version = isIP(hostname);
+  if (version === 4) return isPrivateIPv4(hostname);
+  if (version === 6) {
+    const mapped = hostname.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateIPv4(mapped[1]);
+    return (
+      hostname === '::' ||
+      hostname === '::1' ||
+      /^f[cd]/.test(hostname) ||
+      /^fe[89ab]/.test(hostname)
+    );
+  }
+
+  return false;
+}
+
+@ValidatorConstraint({ name: 'IsPublicUrl', async: false })
+export class IsPublicUrlConstraint implements ValidatorConstraintInterface {
+  validate(value: string) {
+    if (typeof value !== 'string') return false;
+
+    try {
+      return !isPrivateHost(new URL(value).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  defaultMessage() {
+    return 'URL không được trỏ tới localhost hoặc mạng nội bộ';
+  }
+}
+
+export function IsPublicUrl(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      constraints: [],
+      validator: IsPublicUrlConstraint,
+    });
+  };
+}
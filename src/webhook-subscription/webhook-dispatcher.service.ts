@@ -0,0 +1,326 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { firstValueFrom } from 'rxjs';
+import { createHmac, randomUUID } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  claimOutboxRow,
+  outboxFailure,
+  OutboxRunner,
+  releaseStaleOutboxRows,
+} from '../common/utils/outbox.utils';
+import { WEBHOOK_TEST_EVENT, WebhookAuthType } from './webhook-events';
+
+const BATCH_SIZE = 50;
+// Delivery SENDING quá lâu coi như process đã chết giữa chừng.
+const SENDING_TIMEOUT_MINUTES = 10;
+
+// Chữ ký HMAC gửi kèm header X-Webhook-Signature.
+function signWebhookBody(secret: string, timestamp: string, body: string) {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+interface EmitOptions {
+  siteCode?: string | null;
+  // Truyền transaction để delivery chỉ tồn tại khi thay đổi đã commit;
+  // khi đó job định kỳ gửi thay vì gửi ngay.
+  client?: any;
+}
+
+/**
+ * Gửi sự kiện tới các webhook_subscription đã đăng ký. Mỗi subscription
+ * nhận một webhook_delivery riêng, thử lại với backoff, quá số lần thì DEAD.
+ *
+ * Request: POST JSON { id, event, createdAt, data } kèm header
+ *   X-Webhook-Id, X-Webhook-Event, X-Webhook-Timestamp,
+ *   X-Webhook-Signature: sha256=HMAC_SHA256(secret, `${timestamp}.${body}`)
+ * auth_type BEARER_JWT gửi thêm Authorization: Bearer <JWT HS256 ký bằng
+ * secret>; raw_payload gửi nguyên data (receiver cũ chưa đọc envelope).
+ *
+ * ENV:
+ *   WEBHOOK_DELIVERY_ENABLED=false   // tắt job gửi lại
+ *   WEBHOOK_MAX_ATTEMPTS=8
+ */
+@Injectable()
+export class WebhookDispatcherService {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private readonly runner = new OutboxRunner(this.logger);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private httpService: HttpService,
+  ) {}
+
+  // Không throw: webhook lỗi không được ảnh hưởng luồng nghiệp vụ.
+  async emit(event: string, data: any, options: EmitOptions = {}) {
+    const client = options.client ?? this.prisma;
+
+    try {
+      const subscriptions = await this.prisma.webhook_subscription.findMany({
+        where: { is_active: true },
+      });
+
+      const targets = subscriptions.filter(
+        (s) =>
+          Array.isArray(s.events) &&
+          (s.events as string[]).includes(event) &&
+          (!s.site_code ||
+            !options.siteCode ||
+            s.site_code === options.siteCode),
+      );
+      if (targets.length === 0) return 0;
+
+      const eventId = randomUUID();
+      const payload = this.toJson({
+        id: eventId,
+        event,
+        createdAt: new Date().toISOString(),
+        siteCode: options.siteCode ?? null,
+        data,
+      });
+
+      const ids: bigint[] = [];
+      for (const subscription of targets) {
+        const delivery = await client.webhook_delivery.create({
+          data: {
+            subscription_id: subscription.id,
+            event_id: eventId,
+            event_type: event,
+            payload,
+            max_attempts: this.maxAttempts(),
+          },
+        });
+        ids.push(delivery.id);
+      }
+
+      if (!options.client) {
+        this.deliverMany(ids).catch((error) =>
+          this.logger.error(`Webhook delivery failed: ${error.message}`),
+        );
+      }
+
+      return targets.length;
+    } catch (error) {
+      this.logger.error(`Failed to emit ${event}: ${error.message}`);
+      return 0;
+    }
+  }
+
+  // Gửi sự kiện thử tới một subscription và chờ kết quả.
+  async sendTest(subscription: any) {
+    const eventId = randomUUID();
+    const delivery = await this.prisma.webhook_delivery.create({
+      data: {
+        subscription_id: subscription.id,
+        event_id: eventId,
+        event_type: WEBHOOK_TEST_EVENT,
+        payload: {
+          id: eventId,
+          event: WEBHOOK_TEST_EVENT,
+          createdAt: new Date().toISOString(),
+          siteCode: subscription.site_code ?? null,
+          data: { message: 'Sự kiện thử từ hisweetie-backend' },
+        },
+        // Gửi thử không tự thử lại.
+        max_attempts: 1,
+      },
+    });
+
+    await this.deliver(delivery.id);
+
+    return this.findDeliveryOrFail(delivery.id);
+  }
+
+  async retryDelivery(id: number) {
+    const delivery = await this.prisma.webhook_delivery.findUnique({
+      where: { id: BigInt(id) },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException(`Delivery với ID ${id} không tồn tại`);
+    }
+
+    await this.prisma.webhook_delivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        max_attempts: Math.max(delivery.max_attempts, this.maxAttempts()),
+        next_attempt_at: new Date(),
+        updated_date: new Date(),
+      },
+    });
+
+    await this.deliver(delivery.id);
+
+    return this.findDeliveryOrFail(delivery.id);
+  }
+
+  private async findDeliveryOrFail(id: bigint) {
+    const delivery = await this.prisma.webhook_delivery.findUnique({
+      where: { id },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException(`Delivery với ID ${id} không tồn tại`);
+    }
+
+    return delivery;
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'webhook-delivery' })
+  async handleScheduledDelivery() {
+    if (this.configService.get('WEBHOOK_DELIVERY_ENABLED') === 'false') {
+      return;
+    }
+
+    await this.runner.run('Webhook delivery job', async () => {
+      await releaseStaleOutboxRows(
+        this.prisma.webhook_delivery,
+        'SENDING',
+        SENDING_TIMEOUT_MINUTES,
+      );
+
+      const due = await this.prisma.webhook_delivery.findMany({
+        where: { status: 'PENDING', next_attempt_at: { lte: new Date() } },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        select: { id: true },
+      });
+
+      await this.deliverMany(due.map((d) => d.id));
+    });
+  }
+
+  private async deliverMany(ids: bigint[]) {
+    for (const id of ids) {
+      await this.deliver(id);
+    }
+  }
+
+  private async deliver(id: bigint) {
+    // Giành delivery trước khi gửi để job và lần gửi ngay không trùng nhau.
+    const claimed = await claimOutboxRow(this.prisma.webhook_delivery, id, {
+      status: 'SENDING',
+    });
+    if (!claimed) return;
+
+    const delivery = await this.prisma.webhook_delivery.findUnique({
+      where: { id },
+      include: { subscription: true },
+    });
+    if (!delivery) return;
+
+    const { subscription } = delivery;
+    const attempts = delivery.attempts + 1;
+    const payload: any = delivery.payload;
+    const body = JSON.stringify(
+      subscription.raw_payload ? (payload?.data ?? null) : payload,
+    );
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = signWebhookBody(subscription.secret, timestamp, body);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'hisweetie-webhook/1.0',
+      'X-Webhook-Id': delivery.event_id,
+      'X-Webhook-Event': delivery.event_type,
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${signature}`,
+    };
+    if (subscription.auth_type === WebhookAuthType.BEARER_JWT) {
+      const token = jwt.sign(
+        { sub: 'hisweetie-backend', iat: Math.floor(Date.now() / 1000) },
+        subscription.secret,
+        { algorithm: 'HS256', expiresIn: '60s' },
+      );
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(subscription.url, body, {
+          timeout: 10000,
+          headers,
+          // URL đã kiểm tra không trỏ vào mạng nội bộ, không theo redirect.
+          maxRedirects: 0,
+          // Tự đánh giá status để ghi lại cả response lỗi.
+          validateStatus: () => true,
+          transformResponse: (data) => data,
+        }),
+      );
+
+      responseStatus = response.status;
+      responseBody =
+        typeof response.data === 'string'
+          ? response.data
+          : JSON.stringify(response.data ?? '');
+      if (response.status < 200 || response.status >= 300) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = err.message || 'Request failed';
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const common = {
+      attempts,
+      response_status: responseStatus,
+      response_body: responseBody ? responseBody.slice(0, 2000) : null,
+      duration_ms: durationMs,
+      updated_date: new Date(),
+    };
+
+    if (!error) {
+      await this.prisma.webhook_delivery.update({
+        where: { id },
+        data: {
+          ...common,
+          status: 'SUCCEEDED',
+          last_error: null,
+          delivered_at: new Date(),
+        },
+      });
+      return;
+    }
+
+    const { dead, data } = outboxFailure(
+      attempts,
+      delivery.max_attempts,
+      error,
+    );
+
+    await this.prisma.webhook_delivery.update({
+      where: { id },
+      data: { ...common, ...data },
+    });
+
+    this.logger.warn(
+      `Webhook ${delivery.event_type} -> ${subscription.url} attempt ${attempts} failed${dead ? ', giving up' : ''}: ${error}`,
+    );
+  }
+
+  private maxAttempts() {
+    return Number(this.configService.get('WEBHOOK_MAX_ATTEMPTS') ?? 8);
+  }
+
+  // BigInt / Date không lưu thẳng được vào cột Json.
+  private toJson(value: any) {
+    return JSON.parse(
+      JSON.stringify(value, (_key, v) =>
+        typeof v === 'bigint' ? v.toString() : v,
+      ),
+    );
+  }
+}
@@ -0,0 +1,22 @@
+export enum WebhookEvent {
+  ORDER_UPDATED = 'order.updated',
+  CONTACT_CREATED = 'contact.created',
+  PAYMENT_RECEIVED = 'payment.received',
+  PRODUCT_SYNCED = 'product.synced',
+  // Payload webhook đơn hàng KiotViet nguyên bản (thay cho forward cứng trước đây).
+  KIOTVIET_ORDER = 'kiotviet.order',
+}
+
+export const WEBHOOK_EVENTS = Object.values(WebhookEvent) as string[];
+
+// Chỉ dùng cho nút "gửi thử", không đăng ký được.
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export enum WebhookAuthType {
+  // Header X-Webhook-Signature ký HMAC bằng secret.
+  HMAC = 'HMAC',
+  // Authorization: Bearer <JWT HS256 ký bằng secret>, cho receiver n8n cũ.
+  BEARER_JWT = 'BEARER_JWT',
+}
+
+export const WEBHOOK_AUTH_TYPES = Object.values(WebhookAuthType) as string[];
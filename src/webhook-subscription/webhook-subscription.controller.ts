@@ -0,0 +1,113 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { WebhookSubscriptionService } from './webhook-subscription.service';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+import { WEBHOOK_EVENTS } from './webhook-events';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/permissions';
+import { CurrentUser } from '../auth/user.decorator';
+
+@ApiTags('webhook-subscriptions')
+@Controller('webhook-subscriptions')
+@RequirePermissions(Permission.SITE_CONFIG_MANAGE)
+export class WebhookSubscriptionController {
+  constructor(private readonly webhookService: WebhookSubscriptionService) {}
+
+  @Get('events')
+  @ApiOperation({ summary: 'Danh sách sự kiện có thể đăng ký' })
+  getEvents() {
+    return { success: true, data: WEBHOOK_EVENTS };
+  }
+
+  // Đặt trước ':id' để không bị param nuốt.
+  @Post('deliveries/:deliveryId/retry')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Gửi lại một delivery' })
+  retryDelivery(@Param('deliveryId') deliveryId: string) {
+    return this.webhookService.retryDelivery(+deliveryId);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Danh sách webhook (CMS, phân trang)' })
+  getAll(
+    @Query('pageSize') pageSize: string = '10',
+    @Query('pageNumber') pageNumber: string = '0',
+  ) {
+    return this.webhookService.getAll({
+      pageSize: parseInt(pageSize),
+      pageNumber: parseInt(pageNumber),
+    });
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Chi tiết webhook' })
+  findOne(@Param('id') id: string) {
+    return this.webhookService.findOne(+id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'Lịch sử gửi của webhook' })
+  getDeliveries(
+    @Param('id') id: string,
+    @Query('pageSize') pageSize: string = '20',
+    @Query('pageNumber') pageNumber: string = '0',
+    @Query('status') status?: string,
+  ) {
+    return this.webhookService.getDeliveries(+id, {
+      pageSize: parseInt(pageSize),
+      pageNumber: parseInt(pageNumber),
+      status,
+    });
+  }
+
+  @Post()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  @ApiOperation({ summary: 'Tạo webhook' })
+  create(@Body() dto: CreateWebhookSubscriptionDto, @CurrentUser() user: any) {
+    return this.webhookService.create(
+      dto,
+      `ADMIN:${user?.userId ?? 'unknown'}`,
+    );
+  }
+
+  @Patch(':id')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  @ApiOperation({ summary: 'Cập nhật webhook' })
+  update(@Param('id') id: string, @Body() dto: UpdateWebhookSubscriptionDto) {
+    return this.webhookService.update(+id, dto);
+  }
+
+  @Post(':id/rotate-secret')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Tạo secret ký HMAC mới' })
+  rotateSecret(@Param('id') id: string) {
+    return this.webhookService.rotateSecret(+id);
+  }
+
+  @Post(':id/test')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Gửi sự kiện thử' })
+  sendTest(@Param('id') id: string) {
+    return this.webhookService.sendTest(+id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Xoá webhook' })
+  remove(@Param('id') id: string) {
+    return this.webhookService.remove(+id);
+  }
+}
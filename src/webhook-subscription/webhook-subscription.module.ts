@@ -0,0 +1,24 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { HttpModule } from '@nestjs/axios';
+import { WebhookSubscriptionController } from './webhook-subscription.controller';
+import { WebhookSubscriptionService } from './webhook-subscription.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+// Global: đơn hàng, thanh toán, liên hệ, đồng bộ sản phẩm đều phát sự kiện.
+@Global()
+@Module({
+  imports: [
+    PrismaModule,
+    ConfigModule,
+    HttpModule.register({
+      timeout: 10000,
+      maxRedirects: 3,
+    }),
+  ],
+  controllers: [WebhookSubscriptionController],
+  providers: [WebhookSubscriptionService, WebhookDispatcherService],
+  exports: [WebhookDispatcherService],
+})
+export class WebhookSubscriptionModule {}
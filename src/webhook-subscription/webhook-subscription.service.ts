@@ -0,0 +1,290 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { WebhookAuthType, WebhookEvent } from './webhook-events';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+
+// Các endpoint trước đây được forward cứng trong code, tạo thành
+// subscription ở lần chạy đầu để tích hợp cũ tiếp tục nhận sự kiện.
+const LEGACY_KIOTVIET_ORDER_URLS = [
+  'https://kiot.hisweetievietnam.com/webhook/order',
+  'https://n8n.hisweetievietnam.com/webhook/take-order-webhook-from-kiotviet',
+  'https://n8n.hisweetievietnam.com/webhook/webhook-kiotviet-website',
+];
+
+@Injectable()
+export class WebhookSubscriptionService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(WebhookSubscriptionService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private dispatcher: WebhookDispatcherService,
+    private configService: ConfigService,
+  ) {}
+
+  async onApplicationBootstrap() {
+    try {
+      await this.seedLegacySubscriptions();
+    } catch (error) {
+      this.logger.error(
+        `Failed to seed legacy webhooks: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  // Chỉ seed khi bảng còn trống, để subscription admin đã xoá không bị tạo lại.
+  async seedLegacySubscriptions() {
+    if ((await this.prisma.webhook_subscription.count()) > 0) return;
+
+    const data: any[] = LEGACY_KIOTVIET_ORDER_URLS.map((url) => ({
+      name: `KiotViet order - ${new URL(url).host}`,
+      url,
+      secret: this.generateSecret(),
+      events: [WebhookEvent.KIOTVIET_ORDER],
+      raw_payload: true,
+      created_by: 'system',
+    }));
+
+    // Receiver n8n của form liên hệ kiểm tra Bearer JWT ký bằng N8N_WEBHOOK_SECRET.
+    const n8nUrl = this.configService.get<string>('N8N_WEBHOOK_URL');
+    const n8nSecret = this.configService.get<string>('N8N_WEBHOOK_SECRET');
+    if (n8nUrl && n8nSecret) {
+      data.push({
+        name: 'n8n - liên hệ',
+        url: n8nUrl,
+        secret: n8nSecret,
+        events: [WebhookEvent.CONTACT_CREATED],
+        auth_type: WebhookAuthType.BEARER_JWT,
+        raw_payload: true,
+        created_by: 'system',
+      });
+    } else if (n8nUrl) {
+      this.logger.warn(
+        'N8N_WEBHOOK_SECRET is missing, contact webhook was not seeded',
+      );
+    }
+
+    await this.prisma.webhook_subscription.createMany({ data });
+    this.logger.log(`Seeded ${data.length} legacy webhook subscriptions`);
+  }
+
+  // Không trả secret; chỉ hiện một lần khi tạo hoặc đổi secret.
+  private serialize(subscription: any) {
+    return {
+      id: Number(subscription.id),
+      name: subscription.name,
+      url: subscription.url,
+      events: subscription.events,
+      site_code: subscription.site_code,
+      auth_type: subscription.auth_type,
+      raw_payload: subscription.raw_payload,
+      is_active: subscription.is_active,
+      description: subscription.description,
+      created_by: subscription.created_by,
+      created_date: subscription.created_date,
+      updated_date: subscription.updated_date,
+    };
+  }
+
+  private serializeDelivery(delivery: any) {
+    return {
+      id: Number(delivery.id),
+      subscription_id: Number(delivery.subscription_id),
+      event_id: delivery.event_id,
+      event_type: delivery.event_type,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      max_attempts: delivery.max_attempts,
+      next_attempt_at: delivery.next_attempt_at,
+      response_status: delivery.response_status,
+      response_body: delivery.response_body,
+      last_error: delivery.last_error,
+      duration_ms: delivery.duration_ms,
+      delivered_at: delivery.delivered_at,
+      created_date: delivery.created_date,
+    };
+  }
+
+  private generateSecret() {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+  }
+
+  private async findOrFail(id: number) {
+    const subscription = await this.prisma.webhook_subscription.findUnique({
+      where: { id: BigInt(id) },
+    });
+    if (!subscription) {
+      throw new NotFoundException(`Webhook với ID ${id} không tồn tại`);
+    }
+    return subscription;
+  }
+
+  async getAll(params: { pageSize: number; pageNumber: number }) {
+    const { pageSize = 10, pageNumber = 0 } = params;
+
+    const [total, subscriptions] = await Promise.all([
+      this.prisma.webhook_subscription.count(),
+      this.prisma.webhook_subscription.findMany({
+        orderBy: [{ id: 'desc' }],
+        skip: pageNumber * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      content: subscriptions.map((s) => this.serialize(s)),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      size: pageSize,
+      number: pageNumber,
+    };
+  }
+
+  async findOne(id: number) {
+    return {
+      success: true,
+      data: this.serialize(await this.findOrFail(id)),
+    };
+  }
+
+  async create(dto: CreateWebhookSubscriptionDto, actor: string) {
+    const subscription = await this.prisma.webhook_subscription.create({
+      data: {
+        name: dto.name,
+        url: dto.url,
+        secret: dto.secret || this.generateSecret(),
+        events: [...new Set(dto.events)],
+        site_code: dto.site_code ?? null,
+        auth_type: dto.auth_type ?? WebhookAuthType.HMAC,
+        raw_payload: dto.raw_payload ?? false,
+        is_active: dto.is_active ?? true,
+        description: dto.description ?? null,
+        created_by: actor,
+      },
+    });
+
+    this.logger.log(`Created webhook ${subscription.id} -> ${dto.url}`);
+
+    return {
+      success: true,
+      data: { ...this.serialize(subscription), secret: subscription.secret },
+      message: 'Tạo webhook thành công',
+    };
+  }
+
+  async update(id: number, dto: UpdateWebhookSubscriptionDto) {
+    await this.findOrFail(id);
+
+    const data: any = { updated_date: new Date() };
+    if (dto.name !== undefined) data.name = dto.name;
+    if (dto.url !== undefined) data.url = dto.url;
+    if (dto.events !== undefined) data.events = [...new Set(dto.events)];
+    if (dto.site_code !== undefined) data.site_code = dto.site_code || null;
+    if (dto.auth_type !== undefined) data.auth_type = dto.auth_type;
+    if (dto.raw_payload !== undefined) data.raw_payload = dto.raw_payload;
+    if (dto.secret) data.secret = dto.secret;
+    if (dto.is_active !== undefined) data.is_active = dto.is_active;
+    if (dto.description !== undefined) data.description = dto.description;
+
+    const subscription = await this.prisma.webhook_subscription.update({
+      where: { id: BigInt(id) },
+      data,
+    });
+
+    return {
+      success: true,
+      data: this.serialize(subscription),
+      message: 'Cập nhật webhook thành công',
+    };
+  }
+
+  async rotateSecret(id: number) {
+    await this.findOrFail(id);
+
+    const subscription = await this.prisma.webhook_subscription.update({
+      where: { id: BigInt(id) },
+      data: { secret: this.generateSecret(), updated_date: new Date() },
+    });
+
+    return {
+      success: true,
+      data: { ...this.serialize(subscription), secret: subscription.secret },
+      message: 'Đã tạo secret mới',
+    };
+  }
+
+  async remove(id: number) {
+    await this.findOrFail(id);
+    await this.prisma.webhook_subscription.delete({
+      where: { id: BigInt(id) },
+    });
+
+    return { success: true, message: 'Xoá webhook thành công' };
+  }
+
+  async sendTest(id: number) {
+    const subscription = await this.findOrFail(id);
+    const delivery = await this.dispatcher.sendTest(subscription);
+
+    return {
+      success: delivery.status === 'SUCCEEDED',
+      data: this.serializeDelivery(delivery),
+      message:
+        delivery.status === 'SUCCEEDED'
+          ? `Gửi thử thành công (HTTP ${delivery.response_status})`
+          : `Gửi thử thất bại: ${delivery.last_error}`,
+    };
+  }
+
+  async getDeliveries(
+    id: number,
+    params: { pageSize: number; pageNumber: number; status?: string },
+  ) {
+    await this.findOrFail(id);
+    const { pageSize = 20, pageNumber = 0, status } = params;
+
+    const where: any = { subscription_id: BigInt(id) };
+    if (status) where.status = status;
+
+    const [total, deliveries] = await Promise.all([
+      this.prisma.webhook_delivery.count({ where }),
+      this.prisma.webhook_delivery.findMany({
+        where,
+        orderBy: [{ id: 'desc' }],
+        skip: pageNumber * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      content: deliveries.map((d) => this.serializeDelivery(d)),
+      totalElements: total,
+      totalPages: Math.ceil(total / pageSize),
+      size: pageSize,
+      number: pageNumber,
+    };
+  }
+
+  async retryDelivery(deliveryId: number) {
+    const delivery = await this.dispatcher.retryDelivery(deliveryId);
+
+    return {
+      success: delivery.status === 'SUCCEEDED',
+      data: this.serializeDelivery(delivery),
+      message:
+        delivery.status === 'SUCCEEDED'
+          ? 'Gửi lại thành công'
+          : `Gửi lại chưa thành công: ${delivery.last_error}`,
+    };
+  }
+}